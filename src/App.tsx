@@ -13,10 +13,18 @@ import JobTitleSelector from './components/JobTitleSelector';
 import ChatWindow from './components/ChatWindow';
 import AdminLogin from './components/AdminLogin';
 import AdminDashboard from './components/AdminDashboard';
+import SharedConversationView from './components/SharedConversationView';
 import { AgentTaskService } from './services/agentTaskService';
-import { chat, webSearch } from './api/orcha';
-import type { ChatRequest, WebSearchRequest } from './types/orcha';
+import { acknowledgeAgentTaskDeliveries, getAgentTaskDeliveries } from './api/orcha';
 import AgentNotification, { type AgentNotificationData } from './components/AgentNotification';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import { createLogger } from './services/logger';
+import { queryKeys, STALE_TIME_MS } from './api/queryKeys';
+
+const log = createLogger('scheduler');
+
+// How often agent task results are fetched while the app is open
+const AGENT_SYNC_INTERVAL_MS = 60000;
 
 // Create a query client for React Query 
 const queryClient = new QueryClient({
@@ -24,6 +32,7 @@ const queryClient = new QueryClient({
     queries: {
       refetchOnWindowFocus: false,
       retry: 1,
+      staleTime: STALE_TIME_MS,
     },
   },
 });
@@ -42,84 +51,67 @@ const MainAppContent: React.FC = () => {
     }
   }, [user, session, login, pendingInvitation, pendingJobTitle]);
 
-  // Agent Task Scheduler
+  // Agent task results: tasks run on the backend scheduler even while Orion is closed,
+  // their answers are written to each task's conversation and announced here
   useEffect(() => {
     if (!isAuthenticated || !user) return;
 
-    console.log('🤖 Agent Task Scheduler initialized');
-
-    // Execute agent task
-    const executeAgentTask = async (task: any) => {
-      console.log('🚀 Executing agent task:', task.taskName, task.isSearch ? '(Web Search)' : '(Chat)');
+    log.debug('Agent task result sync started');
 
+    const syncDeliveries = async () => {
       try {
-        let response;
-
-        if (task.isSearch) {
-          // Execute as web search
-          const searchRequest: WebSearchRequest = {
-            user_id: user.id.toString(),
-            tenant_id: session?.tenant_id,
-            query: task.instructions,
-            max_results: 5
-          };
-
-          response = await webSearch(searchRequest);
-        } else {
-          // Execute as regular chat
-          const chatRequest: ChatRequest = {
-            user_id: user.id.toString(),
-            tenant_id: session?.tenant_id,
-            message: task.instructions,
-            use_rag: false,
-            conversation_history: []
-          };
-
-          response = await chat(chatRequest);
+        const lastCheck = AgentTaskService.getLastCheckTime();
+        const deliveries = await getAgentTaskDeliveries(user.id);
+        AgentTaskService.setLastCheckTime();
+
+        // A longer gap means Orion was closed or offline: the scheduler may have skipped
+        // or caught up runs meanwhile, so refresh the tasks' missed-run counters
+        const hadGap = !lastCheck || Date.now() - lastCheck.getTime() > AGENT_SYNC_INTERVAL_MS * 2;
+        if (hadGap || deliveries.length > 0) {
+          queryClient.invalidateQueries(queryKeys.agentTasks(user.id));
         }
+        if (deliveries.length === 0) return;
+
+        log.debug(`${deliveries.length} agent task result(s) delivered`);
+        const latest = deliveries[deliveries.length - 1];
+        setAgentNotification({
+          id: String(latest.id),
+          taskName: latest.task_name + (latest.is_search ? ' 🌐' : '') + (deliveries.length > 1 ? ` (+${deliveries.length - 1})` : ''),
+          message: latest.content,
+          timestamp: latest.ran_at,
+          scheduledFor: latest.catch_up ? latest.scheduled_for : undefined,
+        });
 
-        if (response.status === 'ok' && response.message) {
-          // Show notification with slight delay to ensure visibility
-          setTimeout(() => {
-            const notification: AgentNotificationData = {
-              id: Date.now().toString(),
-              taskName: task.taskName + (task.isSearch ? ' 🌐' : ''),
-              message: response.message || '',
-              timestamp: new Date().toISOString()
-            };
-
-            setAgentNotification(notification);
-            console.log('✅ Agent task completed - notification displayed');
-          }, 500);
-        }
-      } catch (error) {
-        console.error('❌ Agent task execution failed:', error);
-      }
-    };
-
-    // Check for scheduled tasks
-    const checkTasks = () => {
-      const tasksToRun = AgentTaskService.checkScheduledTasks();
-
-      if (tasksToRun.length > 0) {
-        console.log(`🔔 ${tasksToRun.length} agent task(s) ready to execute`);
-        tasksToRun.forEach(task => {
-          executeAgentTask(task);
+        // Results were appended to conversations and run logs on the server: refetch them
+        queryClient.invalidateQueries(queryKeys.conversations(user.id));
+        new Set(deliveries.map(d => d.conversation_id)).forEach(conversationId => {
+          if (conversationId !== null) queryClient.invalidateQueries(queryKeys.messages(user.id, conversationId));
+        });
+        new Set(deliveries.map(d => d.task_id)).forEach(taskId => {
+          queryClient.invalidateQueries(queryKeys.agentTaskRuns(user.id, taskId));
         });
+        await acknowledgeAgentTaskDeliveries(user.id, deliveries.map(d => d.id));
+      } catch (error) {
+        log.error('Failed to sync agent task results', error);
       }
     };
 
-    // Check immediately on startup
-    checkTasks();
+    // Tasks scheduled before the backend stored them are uploaded once
+    AgentTaskService.migrateLegacyTasks(user.id)
+      .then(migrated => {
+        if (migrated > 0) queryClient.invalidateQueries(queryKeys.agentTasks(user.id));
+      })
+      .catch(error => log.error('Failed to migrate agent tasks', error));
 
-    // Check every minute
-    const intervalId = setInterval(checkTasks, 60000);
+    // Check immediately on startup, then every minute while the app is open
+    syncDeliveries();
+    const intervalId = setInterval(syncDeliveries, AGENT_SYNC_INTERVAL_MS);
 
     return () => {
       clearInterval(intervalId);
-      console.log('🤖 Agent Task Scheduler stopped');
+      log.debug('Agent task result sync stopped');
     };
-  }, [isAuthenticated, user, session]);
+  }, [isAuthenticated, user]);
 
   if (loading) {
     return (
@@ -203,9 +195,12 @@ const App: React.FC = () => {
         <BrowserRouter>
           <Routes>
             <Route path="/admin/*" element={<AdminApp />} />
+            {/* Public read-only share links, no sign-in required */}
+            <Route path="/share/:token" element={<SharedConversationView />} />
             <Route path="/*" element={<MainApp />} />
           </Routes>
         </BrowserRouter>
+        <DiagnosticsPanel />
       </LanguageProvider>
     </QueryClientProvider>
   );
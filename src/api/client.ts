@@ -0,0 +1,133 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { OrchaError, RequestCancelledError } from './errors';
+import { createLogger, recordTrace } from '../services/logger';
+
+const log = createLogger('api');
+
+export const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:8000/api/v1';
+
+// localStorage keys holding the bearer tokens (written by AuthContext / AdminContext)
+export const USER_TOKEN_KEY = 'aura_token';
+export const ADMIN_TOKEN_KEY = 'orion_admin_token';
+
+type UnauthorizedHandler = () => void;
+
+const unauthorizedHandlers: Record<string, UnauthorizedHandler | null> = {};
+
+/**
+ * Register the callback fired when a request carrying the given token is rejected with 401
+ * (expired or revoked token). AuthContext / AdminContext register their `logout` here.
+ *
+ * @param tokenKey - The localStorage key of the token the handler is responsible for
+ * @param handler - The callback, or null to unregister
+ */
+export const setUnauthorizedHandler = (tokenKey: string, handler: UnauthorizedHandler | null): void => {
+  unauthorizedHandlers[tokenKey] = handler;
+};
+
+/**
+ * Notify the registered handler that the token stored under `tokenKey` was rejected.
+ * Used by the axios interceptor and by fetch-based calls (streaming) that bypass axios.
+ */
+export const notifyUnauthorized = (tokenKey: string): void => {
+  log.warn('Token rejected by backend (401), signing out');
+  unauthorizedHandlers[tokenKey]?.();
+};
+
+/**
+ * Build the Authorization header for fetch-based calls that cannot go through axios.
+ */
+export const getAuthHeaders = (tokenKey: string = USER_TOKEN_KEY): Record<string, string> => {
+  const token = localStorage.getItem(tokenKey);
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+};
+
+// Request start times, used to report durations alongside trace IDs
+const requestStartTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+
+const recordAxiosTrace = (config: InternalAxiosRequestConfig | undefined, status: number | null) => {
+  const traceId = config?.headers?.get('x-trace-id');
+  if (!config || typeof traceId !== 'string') return;
+
+  recordTrace({
+    traceId,
+    method: (config.method || 'get').toUpperCase(),
+    path: (config.url || '').split('?')[0],
+    status,
+    durationMs: Date.now() - (requestStartTimes.get(config) ?? Date.now()),
+    at: new Date().toISOString(),
+  });
+};
+
+const createAuthenticatedClient = (tokenKey: string): AxiosInstance => {
+  const client = axios.create({
+    baseURL: API_BASE,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    timeout: 600000, // 10 minutes timeout for VPS (600000ms = 10 min)
+  });
+
+  // Attach the current token on every request so a fresh login is picked up immediately
+  client.interceptors.request.use((config) => {
+    const token = localStorage.getItem(tokenKey);
+    if (token) {
+      config.headers.set('Authorization', `Bearer ${token}`);
+    }
+    // Every request carries a trace ID so failures can be matched with backend logs
+    if (!config.headers.get('x-trace-id')) {
+      config.headers.set('x-trace-id', uuidv4());
+    }
+    requestStartTimes.set(config, Date.now());
+    return config;
+  });
+
+  // A 401 on an authenticated request means the token expired: sign out centrally.
+  // Unauthenticated calls (login, register) keep their 401 for the caller to display.
+  client.interceptors.response.use(
+    (response) => {
+      recordAxiosTrace(response.config, response.status);
+      return response;
+    },
+    (error) => {
+      if (axios.isAxiosError(error)) {
+        recordAxiosTrace(error.config, error.response?.status ?? null);
+      }
+      if (axios.isAxiosError(error) && error.response?.status === 401 && error.config?.headers?.Authorization) {
+        notifyUnauthorized(tokenKey);
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+};
+
+// Client for end-user calls (auth, conversations, folders, memory, pulse, search, ...)
+export const apiClient = createAuthenticatedClient(USER_TOKEN_KEY);
+
+// Client for the admin dashboard
+export const adminApiClient = createAuthenticatedClient(ADMIN_TOKEN_KEY);
+
+/**
+ * Extract the backend error message (`detail`) from a failed request or OrchaError.
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof OrchaError) {
+    return error.message || fallback;
+  }
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { detail?: string; message?: string } | undefined;
+    return data?.detail || data?.message || fallback;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+/**
+ * Whether a request failed because it was cancelled through its AbortSignal
+ * (the API functions throw RequestCancelledError, raw axios a CanceledError, fetch an AbortError).
+ */
+export const isRequestCancelled = (error: unknown): boolean => {
+  return error instanceof RequestCancelledError || axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError');
+};
@@ -0,0 +1,220 @@
+import axios from 'axios';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('api');
+
+export type OrchaErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'quota_exceeded'
+  | 'validation'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Base class for every error thrown by the ORCHA API client.
+ * `message` holds the backend `detail` when there is one, so it can be shown to the user as-is.
+ */
+export class OrchaError extends Error {
+  readonly kind: OrchaErrorKind;
+  readonly status?: number;
+  readonly detail?: unknown;
+  readonly cause?: unknown;
+
+  constructor(kind: OrchaErrorKind, message: string, options: { status?: number; detail?: unknown; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'OrchaError';
+    this.kind = kind;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.cause = options.cause;
+  }
+}
+
+// Backend could not be reached (offline, DNS, CORS, server down)
+export class NetworkError extends OrchaError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('network', message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+// The connection dropped after the backend started answering a streamed request:
+// the turn may already be stored, so it must not be sent again
+export class StreamInterruptedError extends OrchaError {
+  readonly conversationId?: number;
+
+  constructor(message: string, options: { cause?: unknown; conversationId?: number } = {}) {
+    super('network', message, options);
+    this.name = 'StreamInterruptedError';
+    this.conversationId = options.conversationId;
+  }
+}
+
+// Request exceeded the client timeout
+export class TimeoutError extends OrchaError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('timeout', message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+// 401 / 403 - missing, expired or insufficient credentials
+export class AuthError extends OrchaError {
+  constructor(message: string, options: { status?: number; detail?: unknown; cause?: unknown } = {}) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// 402 / 429 - token quota used up or rate limited
+export class QuotaExceededError extends OrchaError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, options: { status?: number; detail?: unknown; cause?: unknown; retryAfterSeconds?: number } = {}) {
+    super('quota_exceeded', message, options);
+    this.name = 'QuotaExceededError';
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
+// 400 / 422 - the request payload was rejected
+export class ValidationError extends OrchaError {
+  constructor(message: string, options: { status?: number; detail?: unknown; cause?: unknown } = {}) {
+    super('validation', message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+// 5xx - the backend failed while handling the request
+export class ServerError extends OrchaError {
+  constructor(message: string, options: { status?: number; detail?: unknown; cause?: unknown } = {}) {
+    super('server', message, options);
+    this.name = 'ServerError';
+  }
+}
+
+// The request was aborted through its AbortSignal
+export class RequestCancelledError extends OrchaError {
+  constructor(options: { cause?: unknown } = {}) {
+    super('cancelled', 'Request cancelled', options);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Turn a FastAPI error body into a readable message.
+ * `detail` is either a string or, for 422 responses, a list of `{ loc, msg }` items.
+ */
+const extractDetailMessage = (data: any): string | null => {
+  if (!data) return null;
+  if (typeof data === 'string') return data;
+
+  const detail = data.detail ?? data.error ?? data.message;
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    return detail.map((item: any) => item?.msg || JSON.stringify(item)).join('; ');
+  }
+  return null;
+};
+
+/**
+ * Build the matching OrchaError for an HTTP status code.
+ */
+export const orchaErrorFromStatus = (status: number, data: unknown, cause?: unknown, retryAfter?: string | null): OrchaError => {
+  const message = extractDetailMessage(data) || `Request failed with status ${status}`;
+  const options = { status, detail: data, cause };
+
+  if (status === 401 || status === 403) return new AuthError(message, options);
+  if (status === 402 || status === 429) {
+    const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
+    return new QuotaExceededError(message, { ...options, retryAfterSeconds: Number.isNaN(retryAfterSeconds) ? undefined : retryAfterSeconds });
+  }
+  if (status === 400 || status === 422) return new ValidationError(message, options);
+  if (status >= 500) return new ServerError(message, options);
+  return new OrchaError('unknown', message, options);
+};
+
+/**
+ * Normalize anything thrown by axios or fetch into an OrchaError.
+ */
+export const toOrchaError = (error: unknown): OrchaError => {
+  if (error instanceof OrchaError) return error;
+
+  if (axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError')) {
+    return new RequestCancelledError({ cause: error });
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return orchaErrorFromStatus(
+        error.response.status,
+        error.response.data,
+        error,
+        error.response.headers?.['retry-after'] as string | undefined
+      );
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(error.message, { cause: error });
+    }
+    return new NetworkError(error.message, { cause: error });
+  }
+
+  // fetch() rejects with a TypeError when the network request itself fails
+  if (error instanceof TypeError) {
+    return new NetworkError(error.message, { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new OrchaError('unknown', message, { cause: error });
+};
+
+/**
+ * Whether a request failed because the backend could not be reached
+ * (offline, timeout, or a gateway answering in its place), i.e. it is worth sending again later.
+ */
+export const isConnectivityError = (error: unknown): boolean => {
+  const orchaError = toOrchaError(error);
+  if (orchaError instanceof StreamInterruptedError) return false;
+  return orchaError.kind === 'network'
+    || orchaError.kind === 'timeout'
+    || orchaError.status === 502
+    || orchaError.status === 503
+    || orchaError.status === 504;
+};
+
+/**
+ * Normalize and log an API failure; returns the error so callers can `throw logOrchaError(...)`.
+ * Cancellations are expected and not logged.
+ */
+export const logOrchaError = (context: string, error: unknown): OrchaError => {
+  const orchaError = toOrchaError(error);
+  if (orchaError.kind !== 'cancelled') {
+    log.error(`${context} error`, {
+      kind: orchaError.kind,
+      reason: orchaError.message,
+      status: orchaError.status,
+    });
+  }
+  return orchaError;
+};
+
+/**
+ * Pick the message to show the user for a failed request.
+ * Validation and quota errors carry a precise backend `detail`, which is preferred;
+ * everything else maps to the localized message for its kind.
+ *
+ * @param error - Anything thrown by an API function
+ * @param messages - Localized message per error kind (translations[language].errors)
+ */
+export const getUserFacingMessage = (error: unknown, messages: Record<OrchaErrorKind, string>): string => {
+  const orchaError = toOrchaError(error);
+  const hasBackendDetail = orchaError.detail !== undefined && orchaError.detail !== null;
+
+  if (hasBackendDetail && (orchaError.kind === 'validation' || orchaError.kind === 'quota_exceeded')) {
+    return orchaError.message;
+  }
+  return messages[orchaError.kind];
+};
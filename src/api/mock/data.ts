@@ -0,0 +1,202 @@
+import type { User, ChatMessage, Folder, Pulse, AgentTask, AgentTaskDelivery, AgentTaskRun } from '../../types/orcha';
+
+// In-memory state of the mock backend, seeded on page load
+
+export interface MockUser extends User {
+  password: string;
+}
+
+export interface MockConversation {
+  id: number;
+  user_id: number;
+  title: string | null;
+  tenant_id: string | null;
+  created_at: string;
+  updated_at: string;
+  messages: ChatMessage[]; // Every branch, in creation order
+  active_leaf_id?: number | null; // Last message of the active branch (defaults to the last message)
+}
+
+export interface MockMemory {
+  id: number;
+  user_id: number;
+  content: string;
+  title: string | null;
+  conversation_id: number | null;
+  source: string;
+  tags: string[] | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockShare {
+  token: string;
+  user_id: number;
+  conversation_id: number;
+  title: string | null;
+  messages: ChatMessage[]; // Snapshot taken when the link was created
+  created_at: string;
+  expires_at: string | null;
+}
+
+export interface MockAgentDelivery extends AgentTaskDelivery {
+  user_id: number;
+  acknowledged: boolean;
+}
+
+export interface MockAgentTaskRun extends AgentTaskRun {
+  user_id: number;
+}
+
+export interface MockJob {
+  job_id: string;
+  user_id: number;
+  conversation_id: number | null;
+  filename: string;
+  created_at: number; // epoch ms, progress is derived from elapsed time
+  delivered_message_id?: number; // Message holding the result, once a client delivered it
+}
+
+export interface MockAdmin {
+  id: number;
+  username: string;
+  password: string;
+  created_at: string;
+}
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+const seedMessage = (id: number, role: ChatMessage['role'], content: string, createdAt: string): ChatMessage => ({
+  id,
+  role,
+  content,
+  attachments: [],
+  token_count: Math.ceil(content.length / 4),
+  model_used: role === 'assistant' ? 'mock-model' : null,
+  created_at: createdAt,
+});
+
+export const mockDb = {
+  users: [
+    {
+      id: 1,
+      username: 'demo',
+      password: 'demo',
+      email: 'demo@example.com',
+      full_name: 'Demo User',
+      is_active: true,
+      plan_type: 'pro',
+      job_title: 'Doctor',
+      created_at: hoursAgo(24 * 30),
+    },
+    {
+      id: 2,
+      username: 'lawyer',
+      password: 'lawyer',
+      email: 'lawyer@example.com',
+      full_name: 'Demo Lawyer',
+      is_active: true,
+      plan_type: 'free',
+      job_title: 'Lawyer',
+      created_at: hoursAgo(24 * 10),
+    },
+  ] as MockUser[],
+
+  admins: [
+    { id: 1, username: 'admin', password: 'admin', created_at: hoursAgo(24 * 60) },
+  ] as MockAdmin[],
+
+  conversations: [
+    {
+      id: 1,
+      user_id: 1,
+      title: 'Hypertension follow-up',
+      tenant_id: null,
+      created_at: hoursAgo(2),
+      updated_at: hoursAgo(2),
+      messages: [
+        seedMessage(1, 'user', 'What are the first-line treatments for hypertension?', hoursAgo(2)),
+        seedMessage(2, 'assistant', 'First-line options usually include:\n\n- **Thiazide diuretics**\n- **ACE inhibitors** or **ARBs**\n- **Calcium channel blockers**\n\nThe choice depends on comorbidities and patient profile.', hoursAgo(2)),
+      ],
+    },
+    {
+      id: 2,
+      user_id: 1,
+      title: 'Summarize a discharge letter',
+      tenant_id: null,
+      created_at: hoursAgo(26),
+      updated_at: hoursAgo(26),
+      messages: [
+        seedMessage(3, 'user', 'Can you summarize this discharge letter in three bullet points?', hoursAgo(26)),
+        seedMessage(4, 'assistant', '- Admitted for community-acquired pneumonia\n- Treated with IV antibiotics, switched to oral on day 3\n- Follow-up with GP in one week', hoursAgo(26)),
+      ],
+    },
+    {
+      id: 3,
+      user_id: 1,
+      title: 'Conference travel plan',
+      tenant_id: null,
+      created_at: hoursAgo(24 * 8),
+      updated_at: hoursAgo(24 * 8),
+      messages: [
+        seedMessage(5, 'user', 'Help me plan a 3-day trip to a cardiology conference in Lyon.', hoursAgo(24 * 8)),
+        seedMessage(6, 'assistant', 'Day 1: arrival and registration. Day 2: main sessions. Day 3: workshops and return trip.', hoursAgo(24 * 8)),
+      ],
+    },
+  ] as MockConversation[],
+
+  folders: [
+    {
+      id: 1,
+      user_id: 1,
+      name: 'Clinical',
+      conversation_ids: [1, 2],
+      created_at: hoursAgo(24 * 7),
+      updated_at: hoursAgo(2),
+    },
+  ] as Folder[],
+
+  memories: [
+    {
+      id: 1,
+      user_id: 1,
+      content: 'Works as a general practitioner and prefers concise, bullet-point answers.',
+      title: 'Preferences',
+      conversation_id: null,
+      source: 'manual',
+      tags: ['profile'],
+      is_active: true,
+      created_at: hoursAgo(24 * 5),
+      updated_at: hoursAgo(24 * 5),
+    },
+  ] as MockMemory[],
+
+  pulses: {} as Record<number, Pulse>,
+
+  jobs: [] as MockJob[],
+
+  shares: [] as MockShare[],
+
+  agentTasks: [] as AgentTask[],
+
+  agentDeliveries: [] as MockAgentDelivery[],
+
+  agentTaskRuns: [] as MockAgentTaskRun[],
+
+  tokenUsage: {} as Record<number, number>,
+
+  nextIds: {
+    user: 3,
+    conversation: 4,
+    message: 7,
+    folder: 2,
+    memory: 2,
+    job: 1,
+    agentTask: 1,
+    agentDelivery: 1,
+    agentTaskRun: 1,
+  },
+};
+
+export const nextId = (kind: keyof typeof mockDb.nextIds): number => mockDb.nextIds[kind]++;
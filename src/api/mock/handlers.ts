@@ -0,0 +1,1209 @@
+import { v4 as uuidv4 } from 'uuid';
+import { mockDb, nextId, type MockAgentTaskRun, type MockConversation, type MockShare, type MockUser } from './data';
+import { resolveStepInput, taskSteps } from '../../services/agentPipeline';
+import { isValidIntervalHours, isValidTimeZone, nextRunAfter, parseCron, runsBetween } from '../../services/agentSchedule';
+import type { AgentTask, AgentTaskDelivery, AgentTaskRun, AgentTaskStep, AgentTaskStepResult, Attachment, ChatMessage, ChatRequest, Conversation, ConversationShare, ImportConversationRequest, JobStatusResponse, TokenUsage, User } from '../../types/orcha';
+
+export interface MockRequest {
+  method: string;
+  path: string; // relative to the API base, without query string
+  query: URLSearchParams;
+  body: any;
+  headers: Record<string, string>;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: any;
+  stream?: string[]; // SSE `data:` payloads, sent one by one (chat streaming)
+}
+
+type RouteHandler = (req: MockRequest, params: string[]) => MockResponse | Promise<MockResponse>;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const OCR_JOB_DURATION_MS = 6000;
+const DAILY_TOKEN_LIMIT_RESET_MS = 24 * 60 * 60 * 1000;
+
+// ==================== HELPERS ====================
+
+const ok = (data: any): MockResponse => ({ status: 200, data });
+const fail = (status: number, detail: string): MockResponse => ({ status, data: { detail } });
+
+const userToken = (userId: number) => `mock-token-${userId}`;
+const adminToken = (adminId: number) => `mock-admin-token-${adminId}`;
+
+const bearerToken = (req: MockRequest): string | null => {
+  const header = req.headers['authorization'] || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+};
+
+const currentUser = (req: MockRequest): MockUser | undefined => {
+  const match = bearerToken(req)?.match(/^mock-token-(\d+)$/);
+  return match ? mockDb.users.find(u => u.id === Number(match[1])) : undefined;
+};
+
+const currentAdmin = (req: MockRequest) => {
+  const match = bearerToken(req)?.match(/^mock-admin-token-(\d+)$/);
+  return match ? mockDb.admins.find(a => a.id === Number(match[1])) : undefined;
+};
+
+const publicUser = (user: MockUser): User => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  full_name: user.full_name,
+  is_active: user.is_active,
+  plan_type: user.plan_type,
+  job_title: user.job_title,
+  created_at: user.created_at,
+});
+
+const publicAdmin = (admin: { id: number; username: string; created_at: string }) => ({
+  id: admin.id,
+  username: admin.username,
+  created_at: admin.created_at,
+});
+
+// Seeded messages have no parent_id: they form a single branch in creation order
+const parentOf = (conversation: MockConversation, message: ChatMessage): number | null => {
+  if (message.parent_id !== undefined) return message.parent_id;
+  const index = conversation.messages.indexOf(message);
+  return index > 0 ? conversation.messages[index - 1].id : null;
+};
+
+const activeLeafId = (conversation: MockConversation): number | null =>
+  conversation.active_leaf_id ?? conversation.messages[conversation.messages.length - 1]?.id ?? null;
+
+/**
+ * Messages of the active branch, root first, each with the IDs of its alternative versions
+ */
+const activePath = (conversation: MockConversation): ChatMessage[] => {
+  const byId = new Map(conversation.messages.map(m => [m.id, m]));
+  const path: ChatMessage[] = [];
+  let current = byId.get(activeLeafId(conversation) ?? -1);
+  while (current) {
+    path.unshift(current);
+    const parentId = parentOf(conversation, current);
+    current = parentId === null ? undefined : byId.get(parentId);
+  }
+
+  return path.map(message => {
+    const parentId = parentOf(conversation, message);
+    const siblingIds = conversation.messages.filter(m => parentOf(conversation, m) === parentId).map(m => m.id);
+    return { ...message, parent_id: parentId, sibling_ids: siblingIds };
+  });
+};
+
+const toConversation = (conversation: MockConversation, withMessages = false): Conversation => {
+  const messages = activePath(conversation);
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    tenant_id: conversation.tenant_id,
+    created_at: conversation.created_at,
+    updated_at: conversation.updated_at,
+    message_count: messages.length,
+    ...(withMessages ? { messages } : {}),
+  };
+};
+
+const isShareActive = (share: MockShare) => !share.expires_at || share.expires_at > new Date().toISOString();
+
+const toShare = (share: MockShare): ConversationShare => ({
+  token: share.token,
+  conversation_id: share.conversation_id,
+  title: share.title,
+  message_count: share.messages.length,
+  created_at: share.created_at,
+  expires_at: share.expires_at,
+});
+
+const findConversation = (userId: number, conversationId: number) =>
+  mockDb.conversations.find(c => c.id === conversationId && c.user_id === userId);
+
+const getOrCreateConversation = (user: MockUser, conversationId: number | null | undefined, title: string): MockConversation => {
+  const existing = conversationId ? findConversation(user.id, conversationId) : undefined;
+  if (existing) return existing;
+
+  const now = new Date().toISOString();
+  const conversation: MockConversation = {
+    id: nextId('conversation'),
+    user_id: user.id,
+    title,
+    tenant_id: null,
+    created_at: now,
+    updated_at: now,
+    messages: [],
+  };
+  mockDb.conversations.unshift(conversation);
+  return conversation;
+};
+
+/**
+ * Add a message under `parentId` (default: the end of the active branch) and make it the active leaf
+ */
+const appendMessage = (
+  conversation: MockConversation,
+  role: ChatMessage['role'],
+  content: string,
+  attachments: Attachment[] = [],
+  parentId: number | null = activeLeafId(conversation)
+): ChatMessage => {
+  const message: ChatMessage = {
+    id: nextId('message'),
+    role,
+    content,
+    attachments,
+    token_count: Math.ceil(content.length / 4),
+    model_used: role === 'assistant' ? 'mock-model' : null,
+    created_at: new Date().toISOString(),
+    parent_id: parentId,
+  };
+  conversation.messages.push(message);
+  conversation.active_leaf_id = message.id;
+  conversation.updated_at = message.created_at;
+  return message;
+};
+
+const consumeTokens = (userId: number, tokens: number): TokenUsage => {
+  mockDb.tokenUsage[userId] = (mockDb.tokenUsage[userId] || 0) + tokens;
+  return {
+    current_usage: mockDb.tokenUsage[userId],
+    tokens_added: tokens,
+    reset_at: new Date(Date.now() + DAILY_TOKEN_LIMIT_RESET_MS).toISOString(),
+    tracking_enabled: true,
+    time_until_reset: '23h 59m',
+  };
+};
+
+const queueOcrJob = (userId: number, conversationId: number | null, filename: string): string => {
+  const jobId = `mock-job-${nextId('job')}`;
+  mockDb.jobs.push({ job_id: jobId, user_id: userId, conversation_id: conversationId, filename, created_at: Date.now() });
+  return jobId;
+};
+
+const mockReply = (payload: ChatRequest): string => {
+  const options = [
+    payload.use_rag ? 'knowledge base' : null,
+    payload.use_pro_mode ? 'pro mode' : null,
+  ].filter(Boolean);
+
+  return [
+    `This is a **mock response** from the offline ORCHA backend${options.length ? ` (${options.join(', ')})` : ''}.`,
+    '',
+    `> ${payload.message.slice(0, 200)}`,
+    '',
+    'Set `VITE_USE_MOCK_API=false` to talk to the real service.',
+  ].join('\n');
+};
+
+const mockSearchReply = (query: string, results: number): string => [
+  `Mock web search results for **${query}**:`,
+  '',
+  ...Array.from({ length: results }, (_, i) => `${i + 1}. [Example result ${i + 1}](https://example.com/${i + 1}) - a short snippet about ${query}.`),
+].join('\n');
+
+/**
+ * Shared logic of the chat and streaming chat endpoints: persist both turns and
+ * queue an OCR job for every image attachment.
+ */
+const runChat = (user: MockUser, payload: ChatRequest) => {
+  const conversation = getOrCreateConversation(user, payload.conversation_id, payload.message.slice(0, 50) || 'New Chat');
+  // Regenerating answers the existing user message again instead of adding a new one
+  const regenerated = payload.regenerate_message_id !== undefined
+    ? conversation.messages.find(m => m.id === payload.regenerate_message_id && m.role === 'user')
+    : undefined;
+  const userMessage = regenerated ?? appendMessage(
+    conversation,
+    'user',
+    payload.message,
+    payload.attachments || [],
+    payload.parent_message_id !== undefined ? payload.parent_message_id : activeLeafId(conversation)
+  );
+  userMessage.request_options = { use_rag: payload.use_rag, use_pro_mode: payload.use_pro_mode, model: payload.model ?? null };
+
+  const images = (payload.attachments || []).filter(att => att.type.startsWith('image/'));
+  const jobs = images.map(att => queueOcrJob(user.id, conversation.id, att.filename || 'image'));
+
+  const reply = jobs.length > 0
+    ? `📄 OCR queued for ${images.map(att => att.filename || 'image').join(', ')}. The extracted text will be added to this conversation when it is ready.`
+    : mockReply(payload);
+  const answer = appendMessage(conversation, 'assistant', reply, [], userMessage.id);
+  answer.model_used = payload.model || answer.model_used;
+
+  return {
+    conversation,
+    reply,
+    jobs,
+    status: (jobs.length > 0 ? 'ocr_queued' : 'ok') as 'ocr_queued' | 'ok',
+    token_usage: consumeTokens(user.id, Math.ceil((payload.message.length + reply.length) / 4)),
+  };
+};
+
+// Steps a task may run after its instructions
+const MAX_PIPELINE_STEPS = 10;
+// Runs kept in each task's run log, oldest dropped first
+const MAX_RUNS_PER_TASK = 100;
+
+/**
+ * Run one step of an agent task's pipeline on the output of the previous one
+ */
+const runAgentStep = (user: MockUser, task: AgentTask, step: AgentTaskStep, input: string): { output: string; tokens: number | null } => {
+  switch (step.type) {
+    case 'save_memory': {
+      if (!input.trim()) throw new Error('Nothing to save to memory');
+      const now = new Date().toISOString();
+      mockDb.memories.push({
+        id: nextId('memory'),
+        user_id: user.id,
+        content: input,
+        title: task.task_name,
+        conversation_id: task.conversation_id,
+        source: 'agent_task',
+        tags: ['agent-task'],
+        is_active: true,
+        created_at: now,
+        updated_at: now,
+      });
+      // Saving passes the content on unchanged
+      return { output: input, tokens: null };
+    }
+    case 'web_search': {
+      const output = mockSearchReply(input, 3);
+      return { output, tokens: consumeTokens(user.id, Math.ceil((input.length + output.length) / 4)).tokens_added };
+    }
+    default: {
+      const output = mockReply({ user_id: String(user.id), message: input });
+      return { output, tokens: consumeTokens(user.id, Math.ceil((input.length + output.length) / 4)).tokens_added };
+    }
+  }
+};
+
+/**
+ * Run one agent task: run its steps in order, each on the previous step's output,
+ * record the run in the task's log, write the prompt and the final answer into the
+ * task's conversation if it keeps one, and queue the answer for delivery the next
+ * time the user opens the app. A failed step stops the pipeline.
+ */
+const runAgentTask = (user: MockUser, task: AgentTask, scheduledFor: Date, ranAt: Date, catchUp: boolean) => {
+  const startedAt = Date.now();
+  const run: MockAgentTaskRun = {
+    id: nextId('agentTaskRun'),
+    user_id: user.id,
+    task_id: task.id,
+    status: 'succeeded',
+    scheduled_for: scheduledFor.toISOString(),
+    started_at: ranAt.toISOString(),
+    duration_ms: 0,
+    catch_up: catchUp,
+    response: null,
+    error: null,
+    tokens_used: null,
+    steps: [],
+    conversation_id: null,
+    message_id: null,
+  };
+
+  let output = '';
+  taskSteps(task).forEach((step, index) => {
+    const input = index === 0 ? step.prompt : resolveStepInput(step.prompt, output);
+    const result: AgentTaskStepResult = { type: step.type, input, status: 'skipped', output: null, error: null, duration_ms: 0, tokens_used: null };
+    run.steps.push(result);
+    if (run.status === 'failed') return;
+
+    const stepStartedAt = Date.now();
+    try {
+      const stepResult = runAgentStep(user, task, step, input);
+      output = stepResult.output;
+      Object.assign(result, { status: 'succeeded', output, tokens_used: stepResult.tokens });
+      if (stepResult.tokens !== null) run.tokens_used = (run.tokens_used ?? 0) + stepResult.tokens;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Object.assign(result, { status: 'failed', error: message });
+      run.status = 'failed';
+      run.error = `Step ${index + 1} (${step.type}): ${message}`;
+    }
+    result.duration_ms = Date.now() - stepStartedAt;
+  });
+
+  if (run.status === 'succeeded') {
+    run.response = output;
+
+    if (task.write_to_conversation) {
+      const conversation = getOrCreateConversation(user, task.conversation_id, `⏰ ${task.task_name}`);
+      task.conversation_id = conversation.id;
+      appendMessage(conversation, 'user', task.instructions);
+      run.conversation_id = conversation.id;
+      run.message_id = appendMessage(conversation, 'assistant', output).id;
+    }
+
+    mockDb.agentDeliveries.push({
+      id: nextId('agentDelivery'),
+      user_id: user.id,
+      task_id: task.id,
+      task_name: task.task_name,
+      is_search: task.is_search,
+      conversation_id: run.conversation_id,
+      message_id: run.message_id,
+      content: output,
+      scheduled_for: run.scheduled_for,
+      ran_at: run.started_at,
+      catch_up: catchUp,
+      acknowledged: false,
+    });
+  }
+
+  run.duration_ms = Date.now() - startedAt;
+  mockDb.agentTaskRuns.push(run);
+  const taskRuns = mockDb.agentTaskRuns.filter(r => r.task_id === task.id);
+  if (taskRuns.length > MAX_RUNS_PER_TASK) {
+    mockDb.agentTaskRuns.splice(mockDb.agentTaskRuns.indexOf(taskRuns[0]), 1);
+  }
+  task.last_run = ranAt.toISOString();
+  task.last_run_status = run.status;
+};
+
+// Runs started later than this after their scheduled time count as missed
+const MISSED_RUN_GRACE_MS = 15 * 60 * 1000;
+// Most runs a 'run_all' task replays at once; older missed runs are skipped
+const MAX_CATCH_UP_RUNS = 24;
+// Missed runs counted beyond this are not worth telling apart
+const MAX_COUNTED_RUNS = 1000;
+
+/**
+ * Stand-in for the backend scheduler, which runs independently of any browser:
+ * the mock catches up on due tasks whenever the user makes a request. Runs it reaches
+ * too late are handled by the task's missed-run policy.
+ */
+const runDueAgentTasks = (user: MockUser, now: Date = new Date()) => {
+  mockDb.agentTasks
+    .filter(task => task.user_id === user.id && task.enabled && task.next_run && new Date(task.next_run) <= now)
+    .forEach(task => {
+      const firstDue = new Date(task.next_run!);
+      const due = [firstDue, ...runsBetween(task, firstDue, now, MAX_COUNTED_RUNS)];
+      const missed = due.filter(run => now.getTime() - run.getTime() > MISSED_RUN_GRACE_MS);
+      const onTime = due.slice(missed.length);
+
+      const caughtUp = task.missed_run_policy === 'run_all' ? missed.slice(-MAX_CATCH_UP_RUNS)
+        : task.missed_run_policy === 'run_once' && onTime.length === 0 ? missed.slice(-1)
+        : [];
+      caughtUp.forEach(run => runAgentTask(user, task, run, now, true));
+      onTime.forEach(run => runAgentTask(user, task, run, now, false));
+
+      const skipped = missed.slice(0, missed.length - caughtUp.length);
+      if (skipped.length > 0) {
+        task.missed_runs += skipped.length;
+        task.last_missed_at = skipped[skipped.length - 1].toISOString();
+      }
+      task.next_run = nextRunAfter(task, now)?.toISOString() ?? null;
+    });
+};
+
+const AGENT_SCHEDULE_FIELDS = ['schedule', 'time', 'timezone', 'weekdays', 'day_of_month', 'interval_hours', 'run_at', 'cron'] as const;
+
+/**
+ * Why a task's schedule can't be run by the scheduler, or null if it is valid
+ */
+const agentScheduleError = (task: AgentTask): string | null => {
+  if (!isValidTimeZone(task.timezone)) return `Unknown timezone: ${task.timezone}`;
+  switch (task.schedule) {
+    // Weekly and monthly tasks without days keep the weekday / day they were created on
+    case 'weekly':
+      return !task.weekdays || (task.weekdays.length > 0 && task.weekdays.every(day => day >= 0 && day <= 6)) ? null : 'weekdays must list days from 0 to 6';
+    case 'monthly':
+      return task.day_of_month === null || (task.day_of_month >= 1 && task.day_of_month <= 31) ? null : 'day_of_month must be between 1 and 31';
+    case 'hourly':
+      return task.interval_hours !== null && isValidIntervalHours(task.interval_hours) ? null : 'interval_hours must divide 24 (1, 2, 3, 4, 6, 8, 12 or 24)';
+    case 'once':
+      return task.run_at ? null : 'run_at is required for one-shot tasks';
+    case 'cron':
+      return parseCron(task.cron ?? '') ? null : `Invalid cron expression: ${task.cron}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Why a task's settings are rejected, or null if they are valid
+ */
+const agentTaskError = (task: AgentTask): string | null => {
+  if (!['skip', 'run_once', 'run_all'].includes(task.missed_run_policy)) return `Unknown missed_run_policy: ${task.missed_run_policy}`;
+  if (!Array.isArray(task.pipeline) || task.pipeline.length > MAX_PIPELINE_STEPS) return `pipeline must be a list of at most ${MAX_PIPELINE_STEPS} steps`;
+  const invalidStep = task.pipeline.find(step => !['chat', 'web_search', 'save_memory'].includes(step?.type) || typeof step.prompt !== 'string');
+  if (invalidStep) return `Invalid pipeline step: ${JSON.stringify(invalidStep)}`;
+  return agentScheduleError(task);
+};
+
+// ==================== ROUTES ====================
+
+const userRoutes: MockRoute[] = [
+  // ---- Auth ----
+  {
+    method: 'GET', pattern: /^\/auth\/me$/,
+    handler: (req) => ok(publicUser(currentUser(req)!)),
+  },
+  {
+    method: 'PUT', pattern: /^\/auth\/users\/(\d+)\/email$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      if (user.password !== req.body?.current_password) return fail(400, 'Current password is incorrect');
+      user.email = req.body.new_email;
+      return ok({ status: 'ok', message: 'Email updated successfully' });
+    },
+  },
+  {
+    method: 'PUT', pattern: /^\/auth\/users\/(\d+)\/password$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      if (user.password !== req.body?.current_password) return fail(400, 'Current password is incorrect');
+      user.password = req.body.new_password;
+      return ok({ status: 'ok', message: 'Password updated successfully' });
+    },
+  },
+
+  // ---- ORCHA ----
+  {
+    method: 'POST', pattern: /^\/orcha\/chat$/,
+    handler: (req) => {
+      const result = runChat(currentUser(req)!, req.body);
+      return ok({
+        status: result.status,
+        message: result.reply,
+        conversation_id: result.conversation.id,
+        token_usage: result.token_usage,
+        ...(result.jobs.length > 0 ? { jobs: result.jobs } : {}),
+      });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/orcha\/chat\/stream$/,
+    handler: (req) => {
+      const result = runChat(currentUser(req)!, req.body);
+      const words = result.reply.match(/\S+\s*/g) || [];
+      return {
+        status: 200,
+        stream: [
+          ...words.map(word => JSON.stringify({ choices: [{ index: 0, delta: { content: word } }] })),
+          JSON.stringify({
+            status: result.status,
+            conversation_id: result.conversation.id,
+            token_usage: result.token_usage,
+            ...(result.jobs.length > 0 ? { jobs: result.jobs } : {}),
+          }),
+        ],
+      };
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/orcha\/route$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      const images = (req.body?.attachments || []).filter((att: Attachment) => att.type.startsWith('image/'));
+      const jobIds = images.map((att: Attachment) => queueOcrJob(user.id, req.body?.conversation_id ?? null, att.filename || 'image'));
+      return ok({
+        endpoint: '/orcha/chat',
+        reason: images.length > 0 ? 'Image attachments require OCR before answering' : 'General conversational request',
+        prepared_payload: {
+          user_id: req.body?.user_id,
+          tenant_id: req.body?.tenant_id,
+          message: req.body?.message,
+          use_rag: req.body?.use_rag,
+          conversation_id: req.body?.conversation_id,
+        },
+        status: images.length > 0 ? 'ocr_queued' : 'ok',
+        ocr_queued: images.length > 0,
+        ...(jobIds.length > 0 ? { job_ids: jobIds } : {}),
+      });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/orcha\/ocr\/extract$/,
+    handler: (req) => ok({
+      status: 'success',
+      extracted_text: `Mock OCR text extracted from ${req.body?.filename || 'document'}.\nPatient: Jane Doe\nDate: ${new Date().toLocaleDateString()}`,
+      lines_count: 3,
+      filename: req.body?.filename,
+      language: req.body?.language,
+    }),
+  },
+  {
+    method: 'GET', pattern: /^\/orcha\/jobs\/([^/]+)$/,
+    handler: (req, [jobId]) => {
+      const job = mockDb.jobs.find(j => j.job_id === decodeURIComponent(jobId) && j.user_id === currentUser(req)!.id);
+      if (!job) return fail(404, 'Job not found');
+
+      const progress = Math.min(100, Math.round(((Date.now() - job.created_at) / OCR_JOB_DURATION_MS) * 100));
+      const status: JobStatusResponse = progress >= 100
+        ? { job_id: job.job_id, status: 'completed', progress: 100, result: { extracted_text: `**${job.filename}** (mock OCR)\n\nLorem ipsum dolor sit amet, consectetur adipiscing elit.` } }
+        : { job_id: job.job_id, status: progress > 0 ? 'running' : 'queued', progress };
+      return ok(status);
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/orcha\/search$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      const query: string = req.body?.query || '';
+      const conversation = getOrCreateConversation(user, req.body?.conversation_id, `🌐 ${query.slice(0, 47)}`);
+      const results = Math.min(req.body?.max_results || 5, 3);
+      const message = mockSearchReply(query, results);
+
+      appendMessage(conversation, 'user', query);
+      appendMessage(conversation, 'assistant', message);
+      return ok({
+        status: 'ok',
+        message,
+        conversation_id: conversation.id,
+        search_query: query,
+        results_count: results,
+        token_usage: consumeTokens(user.id, Math.ceil(message.length / 4)),
+      });
+    },
+  },
+
+  // ---- Files & tokens ----
+  {
+    method: 'POST', pattern: /^\/files\/upload$/,
+    handler: (req) => {
+      const file = req.body instanceof FormData ? req.body.get('file') : null;
+      if (!(file instanceof File)) return fail(422, 'No file provided');
+      return ok({
+        file_uri: `mock://files/${uuidv4()}/${encodeURIComponent(file.name)}`,
+        filename: file.name,
+        content_type: file.type,
+        size: file.size,
+      });
+    },
+  },
+  {
+    method: 'GET', pattern: /^\/tokens\/usage\/(\d+)$/,
+    handler: (req) => {
+      const usage = consumeTokens(currentUser(req)!.id, 0);
+      return ok({ status: 'ok', ...usage });
+    },
+  },
+
+  // ---- Conversations ----
+  {
+    method: 'POST', pattern: /^\/conversations$/,
+    handler: (req) => {
+      const conversation = getOrCreateConversation(currentUser(req)!, null, req.body?.title || 'New Chat');
+      conversation.tenant_id = req.body?.tenant_id || null;
+      return ok(toConversation(conversation));
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/conversations\/(\d+)\/import$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      const items: ImportConversationRequest[] = Array.isArray(req.body?.conversations) ? req.body.conversations : [];
+      const now = new Date().toISOString();
+
+      const created = items.map(item => {
+        const conversation: MockConversation = {
+          id: nextId('conversation'),
+          user_id: user.id,
+          title: item.title || 'Imported chat',
+          tenant_id: null,
+          created_at: item.created_at || item.messages[0]?.created_at || now,
+          updated_at: now,
+          messages: [],
+        };
+        // Imported history is a single branch, timestamps and models are kept as exported
+        let parentId: number | null = null;
+        for (const imported of item.messages) {
+          const message: ChatMessage = {
+            id: nextId('message'),
+            role: imported.role,
+            content: imported.content,
+            attachments: [],
+            token_count: imported.token_count ?? Math.ceil(imported.content.length / 4),
+            model_used: imported.model_used ?? null,
+            created_at: imported.created_at || now,
+            parent_id: parentId,
+          };
+          conversation.messages.push(message);
+          parentId = message.id;
+        }
+        conversation.active_leaf_id = parentId;
+        conversation.updated_at = conversation.messages[conversation.messages.length - 1]?.created_at || conversation.created_at;
+        mockDb.conversations.unshift(conversation);
+        return toConversation(conversation);
+      });
+
+      return ok({ status: 'ok', conversations: created });
+    },
+  },
+  {
+    method: 'GET', pattern: /^\/conversations\/(\d+)$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      const limit = Number(req.query.get('limit') || 50);
+      const offset = Number(req.query.get('offset') || 0);
+      const conversations = mockDb.conversations
+        .filter(c => c.user_id === user.id)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        .slice(offset, offset + limit);
+      return ok(conversations.map(c => toConversation(c)));
+    },
+  },
+  {
+    method: 'GET', pattern: /^\/conversations\/(\d+)\/(\d+)$/,
+    handler: (req, [, conversationId]) => {
+      const conversation = findConversation(currentUser(req)!.id, Number(conversationId));
+      return conversation ? ok(toConversation(conversation, true)) : fail(404, 'Conversation not found');
+    },
+  },
+  {
+    method: 'GET', pattern: /^\/conversations\/(\d+)\/search$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      const needle = (req.query.get('q') || '').trim().toLowerCase();
+      if (!needle) return fail(422, 'Search query is required');
+      const role = req.query.get('role');
+      const from = req.query.get('from');
+      const to = req.query.get('to');
+      const limit = Number(req.query.get('limit') || 20);
+      const offset = Number(req.query.get('offset') || 0);
+
+      const hits = mockDb.conversations
+        .filter(c => c.user_id === user.id)
+        .flatMap(c => activePath(c)
+          .filter(m => m.content.toLowerCase().includes(needle))
+          .filter(m => !role || m.role === role)
+          .filter(m => (!from || m.created_at.slice(0, 10) >= from) && (!to || m.created_at.slice(0, 10) <= to))
+          .map(m => {
+            const index = m.content.toLowerCase().indexOf(needle);
+            const start = Math.max(0, index - 60);
+            const end = Math.min(m.content.length, index + needle.length + 60);
+            return {
+              conversation_id: c.id,
+              conversation_title: c.title,
+              message_id: m.id,
+              role: m.role,
+              snippet: `${start > 0 ? '…' : ''}${m.content.slice(start, end)}${end < m.content.length ? '…' : ''}`,
+              created_at: m.created_at,
+            };
+          }))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+      return ok({ results: hits.slice(offset, offset + limit), total: hits.length });
+    },
+  },
+  {
+    method: 'GET', pattern: /^\/conversations\/(\d+)\/(\d+)\/messages$/,
+    handler: (req, [, conversationId]) => {
+      const conversation = findConversation(currentUser(req)!.id, Number(conversationId));
+      if (!conversation) return fail(404, 'Conversation not found');
+      // The cursor is the ID of the oldest message already loaded
+      const limit = Number(req.query.get('limit') || 50);
+      const before = req.query.get('before');
+      const messages = activePath(conversation);
+      const beforeIndex = before ? messages.findIndex(m => m.id === Number(before)) : -1;
+      const earlier = beforeIndex >= 0 ? messages.slice(0, beforeIndex) : messages;
+      const page = earlier.slice(-limit);
+      const hasMore = earlier.length > page.length;
+      return ok({ messages: page, next_cursor: hasMore ? String(page[0].id) : null, has_more: hasMore });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/conversations\/(\d+)\/(\d+)\/branch$/,
+    handler: (req, [, conversationId]) => {
+      const conversation = findConversation(currentUser(req)!.id, Number(conversationId));
+      if (!conversation) return fail(404, 'Conversation not found');
+      const selected = conversation.messages.find(m => m.id === Number(req.body?.message_id));
+      if (!selected) return fail(404, 'Message not found');
+      // Follow the most recent child down to the end of that branch
+      const childrenOf = (id: number) => conversation.messages.filter(m => parentOf(conversation, m) === id);
+      let leaf = selected;
+      for (let children = childrenOf(leaf.id); children.length > 0; children = childrenOf(leaf.id)) {
+        leaf = children[children.length - 1];
+      }
+      conversation.active_leaf_id = leaf.id;
+      return ok({ status: 'ok' });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/conversations\/(\d+)\/(\d+)\/shares$/,
+    handler: (req, [, conversationId]) => {
+      const user = currentUser(req)!;
+      const conversation = findConversation(user.id, Number(conversationId));
+      if (!conversation) return fail(404, 'Conversation not found');
+
+      const hours = Number(req.body?.expires_in_hours);
+      const share: MockShare = {
+        token: uuidv4().replace(/-/g, ''),
+        user_id: user.id,
+        conversation_id: conversation.id,
+        title: conversation.title,
+        // Branch navigation makes no sense on a frozen snapshot
+        messages: activePath(conversation).map(message => ({ ...message, sibling_ids: undefined })),
+        created_at: new Date().toISOString(),
+        expires_at: hours > 0 ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null,
+      };
+      mockDb.shares.push(share);
+      return ok(toShare(share));
+    },
+  },
+  {
+    method: 'PUT', pattern: /^\/conversations\/(\d+)\/(\d+)$/,
+    handler: (req, [, conversationId]) => {
+      const conversation = findConversation(currentUser(req)!.id, Number(conversationId));
+      if (!conversation) return fail(404, 'Conversation not found');
+      conversation.title = req.body?.title ?? conversation.title;
+      conversation.updated_at = new Date().toISOString();
+      return ok(toConversation(conversation));
+    },
+  },
+  {
+    method: 'DELETE', pattern: /^\/conversations\/(\d+)\/(\d+)$/,
+    handler: (req, [, conversationId]) => {
+      const conversation = findConversation(currentUser(req)!.id, Number(conversationId));
+      if (!conversation) return fail(404, 'Conversation not found');
+      mockDb.conversations = mockDb.conversations.filter(c => c !== conversation);
+      mockDb.folders.forEach(f => { f.conversation_ids = f.conversation_ids.filter(id => id !== conversation.id); });
+      return ok({ status: 'ok', message: 'Conversation deleted' });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/conversations\/(\d+)\/(\d+)\/messages$/,
+    handler: (req, [, conversationId]) => {
+      const user = currentUser(req)!;
+      const conversation = findConversation(user.id, Number(conversationId));
+      if (!conversation) return fail(404, 'Conversation not found');
+
+      // A job result is stored once, however many tabs deliver it
+      const job = req.body?.job_id ? mockDb.jobs.find(j => j.job_id === req.body.job_id && j.user_id === user.id) : undefined;
+      const delivered = job && conversation.messages.find(m => m.id === job.delivered_message_id);
+      if (delivered) return ok(delivered);
+
+      const message = appendMessage(conversation, req.body?.role || 'assistant', req.body?.content || '');
+      if (job) job.delivered_message_id = message.id;
+      return ok(message);
+    },
+  },
+
+  // ---- Agent tasks ----
+  {
+    method: 'GET', pattern: /^\/agent-tasks\/(\d+)$/,
+    handler: (req) => ok(mockDb.agentTasks.filter(task => task.user_id === currentUser(req)!.id)),
+  },
+  {
+    method: 'POST', pattern: /^\/agent-tasks$/,
+    handler: (req) => {
+      const now = new Date();
+      const task: AgentTask = {
+        id: nextId('agentTask'),
+        user_id: currentUser(req)!.id,
+        task_name: req.body?.task_name || 'Untitled Task',
+        instructions: req.body?.instructions || '',
+        schedule: req.body?.schedule || 'daily',
+        time: req.body?.time || '09:00 AM',
+        timezone: req.body?.timezone || 'UTC',
+        weekdays: req.body?.weekdays ?? null,
+        day_of_month: req.body?.day_of_month ?? null,
+        interval_hours: req.body?.interval_hours ?? null,
+        run_at: req.body?.run_at ?? null,
+        cron: req.body?.cron ?? null,
+        missed_run_policy: req.body?.missed_run_policy || 'run_once',
+        write_to_conversation: req.body?.write_to_conversation ?? true,
+        missed_runs: 0,
+        last_missed_at: null,
+        is_search: !!req.body?.is_search,
+        pipeline: req.body?.pipeline || [],
+        enabled: req.body?.enabled ?? true,
+        conversation_id: null,
+        created_at: now.toISOString(),
+        last_run: null,
+        last_run_status: null,
+        next_run: null,
+      };
+      const taskError = agentTaskError(task);
+      if (taskError) return fail(400, taskError);
+      task.next_run = task.enabled ? nextRunAfter(task, now)?.toISOString() ?? null : null;
+      mockDb.agentTasks.push(task);
+      return ok(task);
+    },
+  },
+  {
+    method: 'PUT', pattern: /^\/agent-tasks\/(\d+)\/(\d+)$/,
+    handler: (req, [, taskId]) => {
+      const task = mockDb.agentTasks.find(t => t.id === Number(taskId) && t.user_id === currentUser(req)!.id);
+      if (!task) return fail(404, 'Agent task not found');
+
+      const { task_name, instructions, missed_run_policy, missed_runs, is_search, pipeline, enabled, write_to_conversation } = req.body || {};
+      const schedule: Partial<AgentTask> = {};
+      AGENT_SCHEDULE_FIELDS.forEach(field => {
+        if (req.body?.[field] !== undefined) Object.assign(schedule, { [field]: req.body[field] });
+      });
+      const taskError = agentTaskError({
+        ...task,
+        ...schedule,
+        ...(missed_run_policy !== undefined ? { missed_run_policy } : {}),
+        ...(pipeline !== undefined ? { pipeline } : {}),
+      });
+      if (taskError) return fail(400, taskError);
+
+      Object.assign(task, {
+        ...(task_name !== undefined ? { task_name } : {}),
+        ...(instructions !== undefined ? { instructions } : {}),
+        ...schedule,
+        ...(missed_run_policy !== undefined ? { missed_run_policy } : {}),
+        ...(missed_runs === 0 ? { missed_runs: 0, last_missed_at: null } : {}),
+        ...(is_search !== undefined ? { is_search } : {}),
+        ...(pipeline !== undefined ? { pipeline } : {}),
+        ...(enabled !== undefined ? { enabled } : {}),
+        ...(write_to_conversation !== undefined ? { write_to_conversation } : {}),
+      });
+      task.next_run = task.enabled ? nextRunAfter(task, new Date())?.toISOString() ?? null : null;
+      return ok(task);
+    },
+  },
+  {
+    method: 'DELETE', pattern: /^\/agent-tasks\/(\d+)\/(\d+)$/,
+    handler: (req, [, taskId]) => {
+      const index = mockDb.agentTasks.findIndex(t => t.id === Number(taskId) && t.user_id === currentUser(req)!.id);
+      if (index === -1) return fail(404, 'Agent task not found');
+      mockDb.agentTasks.splice(index, 1);
+      mockDb.agentTaskRuns = mockDb.agentTaskRuns.filter(run => run.task_id !== Number(taskId));
+      return ok({ status: 'ok', message: 'Agent task deleted' });
+    },
+  },
+  {
+    method: 'GET', pattern: /^\/agent-tasks\/(\d+)\/(\d+)\/runs$/,
+    handler: (req, [, taskId]) => {
+      const userId = currentUser(req)!.id;
+      if (!mockDb.agentTasks.some(t => t.id === Number(taskId) && t.user_id === userId)) return fail(404, 'Agent task not found');
+
+      const limit = Number(req.query.get('limit')) || 50;
+      const runs = mockDb.agentTaskRuns.filter(run => run.task_id === Number(taskId)).reverse().slice(0, limit);
+      return ok(runs.map((run): AgentTaskRun => ({
+        id: run.id,
+        task_id: run.task_id,
+        status: run.status,
+        scheduled_for: run.scheduled_for,
+        started_at: run.started_at,
+        duration_ms: run.duration_ms,
+        catch_up: run.catch_up,
+        response: run.response,
+        error: run.error,
+        tokens_used: run.tokens_used,
+        steps: run.steps,
+        conversation_id: run.conversation_id,
+        message_id: run.message_id,
+      })));
+    },
+  },
+  {
+    method: 'GET', pattern: /^\/agent-tasks\/(\d+)\/deliveries$/,
+    handler: (req) => {
+      const userId = currentUser(req)!.id;
+      const pending = mockDb.agentDeliveries.filter(d => d.user_id === userId && !d.acknowledged);
+      return ok(pending.map((d): AgentTaskDelivery => ({
+        id: d.id,
+        task_id: d.task_id,
+        task_name: d.task_name,
+        is_search: d.is_search,
+        conversation_id: d.conversation_id,
+        message_id: d.message_id,
+        content: d.content,
+        scheduled_for: d.scheduled_for,
+        ran_at: d.ran_at,
+        catch_up: d.catch_up,
+      })));
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/agent-tasks\/(\d+)\/deliveries\/ack$/,
+    handler: (req) => {
+      const userId = currentUser(req)!.id;
+      const ids: number[] = req.body?.delivery_ids || [];
+      mockDb.agentDeliveries
+        .filter(d => d.user_id === userId && ids.includes(d.id))
+        .forEach(d => { d.acknowledged = true; });
+      return ok({ status: 'ok' });
+    },
+  },
+
+  // ---- Shares ----
+  {
+    method: 'GET', pattern: /^\/shares\/(\d+)$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      const shares = mockDb.shares
+        .filter(share => share.user_id === user.id && isShareActive(share))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return ok(shares.map(toShare));
+    },
+  },
+  {
+    method: 'DELETE', pattern: /^\/shares\/(\d+)\/([a-f0-9]+)$/,
+    handler: (req, [, token]) => {
+      const index = mockDb.shares.findIndex(share => share.token === token && share.user_id === currentUser(req)!.id);
+      if (index === -1) return fail(404, 'Share not found');
+      mockDb.shares.splice(index, 1);
+      return ok({ status: 'ok', message: 'Share revoked' });
+    },
+  },
+
+  // ---- Pulse ----
+  {
+    method: 'GET', pattern: /^\/pulse\/(\d+)$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      mockDb.pulses[user.id] = mockDb.pulses[user.id] || generatePulse(user.id);
+      return ok({ status: 'ok', pulse: mockDb.pulses[user.id] });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/pulse\/(\d+)\/regenerate$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      mockDb.pulses[user.id] = generatePulse(user.id);
+      return ok({ status: 'ok', pulse: mockDb.pulses[user.id] });
+    },
+  },
+
+  // ---- Memory ----
+  {
+    method: 'POST', pattern: /^\/memory$/,
+    handler: (req) => {
+      const now = new Date().toISOString();
+      const memory = {
+        id: nextId('memory'),
+        user_id: currentUser(req)!.id,
+        content: req.body?.content || '',
+        title: req.body?.title || null,
+        conversation_id: req.body?.conversation_id || null,
+        source: req.body?.source || 'auto_extraction',
+        tags: req.body?.tags || null,
+        is_active: true,
+        created_at: now,
+        updated_at: now,
+      };
+      mockDb.memories.push(memory);
+      return ok({ status: 'ok', message: 'Memory saved', memory_id: memory.id });
+    },
+  },
+  {
+    method: 'GET', pattern: /^\/memory\/(\d+)$/,
+    handler: (req) => {
+      const user = currentUser(req)!;
+      const limit = Number(req.query.get('limit') || 50);
+      const offset = Number(req.query.get('offset') || 0);
+      const memories = mockDb.memories.filter(m => m.user_id === user.id && m.is_active);
+      return ok({ status: 'ok', memories: memories.slice(offset, offset + limit), total: memories.length, limit, offset });
+    },
+  },
+
+  // ---- Folders ----
+  {
+    method: 'GET', pattern: /^\/folders\/(\d+)$/,
+    handler: (req) => ok(mockDb.folders.filter(f => f.user_id === currentUser(req)!.id)),
+  },
+  {
+    method: 'POST', pattern: /^\/folders$/,
+    handler: (req) => {
+      const folder = {
+        id: nextId('folder'),
+        user_id: currentUser(req)!.id,
+        name: req.body?.name || 'New Folder',
+        conversation_ids: [],
+        created_at: new Date().toISOString(),
+      };
+      mockDb.folders.push(folder);
+      return ok(folder);
+    },
+  },
+  {
+    method: 'PUT', pattern: /^\/folders\/(\d+)\/(\d+)$/,
+    handler: (req, [, folderId]) => {
+      const folder = mockDb.folders.find(f => f.id === Number(folderId) && f.user_id === currentUser(req)!.id);
+      if (!folder) return fail(404, 'Folder not found');
+      Object.assign(folder, req.body, { updated_at: new Date().toISOString() });
+      return ok(folder);
+    },
+  },
+  {
+    method: 'DELETE', pattern: /^\/folders\/(\d+)\/(\d+)$/,
+    handler: (req, [, folderId]) => {
+      const userId = currentUser(req)!.id;
+      if (!mockDb.folders.some(f => f.id === Number(folderId) && f.user_id === userId)) return fail(404, 'Folder not found');
+      mockDb.folders = mockDb.folders.filter(f => f.id !== Number(folderId));
+      return ok({ status: 'ok', message: 'Folder deleted' });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/folders\/(\d+)\/(\d+)\/conversations$/,
+    handler: (req, [, folderId]) => {
+      const userId = currentUser(req)!.id;
+      const folder = mockDb.folders.find(f => f.id === Number(folderId) && f.user_id === userId);
+      if (!folder) return fail(404, 'Folder not found');
+      const conversationId = Number(req.body?.conversation_id);
+      // A conversation lives in a single folder
+      mockDb.folders.forEach(f => { f.conversation_ids = f.conversation_ids.filter(id => id !== conversationId); });
+      folder.conversation_ids.push(conversationId);
+      return ok(folder);
+    },
+  },
+  {
+    method: 'DELETE', pattern: /^\/folders\/(\d+)\/(\d+)\/conversations\/(\d+)$/,
+    handler: (req, [, folderId, conversationId]) => {
+      const folder = mockDb.folders.find(f => f.id === Number(folderId) && f.user_id === currentUser(req)!.id);
+      if (!folder) return fail(404, 'Folder not found');
+      folder.conversation_ids = folder.conversation_ids.filter(id => id !== Number(conversationId));
+      return ok(folder);
+    },
+  },
+];
+
+const adminRoutes: MockRoute[] = [
+  {
+    method: 'GET', pattern: /^\/admin\/me$/,
+    handler: (req) => ok(publicAdmin(currentAdmin(req)!)),
+  },
+  {
+    method: 'GET', pattern: /^\/admin\/users$/,
+    handler: () => {
+      const users = mockDb.users.map(user => {
+        const conversations = mockDb.conversations.filter(c => c.user_id === user.id);
+        const lastActivity = conversations.map(c => c.updated_at).sort().pop() || null;
+        return {
+          ...publicUser(user),
+          conversation_count: conversations.length,
+          message_count: conversations.reduce((sum, c) => sum + c.messages.length, 0),
+          last_activity: lastActivity,
+        };
+      });
+      return ok({
+        users,
+        stats: {
+          total_users: users.length,
+          active_users: users.filter(u => u.is_active).length,
+          total_conversations: mockDb.conversations.length,
+          total_messages: mockDb.conversations.reduce((sum, c) => sum + c.messages.length, 0),
+        },
+      });
+    },
+  },
+  {
+    method: 'DELETE', pattern: /^\/admin\/users\/(\d+)$/,
+    handler: (_req, [userId]) => {
+      mockDb.users = mockDb.users.filter(u => u.id !== Number(userId));
+      mockDb.conversations = mockDb.conversations.filter(c => c.user_id !== Number(userId));
+      return ok({ status: 'ok', message: 'User deleted' });
+    },
+  },
+  {
+    method: 'PUT', pattern: /^\/admin\/credentials$/,
+    handler: (req) => {
+      const admin = currentAdmin(req)!;
+      if (admin.password !== req.body?.current_password) return fail(400, 'Current password is incorrect');
+      if (req.body.new_username) admin.username = req.body.new_username;
+      if (req.body.new_password) admin.password = req.body.new_password;
+      return ok({ status: 'ok', message: 'Credentials updated' });
+    },
+  },
+];
+
+// Routes reachable without a token
+const publicRoutes: MockRoute[] = [
+  {
+    method: 'GET', pattern: /^\/public\/shares\/([a-f0-9]+)$/,
+    handler: (_req, [token]) => {
+      const share = mockDb.shares.find(s => s.token === token);
+      if (!share || !isShareActive(share)) return fail(404, 'This link is no longer available');
+      return ok({
+        token: share.token,
+        title: share.title,
+        shared_at: share.created_at,
+        expires_at: share.expires_at,
+        messages: share.messages,
+      });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/auth\/login$/,
+    handler: (req) => {
+      const user = mockDb.users.find(u => u.username === req.body?.username && u.password === req.body?.password);
+      if (!user) return fail(401, 'Incorrect username or password');
+      return ok({ access_token: userToken(user.id), token_type: 'bearer', user: publicUser(user) });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/auth\/register$/,
+    handler: (req) => {
+      if (mockDb.users.some(u => u.username === req.body?.username)) return fail(400, 'Username already registered');
+      const user: MockUser = {
+        id: nextId('user'),
+        username: req.body?.username,
+        password: req.body?.password,
+        email: req.body?.email,
+        full_name: req.body?.full_name || null,
+        is_active: true,
+        plan_type: 'free',
+        job_title: req.body?.job_title,
+        created_at: new Date().toISOString(),
+      };
+      mockDb.users.push(user);
+      return ok({ access_token: userToken(user.id), token_type: 'bearer', user: publicUser(user) });
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/admin\/login$/,
+    handler: (req) => {
+      const admin = mockDb.admins.find(a => a.username === req.body?.username && a.password === req.body?.password);
+      if (!admin) return fail(401, 'Invalid admin credentials');
+      return ok({ access_token: adminToken(admin.id), token_type: 'bearer', admin: publicAdmin(admin) });
+    },
+  },
+];
+
+function generatePulse(userId: number) {
+  const conversations = mockDb.conversations.filter(c => c.user_id === userId);
+  const titles = conversations.slice(0, 3).map(c => `- ${c.title || 'Untitled'}`).join('\n');
+  return {
+    content: `## Your daily pulse (mock)\n\nRecent topics:\n${titles || '- No conversations yet'}`,
+    generated_at: new Date().toISOString(),
+    next_generation: new Date(Date.now() + DAILY_TOKEN_LIMIT_RESET_MS).toISOString(),
+    conversations_analyzed: conversations.length,
+    messages_analyzed: conversations.reduce((sum, c) => sum + c.messages.length, 0),
+  };
+}
+
+const matchRoute = (routes: MockRoute[], req: MockRequest) => {
+  for (const route of routes) {
+    const match = route.method === req.method ? req.path.match(route.pattern) : null;
+    if (match) return { route, params: match.slice(1) };
+  }
+  return null;
+};
+
+/**
+ * Answer a request the way the ORCHA backend would, from the in-memory mock state.
+ */
+export const handleMockRequest = async (req: MockRequest): Promise<MockResponse> => {
+  const publicMatch = matchRoute(publicRoutes, req);
+  if (publicMatch) return publicMatch.route.handler(req, publicMatch.params);
+
+  const adminMatch = matchRoute(adminRoutes, req);
+  if (adminMatch) {
+    if (!currentAdmin(req)) return fail(401, 'Not authenticated');
+    return adminMatch.route.handler(req, adminMatch.params);
+  }
+
+  const userMatch = matchRoute(userRoutes, req);
+  if (userMatch) {
+    const user = currentUser(req);
+    if (!user) return fail(401, 'Not authenticated');
+    runDueAgentTasks(user);
+    return userMatch.route.handler(req, userMatch.params);
+  }
+
+  return fail(404, `Mock backend has no route for ${req.method} ${req.path}`);
+};
@@ -0,0 +1,161 @@
+import { AxiosError, AxiosHeaders, CanceledError, type AxiosAdapter, type AxiosProgressEvent, type InternalAxiosRequestConfig } from 'axios';
+import { API_BASE, apiClient, adminApiClient } from '../client';
+import { handleMockRequest, type MockRequest, type MockResponse } from './handlers';
+import { createLogger } from '../../services/logger';
+
+const log = createLogger('mock');
+
+// Simulated network latency, so loading states stay visible in demos
+const LATENCY_MS = 300;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+const basePath = new URL(API_BASE, window.location.origin).pathname.replace(/\/$/, '');
+
+const sleep = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('The operation was aborted.', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * Whether a URL points at the ORCHA API (and should be answered by the mock)
+ */
+const isApiUrl = (url: string): boolean => {
+  const parsed = new URL(url, window.location.origin);
+  const apiOrigin = new URL(API_BASE, window.location.origin).origin;
+  return parsed.origin === apiOrigin && (parsed.pathname === basePath || parsed.pathname.startsWith(`${basePath}/`));
+};
+
+const toMockRequest = (url: string, method: string, body: any, headers: Record<string, string>): MockRequest => {
+  const parsed = new URL(url, window.location.origin);
+  const lowerCaseHeaders = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), String(value)]));
+  let parsedBody = body;
+  if (typeof body === 'string') {
+    try {
+      parsedBody = JSON.parse(body);
+    } catch {
+      parsedBody = body;
+    }
+  }
+
+  return {
+    method: method.toUpperCase(),
+    path: parsed.pathname.slice(basePath.length) || '/',
+    query: parsed.searchParams,
+    body: parsedBody,
+    headers: lowerCaseHeaders,
+  };
+};
+
+const logMockCall = (req: MockRequest, res: MockResponse) => {
+  log.debug(`${req.method} ${req.path} → ${res.status}`);
+};
+
+/**
+ * axios adapter answering every request from the mock backend
+ */
+const mockAdapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+  // Relative URLs are joined to the base URL, like axios does
+  const requestUrl = config.url || '';
+  const fullUrl = /^https?:\/\//.test(requestUrl) ? requestUrl : `${config.baseURL || API_BASE}${requestUrl}`;
+  const req = toMockRequest(fullUrl, config.method || 'get', config.data, AxiosHeaders.from(config.headers).toJSON() as Record<string, string>);
+
+  try {
+    await sleep(LATENCY_MS, config.signal as AbortSignal | undefined);
+  } catch {
+    throw new CanceledError(undefined, undefined, config);
+  }
+
+  if (req.body instanceof FormData) {
+    const file = req.body.get('file');
+    const size = file instanceof File ? file.size : 0;
+    config.onUploadProgress?.({ loaded: size, total: size, progress: 1, bytes: size, lengthComputable: true } as AxiosProgressEvent);
+  }
+
+  const res = await handleMockRequest(req);
+  logMockCall(req, res);
+
+  const response = {
+    data: res.data,
+    status: res.status,
+    statusText: res.status < 400 ? 'OK' : 'Error',
+    headers: new AxiosHeaders({ 'content-type': 'application/json' }),
+    config,
+    request: {},
+  };
+
+  if (res.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${res.status}`,
+      res.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      {},
+      response
+    );
+  }
+  return response;
+};
+
+/**
+ * Build a fetch Response, streaming SSE events when the handler returned a stream
+ */
+const toFetchResponse = (res: MockResponse, signal?: AbortSignal | null): Response => {
+  if (!res.stream) {
+    return new Response(JSON.stringify(res.data ?? null), {
+      status: res.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const events = [...res.stream, '[DONE]'];
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const event = events.shift();
+      if (event === undefined) {
+        controller.close();
+        return;
+      }
+      try {
+        await sleep(STREAM_CHUNK_DELAY_MS, signal);
+      } catch (error) {
+        controller.error(error);
+        return;
+      }
+      controller.enqueue(encoder.encode(`data: ${event}\n\n`));
+    },
+  });
+
+  return new Response(body, {
+    status: res.status,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+};
+
+/**
+ * Route the API clients and fetch-based calls (chat streaming) to the in-browser mock backend.
+ * Enabled with `VITE_USE_MOCK_API=true`; seeded accounts are demo/demo and admin/admin.
+ */
+export const installMockBackend = (): void => {
+  apiClient.defaults.adapter = mockAdapter;
+  adminApiClient.defaults.adapter = mockAdapter;
+
+  const originalFetch = window.fetch.bind(window);
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (!isApiUrl(url)) {
+      return originalFetch(input, init);
+    }
+
+    const req = toMockRequest(url, init?.method || 'GET', init?.body, (init?.headers as Record<string, string>) || {});
+    await sleep(LATENCY_MS, init?.signal);
+
+    const res = await handleMockRequest(req);
+    logMockCall(req, res);
+    return toFetchResponse(res, init?.signal);
+  };
+
+  log.warn('Mock ORCHA backend enabled - no requests reach', API_BASE);
+};
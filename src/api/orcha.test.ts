@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AxiosError, type AxiosAdapter, type InternalAxiosRequestConfig } from 'axios';
+import { apiClient, USER_TOKEN_KEY } from './client';
+import { AuthError, isConnectivityError, NetworkError, ServerError, StreamInterruptedError, ValidationError } from './errors';
+import { configureRetry } from './retry';
+import { callRecommendedEndpoint, chat, chatStream, createAgentTask, getConversationMessages, getJobStatus, getSharedConversation, revokeConversationShare } from './orcha';
+import type { RouteResponse } from '../types/orcha';
+
+// ==================== MOCKED HTTP LAYER ====================
+
+interface MockReply {
+  status: number;
+  data?: unknown;
+}
+
+let requests: InternalAxiosRequestConfig[] = [];
+let replies: MockReply[] = [];
+
+// Answers requests with the queued replies, in order, recording what was sent
+const mockAdapter: AxiosAdapter = async (config) => {
+  requests.push(config);
+  const reply = replies.shift() ?? { status: 200, data: {} };
+  const response = { data: reply.data, status: reply.status, statusText: '', headers: {}, config, request: {} };
+  if (reply.status >= 400) {
+    throw new AxiosError(`Request failed with status code ${reply.status}`, AxiosError.ERR_BAD_REQUEST, config, {}, response);
+  }
+  return response;
+};
+
+const sentBody = (index = 0) => JSON.parse(requests[index].data);
+
+const originalAdapter = apiClient.defaults.adapter;
+
+beforeEach(() => {
+  requests = [];
+  replies = [];
+  apiClient.defaults.adapter = mockAdapter;
+  configureRetry({ baseDelayMs: 0, maxDelayMs: 0 });
+  localStorage.setItem(USER_TOKEN_KEY, 'test-token');
+});
+
+afterEach(() => {
+  apiClient.defaults.adapter = originalAdapter;
+});
+
+// ==================== TESTS ====================
+
+describe('chat', () => {
+  it('posts the payload with the bearer token and a trace ID', async () => {
+    replies.push({ status: 200, data: { message: 'Hello', conversation_id: 7, token_usage: { tracking_enabled: false } } });
+
+    const response = await chat({ user_id: '1', message: 'Hi', conversation_id: 7 });
+
+    expect(response.message).toBe('Hello');
+    expect(requests[0].method).toBe('post');
+    expect(requests[0].url).toBe('/orcha/chat');
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer test-token');
+    expect(requests[0].headers.get('x-trace-id')).toEqual(expect.any(String));
+    expect(sentBody()).toMatchObject({ user_id: '1', message: 'Hi', conversation_id: 7 });
+  });
+
+  it('turns a rejected payload into a ValidationError carrying the backend detail', async () => {
+    replies.push({ status: 422, data: { detail: [{ loc: ['body', 'message'], msg: 'field required' }] } });
+
+    const error = await chat({ user_id: '1', message: '' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('field required');
+    expect(error.status).toBe(422);
+  });
+});
+
+describe('chatStream', () => {
+  // A streamed response whose connection drops after the given SSE chunks
+  const droppedStream = (chunks: string[]) => {
+    const encoder = new TextEncoder();
+    const reads = chunks.map(chunk => ({ value: encoder.encode(chunk), done: false }));
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'text/event-stream' }),
+      body: {
+        getReader: () => ({
+          read: async () => {
+            const next = reads.shift();
+            if (!next) throw new TypeError('network error');
+            return next;
+          },
+          cancel: async () => undefined,
+        }),
+      },
+    } as unknown as Response;
+  };
+
+  it('reports a connection lost before the backend answered as a connectivity failure', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(droppedStream([]));
+
+    const error = await chatStream({ user_id: '1', message: 'Hi' }, () => undefined).catch(e => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(isConnectivityError(error)).toBe(true);
+  });
+
+  it('does not treat a stream that dropped mid-answer as worth resending', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(droppedStream([
+      'data: {"conversation_id": 7}\n\n',
+      'data: {"choices": [{"delta": {"content": "Hel"}}]}\n\n',
+    ]));
+    const deltas: string[] = [];
+
+    const error = await chatStream({ user_id: '1', message: 'Hi' }, (_delta, accumulated) => deltas.push(accumulated)).catch(e => e);
+
+    expect(deltas).toEqual(['Hel']);
+    expect(error).toBeInstanceOf(StreamInterruptedError);
+    expect(error.conversationId).toBe(7);
+    expect(isConnectivityError(error)).toBe(false);
+  });
+});
+
+describe('getConversationMessages', () => {
+  it('asks for the page before the cursor', async () => {
+    replies.push({ status: 200, data: { messages: [], next_cursor: null, has_more: false } });
+
+    await getConversationMessages(1, 7, '42', 20);
+
+    expect(requests[0].url).toBe('/conversations/1/7/messages?limit=20&before=42');
+  });
+
+  it('retries server errors before giving up', async () => {
+    replies.push({ status: 503 }, { status: 503 }, { status: 503 });
+
+    await expect(getConversationMessages(1, 7)).rejects.toBeInstanceOf(ServerError);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('does not retry auth errors', async () => {
+    replies.push({ status: 403, data: { detail: 'Forbidden' } });
+
+    await expect(getConversationMessages(1, 7)).rejects.toBeInstanceOf(AuthError);
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe('getJobStatus', () => {
+  it('encodes the job ID in the path', async () => {
+    replies.push({ status: 200, data: { job_id: 'a/b', status: 'running', progress: 40 } });
+
+    const status = await getJobStatus('a/b');
+
+    expect(status.progress).toBe(40);
+    expect(requests[0].url).toBe('/orcha/jobs/a%2Fb');
+  });
+});
+
+describe('conversation shares', () => {
+  it('encodes the share token in the path', async () => {
+    await getSharedConversation('../../admin/users?x=1');
+    await revokeConversationShare(1, 'a/b');
+
+    expect(requests[0].url).toBe('/public/shares/..%2F..%2Fadmin%2Fusers%3Fx%3D1');
+    expect(requests[1].url).toBe('/shares/1/a%2Fb');
+  });
+});
+
+describe('createAgentTask', () => {
+  it('returns the task stored by the backend', async () => {
+    replies.push({ status: 200, data: { id: 3, task_name: 'Digest', next_run: '2026-03-02T09:00:00Z' } });
+
+    const task = await createAgentTask({
+      user_id: 1,
+      task_name: 'Digest',
+      instructions: 'Summarize the news',
+      schedule: 'daily',
+      time: '09:00 AM',
+      timezone: 'UTC',
+    });
+
+    expect(task.id).toBe(3);
+    expect(requests[0].url).toBe('/agent-tasks');
+    expect(sentBody()).toMatchObject({ user_id: 1, task_name: 'Digest', timezone: 'UTC' });
+  });
+});
+
+describe('callRecommendedEndpoint', () => {
+  const routing = (endpoint: string, extra: Partial<RouteResponse> = {}): RouteResponse => ({
+    endpoint,
+    reason: 'test',
+    prepared_payload: { user_id: '1', message: 'Hi' },
+    ...extra,
+  });
+
+  it('sends the prepared payload to the endpoint, relative to the API base URL', async () => {
+    replies.push({ status: 200, data: { message: 'Routed answer', conversation_id: 7 } });
+
+    const result = await callRecommendedEndpoint(routing('/api/v1/orcha/chat'));
+
+    expect(requests[0].url).toBe('/orcha/chat');
+    expect(sentBody()).toEqual({ user_id: '1', message: 'Hi' });
+    expect(result).toMatchObject({ endpoint: '/api/v1/orcha/chat', message: 'Routed answer', conversation_id: 7 });
+  });
+
+  it('accepts full URLs on the API origin', async () => {
+    await callRecommendedEndpoint(routing('http://localhost:8000/api/v1/orcha/rag?top_k=3'));
+
+    expect(requests[0].url).toBe('/orcha/rag?top_k=3');
+  });
+
+  it('refuses endpoints on another origin without sending the token there', async () => {
+    await expect(callRecommendedEndpoint(routing('https://attacker.example/collect'))).rejects.toBeInstanceOf(ValidationError);
+    await expect(callRecommendedEndpoint(routing('//attacker.example/collect'))).rejects.toBeInstanceOf(ValidationError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('reports the jobs of a queued OCR request', async () => {
+    replies.push({ status: 200, data: { status: 'ocr_queued' } });
+
+    const result = await callRecommendedEndpoint(routing('orcha/ocr', { job_ids: ['job-1', 'job-2'] }));
+
+    expect(requests[0].url).toBe('/orcha/ocr');
+    expect(result.job_ids).toEqual(['job-1', 'job-2']);
+  });
+});
@@ -1,68 +1,183 @@
-import axios, { AxiosError } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
-import type { RouteRequest, RouteResponse, ChatRequest, ChatResponse, OCRExtractRequest, OCRExtractResponse, Conversation, CreateConversationRequest, UpdateConversationRequest, PulseResponse, WebSearchRequest, WebSearchResponse, Folder, CreateFolderRequest, UpdateFolderRequest } from '../types/orcha';
+import { apiClient, getAuthHeaders, notifyUnauthorized, USER_TOKEN_KEY } from './client';
+import { logOrchaError, orchaErrorFromStatus, ServerError, StreamInterruptedError, toOrchaError, ValidationError } from './errors';
+import { withRetry } from './retry';
+import { createLogger, recordTrace } from '../services/logger';
+import type { RouteRequest, RouteResponse, ChatRequest, ChatResponse, OCRExtractRequest, OCRExtractResponse, Conversation, CreateConversationRequest, UpdateConversationRequest, PulseResponse, WebSearchRequest, WebSearchResponse, Folder, CreateFolderRequest, UpdateFolderRequest, UploadFileResponse, EndpointCallResult, JobStatusResponse, ChatMessage, AddConversationMessageRequest, MessagePage, MessageSearchParams, MessageSearchResponse, ImportConversationRequest, ImportConversationsResponse, ConversationShare, SharedConversation, AgentTask, CreateAgentTaskRequest, UpdateAgentTaskRequest, AgentTaskDelivery, AgentTaskRun } from '../types/orcha';
 
-// Create axios instance with base configuration
-const api = axios.create({
-  baseURL: import.meta.env.VITE_API_URL || 'http://localhost:8000/api/v1',
-  headers: {
-    'Content-Type': 'application/json',
-  },
-  timeout: 600000, // 10 minutes timeout for VPS (600000ms = 10 min)
-});
+// Shared authenticated axios instance (bearer token injection + central 401 handling)
+const api = apiClient;
+
+const log = createLogger('orcha');
 
 /**
  * Call the ORCHA chat endpoint to get AI responses from LM Studio.
  * 
  * @param payload - The chat request payload
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with the chat response including message and optional contexts
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
-export const chat = async (payload: ChatRequest): Promise<ChatResponse> => {
+export const chat = async (payload: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> => {
   try {
     const traceId = uuidv4();
 
-    // Debug: Log the payload being sent including pro mode status
-    console.log('📤 CHAT API PAYLOAD:', {
-      ...payload,
-      message: payload.message?.substring(0, 50) + '...', // Truncate message for logging
-      use_pro_mode: payload.use_pro_mode // Explicitly log pro mode
-    });
+    log.debug('Chat request', { traceId, ...payload });
 
     const response = await api.post<ChatResponse>('/orcha/chat', payload, {
       headers: {
         'x-trace-id': traceId,
       },
+      signal,
     });
 
-    // Debug logging - check console to see actual response
-    console.log('🔍 ORCHA Chat Response:', response.data);
-    console.log('📝 Status:', response.data.status);
-    console.log('💬 Message:', response.data.message);
-    console.log('📚 Contexts:', response.data.contexts);
-    console.log('🪙 Token Usage:', response.data.token_usage);
-
-    if (response.data.token_usage) {
-      console.log('✅ Token usage IS in response:', {
-        current: response.data.token_usage.current_usage,
-        added: response.data.token_usage.tokens_added,
-        enabled: response.data.token_usage.tracking_enabled
-      });
-    } else {
-      console.error('❌ Token usage NOT in response! Backend may not be sending it.');
+    log.debug('Chat response', response.data);
+    if (!response.data.token_usage) {
+      log.warn('Token usage missing from chat response');
     }
 
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('ORCHA chat error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
+    throw logOrchaError('ORCHA chat', error);
+  }
+};
+
+/**
+ * Call the ORCHA chat endpoint in streaming mode (Server-Sent Events).
+ * Each `data:` event carries an OpenAI-style chunk with `choices[].delta.content`;
+ * the last event before `[DONE]` carries `token_usage` and `conversation_id`.
+ * Falls back to a regular JSON body if the backend does not stream.
+ *
+ * @param payload - The chat request payload
+ * @param onDelta - Called for every received chunk with the new text and the accumulated text
+ * @param signal - Optional AbortSignal to cancel the request and stop reading the stream
+ * @returns Promise with the final chat response, `message` holding the full streamed text
+ * @throws OrchaError if the request fails
+ */
+export const chatStream = async (
+  payload: ChatRequest,
+  onDelta: (delta: string, accumulated: string) => void,
+  signal?: AbortSignal
+): Promise<ChatResponse> => {
+  try {
+    const traceId = uuidv4();
+    const startedAt = Date.now();
+
+    const response = await fetch(`${api.defaults.baseURL}/orcha/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        'x-trace-id': traceId,
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify(payload),
+      signal,
+    });
+
+    // fetch bypasses the axios interceptors: record the trace ID here
+    recordTrace({
+      traceId,
+      method: 'POST',
+      path: '/orcha/chat/stream',
+      status: response.status,
+      durationMs: Date.now() - startedAt,
+      at: new Date().toISOString(),
+    });
+
+    if (response.status === 401) {
+      notifyUnauthorized(USER_TOKEN_KEY);
     }
-    throw error;
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw orchaErrorFromStatus(response.status, errorBody, undefined, response.headers.get('retry-after'));
+    }
+
+    // Backend answered with a plain JSON completion instead of a stream
+    if (!response.headers.get('content-type')?.includes('text/event-stream') || !response.body) {
+      const data: ChatResponse = await response.json();
+      const content = data.message || data.choices?.[0]?.message?.content || '';
+      if (content) {
+        onDelta(content, content);
+      }
+      return { ...data, message: content };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let accumulated = '';
+    let finalResponse: ChatResponse = {};
+
+    const handleEvent = (rawEvent: string): boolean => {
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (!data) return false;
+      if (data === '[DONE]') return true;
+
+      const chunk: ChatResponse = JSON.parse(data);
+      if (chunk.status === 'error' || chunk.error) {
+        throw new ServerError(chunk.error || chunk.message || 'Chat stream error', { detail: chunk });
+      }
+
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        accumulated += delta;
+        onDelta(delta, accumulated);
+      }
+
+      // Metadata-bearing events (final event) are merged into the result
+      const metadata = { ...chunk };
+      delete metadata.choices;
+      finalResponse = { ...finalResponse, ...metadata };
+      return false;
+    };
+
+    let done = false;
+    let received = false;
+    try {
+      while (!done) {
+        const { value, done: streamDone } = await reader.read();
+        if (streamDone) break;
+        received = true;
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+        let separatorIndex;
+        while (!done && (separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+          const rawEvent = buffer.slice(0, separatorIndex);
+          buffer = buffer.slice(separatorIndex + 2);
+          done = handleEvent(rawEvent);
+        }
+      }
+    } catch (error) {
+      // Once the backend has started answering (and possibly stored the turn), a dropped connection is not a reason to resend
+      const readError = toOrchaError(error);
+      if (received && (readError.kind === 'network' || readError.kind === 'timeout')) {
+        throw new StreamInterruptedError(readError.message, { cause: error, conversationId: finalResponse.conversation_id });
+      }
+      throw error;
+    }
+
+    if (!done && buffer.trim()) {
+      handleEvent(buffer);
+    }
+    if (done) {
+      await reader.cancel();
+    }
+
+    return {
+      ...finalResponse,
+      status: finalResponse.status || 'ok',
+      message: accumulated || finalResponse.message,
+    };
+  } catch (error) {
+    throw logOrchaError('ORCHA chat stream', error);
   }
 };
 
@@ -71,7 +186,7 @@ export const chat = async (payload: ChatRequest): Promise<ChatResponse> => {
  * 
  * @param payload - The routing request payload
  * @returns Promise with the routing response including endpoint, reason, and prepared_payload
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const route = async (payload: RouteRequest): Promise<RouteResponse> => {
   try {
@@ -85,95 +200,142 @@ export const route = async (payload: RouteRequest): Promise<RouteResponse> => {
 
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('ORCHA routing error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('ORCHA routing', error);
   }
 };
 
 /**
- * TODO: Implement actual file upload endpoint
- * This function should upload a file to your backend and return the file URI
- * that can be used in the attachments array.
- * 
- * Example implementation:
- * 
- * export const uploadFile = async (file: File): Promise<string> => {
- *   const formData = new FormData();
- *   formData.append('file', file);
- *   
- *   const response = await api.post<{ file_uri: string }>('/upload', formData, {
- *     headers: {
- *       'Content-Type': 'multipart/form-data',
- *     },
- *   });
- *   
- *   return response.data.file_uri;
- * };
+ * Upload a file to the backend as multipart/form-data.
+ * The returned `file_uri` goes into `Attachment.uri`, so the file is sent by reference
+ * instead of base64 inside every chat payload and can be reused across messages.
+ *
+ * @param file - The file to upload
+ * @param onProgress - Optional callback receiving the upload progress (0-100)
+ * @param signal - Optional AbortSignal to cancel the upload
+ * @returns Promise with the stored file reference
+ * @throws OrchaError if the request fails
  */
+export const uploadFile = async (
+  file: File,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<UploadFileResponse> => {
+  try {
+    const traceId = uuidv4();
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await api.post<UploadFileResponse>('/files/upload', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+        'x-trace-id': traceId,
+      },
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+      signal,
+    });
+
+    log.debug('Upload file response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Upload file', error);
+  }
+};
 
 /**
  * Get current token usage for a user
  * 
  * @param userId - The user ID to check token usage for
  * @returns Promise with the token usage information
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const getTokenUsage = async (userId: string): Promise<any> => {
   try {
-    const response = await api.get(`/tokens/usage/${userId}`);
-    console.log('🪙 Token usage fetched:', response.data);
+    const response = await withRetry(() => api.get(`/tokens/usage/${userId}`));
+    log.debug('Token usage fetched', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Token usage fetch error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Token usage fetch', error);
   }
 };
 
 /**
- * TODO: Implement function to call the recommended endpoint
- * This function would take the routing response and make an actual call to the
- * recommended endpoint using the prepared payload.
- * 
- * Example implementation:
- * 
- * export const callRecommendedEndpoint = async (
- *   endpoint: string,
- *   payload: any
- * ): Promise<any> => {
- *   const traceId = uuidv4();
- *   
- *   const response = await api.post(endpoint, payload, {
- *     headers: {
- *       'x-trace-id': traceId,
- *     },
- *   });
- *   
- *   return response.data;
- * };
+ * Turn the endpoint returned by ORCHA routing into a path relative to the API base URL.
+ * Routing may answer with a full URL, an `/api/v1/...` path or a path already relative to the base.
+ * Full URLs must point at the API origin: the request carries the user's bearer token.
+ *
+ * @throws ValidationError if the endpoint is on another origin
+ */
+const toApiPath = (endpoint: string): string => {
+  const base = new URL(api.defaults.baseURL || '/', window.location.origin);
+  const basePath = base.pathname.replace(/\/$/, '');
+  const isAbsolute = /^[a-z][a-z\d+.-]*:/i.test(endpoint) || endpoint.startsWith('/');
+  const target = new URL(isAbsolute ? endpoint : `/${endpoint}`, base.origin);
+
+  if (target.origin !== base.origin) {
+    throw new ValidationError(`Routed endpoint is outside the API origin: ${target.origin}`);
+  }
+
+  const path = target.pathname + target.search;
+  return basePath && path.startsWith(`${basePath}/`) ? path.slice(basePath.length) : path;
+};
+
+/**
+ * Dispatch a routing decision: send its prepared payload to the recommended endpoint
+ * (chat, OCR, RAG, ...) and normalize the response for rendering in the conversation.
+ *
+ * @param routing - The routing response returned by `route()`
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the normalized endpoint result, including queued job IDs if any
+ * @throws OrchaError if the request fails
  */
+export const callRecommendedEndpoint = async (routing: RouteResponse, signal?: AbortSignal): Promise<EndpointCallResult> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.post(toApiPath(routing.endpoint), routing.prepared_payload, {
+      headers: {
+        'x-trace-id': traceId,
+      },
+      signal,
+    });
+
+    const data = response.data ?? {};
+    const jobIds: string[] | undefined = data.job_ids || data.jobs || (data.status === 'ocr_queued' ? routing.job_ids : undefined);
+
+    const result: EndpointCallResult = {
+      endpoint: routing.endpoint,
+      status: data.status,
+      message: data.message
+        || data.extracted_text
+        || data.answer
+        || data.choices?.[0]?.message?.content
+        || (typeof data === 'string' ? data : undefined),
+      conversation_id: data.conversation_id,
+      token_usage: data.token_usage,
+      job_ids: jobIds && jobIds.length > 0 ? jobIds : undefined,
+      data,
+    };
+
+    log.debug('Recommended endpoint response', { endpoint: result.endpoint, status: result.status, job_ids: result.job_ids });
+    return result;
+  } catch (error) {
+    throw logOrchaError('Recommended endpoint call', error);
+  }
+};
 
 /**
  * Extract text from image using OCR service
  * 
  * @param payload - The OCR extraction request payload
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with the OCR extraction response including extracted text
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
-export const extractOCRText = async (payload: OCRExtractRequest): Promise<OCRExtractResponse> => {
+export const extractOCRText = async (payload: OCRExtractRequest, signal?: AbortSignal): Promise<OCRExtractResponse> => {
   try {
     const traceId = uuidv4();
 
@@ -181,24 +343,40 @@ export const extractOCRText = async (payload: OCRExtractRequest): Promise<OCRExt
       headers: {
         'x-trace-id': traceId,
       },
+      signal,
     });
 
-    console.log('🔍 OCR Extraction Response:', response.data);
-    console.log('📝 Status:', response.data.status);
-    console.log('📄 Extracted Text:', response.data.extracted_text);
-    console.log('📊 Lines Count:', response.data.lines_count);
+    log.debug('OCR extraction response', response.data);
 
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('OCR extraction error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('OCR extraction', error);
+  }
+};
+
+/**
+ * Get the status of a queued background job (OCR, long-running routes)
+ * 
+ * @param jobId - The job ID returned with an `ocr_queued` response
+ * @returns Promise with the job status, progress and result once completed
+ * @throws OrchaError if the request fails
+ */
+export const getJobStatus = async (jobId: string): Promise<JobStatusResponse> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await withRetry(() =>
+      api.get<JobStatusResponse>(`/orcha/jobs/${encodeURIComponent(jobId)}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Job status response', { job_id: jobId, status: response.data.status, progress: response.data.progress });
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Job status', error);
   }
 };
 
@@ -207,7 +385,7 @@ export const extractOCRText = async (payload: OCRExtractRequest): Promise<OCRExt
  * 
  * @param payload - The conversation creation request payload
  * @returns Promise with the created conversation
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const createConversation = async (payload: CreateConversationRequest): Promise<Conversation> => {
   try {
@@ -219,18 +397,35 @@ export const createConversation = async (payload: CreateConversationRequest): Pr
       },
     });
 
-    console.log('🔍 Create Conversation Response:', response.data);
+    log.debug('Create conversation response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Create conversation error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Create conversation', error);
+  }
+};
+
+/**
+ * Create several conversations with their full message history (conversation import)
+ * 
+ * @param userId - The user ID to import the conversations for
+ * @param conversations - The conversations to create, messages in chronological order
+ * @returns Promise with the created conversations, in the same order
+ * @throws OrchaError if the request fails
+ */
+export const importConversations = async (userId: number, conversations: ImportConversationRequest[]): Promise<ImportConversationsResponse> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.post<ImportConversationsResponse>(`/conversations/${userId}/import`, { conversations }, {
+      headers: {
+        'x-trace-id': traceId,
+      },
+    });
+
+    log.debug('Import conversations response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Import conversations', error);
   }
 };
 
@@ -241,30 +436,24 @@ export const createConversation = async (payload: CreateConversationRequest): Pr
  * @param limit - Maximum number of conversations to return (default: 50)
  * @param offset - Number of conversations to skip (default: 0)
  * @returns Promise with array of conversations
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const getUserConversations = async (userId: number, limit: number = 50, offset: number = 0): Promise<Conversation[]> => {
   try {
     const traceId = uuidv4();
 
-    const response = await api.get<Conversation[]>(`/conversations/${userId}?limit=${limit}&offset=${offset}`, {
-      headers: {
-        'x-trace-id': traceId,
-      },
-    });
+    const response = await withRetry(() =>
+      api.get<Conversation[]>(`/conversations/${userId}?limit=${limit}&offset=${offset}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
 
-    console.log('🔍 Get Conversations Response:', response.data);
+    log.debug('Get conversations response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Get conversations error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Get conversations', error);
   }
 };
 
@@ -274,30 +463,119 @@ export const getUserConversations = async (userId: number, limit: number = 50, o
  * @param userId - The user ID
  * @param conversationId - The conversation ID to fetch
  * @returns Promise with conversation details including messages
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const getConversationDetails = async (userId: number, conversationId: number): Promise<Conversation> => {
   try {
     const traceId = uuidv4();
 
-    const response = await api.get<Conversation>(`/conversations/${userId}/${conversationId}`, {
+    const response = await withRetry(() =>
+      api.get<Conversation>(`/conversations/${userId}/${conversationId}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Get conversation details response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Get conversation details', error);
+  }
+};
+
+/**
+ * Get one page of a conversation's messages, newest page first
+ * 
+ * @param userId - The user ID
+ * @param conversationId - The conversation ID
+ * @param cursor - `next_cursor` of the previously loaded page, or undefined for the latest messages
+ * @param limit - Maximum number of messages to return (default: 50)
+ * @returns Promise with the messages (oldest first) and the cursor of the earlier page
+ * @throws OrchaError if the request fails
+ */
+export const getConversationMessages = async (
+  userId: number,
+  conversationId: number,
+  cursor?: string,
+  limit: number = 50
+): Promise<MessagePage> => {
+  try {
+    const traceId = uuidv4();
+    const query = `limit=${limit}${cursor ? `&before=${encodeURIComponent(cursor)}` : ''}`;
+
+    const response = await withRetry(() =>
+      api.get<MessagePage>(`/conversations/${userId}/${conversationId}/messages?${query}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Get conversation messages response', { count: response.data.messages.length, has_more: response.data.has_more });
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Get conversation messages', error);
+  }
+};
+
+/**
+ * Full-text search across the messages of all the user's conversations
+ * 
+ * @param userId - The user ID
+ * @param params - Search text plus optional role / date filters and paging
+ * @returns Promise with the matching messages (newest first) and the total match count
+ * @throws OrchaError if the request fails
+ */
+export const searchMessages = async (userId: number, params: MessageSearchParams): Promise<MessageSearchResponse> => {
+  try {
+    const traceId = uuidv4();
+    const query = new URLSearchParams({
+      q: params.query,
+      limit: String(params.limit ?? 20),
+      offset: String(params.offset ?? 0),
+    });
+    if (params.role) query.set('role', params.role);
+    if (params.from) query.set('from', params.from);
+    if (params.to) query.set('to', params.to);
+
+    const response = await withRetry(() =>
+      api.get<MessageSearchResponse>(`/conversations/${userId}/search?${query.toString()}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Search messages response', { total: response.data.total });
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Search messages', error);
+  }
+};
+
+/**
+ * Make another branch of a conversation the active one
+ * 
+ * @param userId - The user ID
+ * @param conversationId - The conversation ID
+ * @param messageId - Message of the branch to show; the path continues to its latest descendant
+ * @returns Promise with the operation status
+ * @throws OrchaError if the request fails
+ */
+export const switchConversationBranch = async (userId: number, conversationId: number, messageId: number): Promise<{ status: string }> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.post<{ status: string }>(`/conversations/${userId}/${conversationId}/branch`, { message_id: messageId }, {
       headers: {
         'x-trace-id': traceId,
       },
     });
 
-    console.log('🔍 Get Conversation Details Response:', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Get conversation details error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Switch conversation branch', error);
   }
 };
 
@@ -308,7 +586,7 @@ export const getConversationDetails = async (userId: number, conversationId: num
  * @param conversationId - The conversation ID to update
  * @param payload - The update request payload
  * @returns Promise with updated conversation
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const updateConversation = async (userId: number, conversationId: number, payload: UpdateConversationRequest): Promise<Conversation> => {
   try {
@@ -320,18 +598,10 @@ export const updateConversation = async (userId: number, conversationId: number,
       },
     });
 
-    console.log('🔍 Update Conversation Response:', response.data);
+    log.debug('Update conversation response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Update conversation error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Update conversation', error);
   }
 };
 
@@ -341,7 +611,7 @@ export const updateConversation = async (userId: number, conversationId: number,
  * @param userId - The user ID
  * @param conversationId - The conversation ID to delete
  * @returns Promise with deletion status
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const deleteConversation = async (userId: number, conversationId: number): Promise<{ status: string; message: string }> => {
   try {
@@ -353,50 +623,166 @@ export const deleteConversation = async (userId: number, conversationId: number)
       },
     });
 
-    console.log('🔍 Delete Conversation Response:', response.data);
+    log.debug('Delete conversation response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Delete conversation error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Delete conversation', error);
   }
 };
 
 /**
- * Get user's pulse (daily AI-generated conversation summary)
+ * Append a message to an existing conversation (e.g. the result of a completed background job).
+ * With a `job_id` the call is idempotent: delivering the same job again returns the stored message.
  * 
- * @param userId - The user ID to fetch pulse for
- * @returns Promise with the pulse data
- * @throws AxiosError if the request fails
+ * @param userId - The user ID
+ * @param conversationId - The conversation ID to append to
+ * @param payload - The message role and content
+ * @returns Promise with the persisted message
+ * @throws OrchaError if the request fails
  */
-export const getPulse = async (userId: number): Promise<PulseResponse> => {
+export const addConversationMessage = async (userId: number, conversationId: number, payload: AddConversationMessageRequest): Promise<ChatMessage> => {
   try {
     const traceId = uuidv4();
 
-    const response = await api.get<PulseResponse>(`/pulse/${userId}`, {
+    const response = await api.post<ChatMessage>(`/conversations/${userId}/${conversationId}/messages`, payload, {
       headers: {
         'x-trace-id': traceId,
       },
     });
 
-    console.log('🔍 Get Pulse Response:', response.data);
+    log.debug('Add conversation message response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Get pulse error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Add conversation message', error);
+  }
+};
+
+/**
+ * Create a public read-only link to a snapshot of a conversation
+ * 
+ * @param userId - The user ID
+ * @param conversationId - The conversation to share
+ * @param expiresInHours - Lifetime of the link, or null for a link valid until revoked
+ * @returns Promise with the created share
+ * @throws OrchaError if the request fails
+ */
+export const createConversationShare = async (userId: number, conversationId: number, expiresInHours: number | null): Promise<ConversationShare> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.post<ConversationShare>(`/conversations/${userId}/${conversationId}/shares`, { expires_in_hours: expiresInHours }, {
+      headers: {
+        'x-trace-id': traceId,
+      },
+    });
+
+    log.debug('Create conversation share response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Create conversation share', error);
+  }
+};
+
+/**
+ * Get the user's active (not revoked, not expired) share links
+ * 
+ * @param userId - The user ID
+ * @returns Promise with the active shares, newest first
+ * @throws OrchaError if the request fails
+ */
+export const getConversationShares = async (userId: number): Promise<ConversationShare[]> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await withRetry(() =>
+      api.get<ConversationShare[]>(`/shares/${userId}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Get conversation shares response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Get conversation shares', error);
+  }
+};
+
+/**
+ * Revoke a share link: it stops working immediately
+ * 
+ * @param userId - The user ID
+ * @param token - The share token
+ * @returns Promise with the revocation status
+ * @throws OrchaError if the request fails
+ */
+export const revokeConversationShare = async (userId: number, token: string): Promise<{ status: string; message: string }> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.delete<{ status: string; message: string }>(`/shares/${userId}/${encodeURIComponent(token)}`, {
+      headers: {
+        'x-trace-id': traceId,
+      },
+    });
+
+    log.debug('Revoke conversation share response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Revoke conversation share', error);
+  }
+};
+
+/**
+ * Get the shared snapshot behind a public link (no authentication required)
+ * 
+ * @param token - The share token from the link
+ * @returns Promise with the shared conversation
+ * @throws OrchaError if the request fails (404 once the link is revoked or expired)
+ */
+export const getSharedConversation = async (token: string): Promise<SharedConversation> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await withRetry(() =>
+      api.get<SharedConversation>(`/public/shares/${encodeURIComponent(token)}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Get shared conversation response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Get shared conversation', error);
+  }
+};
+
+/**
+ * Get user's pulse (daily AI-generated conversation summary)
+ * 
+ * @param userId - The user ID to fetch pulse for
+ * @returns Promise with the pulse data
+ * @throws OrchaError if the request fails
+ */
+export const getPulse = async (userId: number): Promise<PulseResponse> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await withRetry(() =>
+      api.get<PulseResponse>(`/pulse/${userId}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Get pulse response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Get pulse', error);
   }
 };
 
@@ -405,7 +791,7 @@ export const getPulse = async (userId: number): Promise<PulseResponse> => {
  * 
  * @param userId - The user ID to regenerate pulse for
  * @returns Promise with the regenerated pulse data
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const regeneratePulse = async (userId: number): Promise<PulseResponse> => {
   try {
@@ -417,18 +803,10 @@ export const regeneratePulse = async (userId: number): Promise<PulseResponse> =>
       },
     });
 
-    console.log('🔍 Regenerate Pulse Response:', response.data);
+    log.debug('Regenerate pulse response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Regenerate pulse error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Regenerate pulse', error);
   }
 };
 
@@ -436,10 +814,11 @@ export const regeneratePulse = async (userId: number): Promise<PulseResponse> =>
  * Perform a web search using DuckDuckGo and get AI-refined results
  * 
  * @param payload - The web search request payload
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with the search response including AI-refined answer
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
-export const webSearch = async (payload: WebSearchRequest): Promise<WebSearchResponse> => {
+export const webSearch = async (payload: WebSearchRequest, signal?: AbortSignal): Promise<WebSearchResponse> => {
   try {
     const traceId = uuidv4();
 
@@ -447,26 +826,14 @@ export const webSearch = async (payload: WebSearchRequest): Promise<WebSearchRes
       headers: {
         'x-trace-id': traceId,
       },
+      signal,
     });
 
-    console.log('🔍 Web Search Response:', response.data);
-    console.log('📝 Status:', response.data.status);
-    console.log('💬 Message:', response.data.message);
-    console.log('🔎 Search Query:', response.data.search_query);
-    console.log('📊 Results Count:', response.data.results_count);
-    console.log('🪙 Token Usage:', response.data.token_usage);
+    log.debug('Web search response', response.data);
 
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Web search error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Web search', error);
   }
 };
 
@@ -477,7 +844,7 @@ export const webSearch = async (payload: WebSearchRequest): Promise<WebSearchRes
  * @param content - The memory content to save
  * @param options - Optional fields (title, conversation_id, source, tags)
  * @returns Promise with the save status
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const saveMemory = async (
   userId: number,
@@ -507,18 +874,10 @@ export const saveMemory = async (
       },
     });
 
-    console.log('🔍 Save Memory Response:', response.data);
+    log.debug('Save memory response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Save memory error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Save memory', error);
   }
 };
 
@@ -529,7 +888,7 @@ export const saveMemory = async (
  * @param limit - Maximum number of memories to return (default: 50)
  * @param offset - Number of memories to skip (default: 0)
  * @returns Promise with the memories data (array format)
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const getMemory = async (
   userId: number,
@@ -555,27 +914,19 @@ export const getMemory = async (
   try {
     const traceId = uuidv4();
 
-    const response = await api.get(`/memory/${userId}?limit=${limit}&offset=${offset}`, {
-      headers: {
-        'x-trace-id': traceId,
-      },
-    });
+    const response = await withRetry(() =>
+      api.get(`/memory/${userId}?limit=${limit}&offset=${offset}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
 
-    console.log('🔍 Get Memory Response:', response.data);
-    console.log(`📊 Total memories: ${response.data.total}`);
-    console.log(`📝 Memories in response: ${response.data.memories?.length || 0}`);
+    log.debug('Get memory response', { total: response.data.total, count: response.data.memories?.length || 0 });
 
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Get memory error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Get memory', error);
   }
 };
 
@@ -588,7 +939,7 @@ export const getMemory = async (
  * @param newEmail - The new email address
  * @param currentPassword - Current password for verification
  * @returns Promise with update status
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const updateUserEmail = async (userId: number, newEmail: string, currentPassword: string): Promise<{ status: string; message: string }> => {
   try {
@@ -603,18 +954,10 @@ export const updateUserEmail = async (userId: number, newEmail: string, currentP
       },
     });
 
-    console.log('📧 Update Email Response:', response.data);
+    log.debug('Update email response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Update email error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Update email', error);
   }
 };
 
@@ -625,7 +968,7 @@ export const updateUserEmail = async (userId: number, newEmail: string, currentP
  * @param currentPassword - Current password for verification
  * @param newPassword - The new password
  * @returns Promise with update status
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const updateUserPassword = async (userId: number, currentPassword: string, newPassword: string): Promise<{ status: string; message: string }> => {
   try {
@@ -640,18 +983,10 @@ export const updateUserPassword = async (userId: number, currentPassword: string
       },
     });
 
-    console.log('🔐 Update Password Response:', response.data);
+    log.debug('Update password response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Update password error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Update password', error);
   }
 };
 
@@ -662,30 +997,24 @@ export const updateUserPassword = async (userId: number, currentPassword: string
  * 
  * @param userId - The user ID to fetch folders for
  * @returns Promise with array of folders
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const getUserFolders = async (userId: number): Promise<Folder[]> => {
   try {
     const traceId = uuidv4();
 
-    const response = await api.get<Folder[]>(`/folders/${userId}`, {
-      headers: {
-        'x-trace-id': traceId,
-      },
-    });
+    const response = await withRetry(() =>
+      api.get<Folder[]>(`/folders/${userId}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
 
-    console.log('📁 Get Folders Response:', response.data);
+    log.debug('Get folders response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Get folders error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Get folders', error);
   }
 };
 
@@ -694,7 +1023,7 @@ export const getUserFolders = async (userId: number): Promise<Folder[]> => {
  * 
  * @param payload - The folder creation request payload
  * @returns Promise with the created folder
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const createFolder = async (payload: CreateFolderRequest): Promise<Folder> => {
   try {
@@ -706,18 +1035,10 @@ export const createFolder = async (payload: CreateFolderRequest): Promise<Folder
       },
     });
 
-    console.log('📁 Create Folder Response:', response.data);
+    log.debug('Create folder response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Create folder error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Create folder', error);
   }
 };
 
@@ -728,7 +1049,7 @@ export const createFolder = async (payload: CreateFolderRequest): Promise<Folder
  * @param folderId - The folder ID to update
  * @param payload - The update request payload
  * @returns Promise with updated folder
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const updateFolder = async (userId: number, folderId: number, payload: UpdateFolderRequest): Promise<Folder> => {
   try {
@@ -740,18 +1061,10 @@ export const updateFolder = async (userId: number, folderId: number, payload: Up
       },
     });
 
-    console.log('📁 Update Folder Response:', response.data);
+    log.debug('Update folder response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Update folder error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Update folder', error);
   }
 };
 
@@ -761,7 +1074,7 @@ export const updateFolder = async (userId: number, folderId: number, payload: Up
  * @param userId - The user ID
  * @param folderId - The folder ID to delete
  * @returns Promise with deletion status
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const deleteFolder = async (userId: number, folderId: number): Promise<{ status: string; message: string }> => {
   try {
@@ -773,18 +1086,10 @@ export const deleteFolder = async (userId: number, folderId: number): Promise<{
       },
     });
 
-    console.log('📁 Delete Folder Response:', response.data);
+    log.debug('Delete folder response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Delete folder error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Delete folder', error);
   }
 };
 
@@ -795,7 +1100,7 @@ export const deleteFolder = async (userId: number, folderId: number): Promise<{
  * @param folderId - The folder ID
  * @param conversationId - The conversation ID to add
  * @returns Promise with updated folder
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const addConversationToFolder = async (userId: number, folderId: number, conversationId: number): Promise<Folder> => {
   try {
@@ -807,18 +1112,10 @@ export const addConversationToFolder = async (userId: number, folderId: number,
       },
     });
 
-    console.log('📁 Add Conversation to Folder Response:', response.data);
+    log.debug('Add conversation to folder response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Add conversation to folder error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Add conversation to folder', error);
   }
 };
 
@@ -829,7 +1126,7 @@ export const addConversationToFolder = async (userId: number, folderId: number,
  * @param folderId - The folder ID
  * @param conversationId - The conversation ID to remove
  * @returns Promise with updated folder
- * @throws AxiosError if the request fails
+ * @throws OrchaError if the request fails
  */
 export const removeConversationFromFolder = async (userId: number, folderId: number, conversationId: number): Promise<Folder> => {
   try {
@@ -841,18 +1138,192 @@ export const removeConversationFromFolder = async (userId: number, folderId: num
       },
     });
 
-    console.log('📁 Remove Conversation from Folder Response:', response.data);
+    log.debug('Remove conversation from folder response', response.data);
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      console.error('Remove conversation from folder error:', {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-      });
-    }
-    throw error;
+    throw logOrchaError('Remove conversation from folder', error);
+  }
+};
+
+// ==================== AGENT TASK API FUNCTIONS ====================
+
+/**
+ * Get user's scheduled agent tasks
+ * 
+ * @param userId - The user ID to fetch tasks for
+ * @returns Promise with array of agent tasks
+ * @throws OrchaError if the request fails
+ */
+export const getAgentTasks = async (userId: number): Promise<AgentTask[]> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await withRetry(() =>
+      api.get<AgentTask[]>(`/agent-tasks/${userId}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Get agent tasks response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Get agent tasks', error);
+  }
+};
+
+/**
+ * Create a scheduled agent task, executed by the backend scheduler
+ * 
+ * @param payload - The task creation request payload
+ * @returns Promise with the created task (including its next run)
+ * @throws OrchaError if the request fails
+ */
+export const createAgentTask = async (payload: CreateAgentTaskRequest): Promise<AgentTask> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.post<AgentTask>('/agent-tasks', payload, {
+      headers: {
+        'x-trace-id': traceId,
+      },
+    });
+
+    log.debug('Create agent task response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Create agent task', error);
+  }
+};
+
+/**
+ * Update a scheduled agent task (instructions, schedule, enabled state, ...)
+ * 
+ * @param userId - The user ID
+ * @param taskId - The task ID to update
+ * @param payload - The fields to change
+ * @returns Promise with the updated task
+ * @throws OrchaError if the request fails
+ */
+export const updateAgentTask = async (userId: number, taskId: number, payload: UpdateAgentTaskRequest): Promise<AgentTask> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.put<AgentTask>(`/agent-tasks/${userId}/${taskId}`, payload, {
+      headers: {
+        'x-trace-id': traceId,
+      },
+    });
+
+    log.debug('Update agent task response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Update agent task', error);
+  }
+};
+
+/**
+ * Delete a scheduled agent task (its results conversation is kept)
+ * 
+ * @param userId - The user ID
+ * @param taskId - The task ID to delete
+ * @returns Promise with deletion status
+ * @throws OrchaError if the request fails
+ */
+export const deleteAgentTask = async (userId: number, taskId: number): Promise<{ status: string; message: string }> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.delete<{ status: string; message: string }>(`/agent-tasks/${userId}/${taskId}`, {
+      headers: {
+        'x-trace-id': traceId,
+      },
+    });
+
+    log.debug('Delete agent task response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Delete agent task', error);
+  }
+};
+
+/**
+ * Get the run log of an agent task
+ * 
+ * @param userId - The user ID
+ * @param taskId - The task ID
+ * @param limit - Maximum number of runs to return (default: 50)
+ * @returns Promise with the task's runs, most recent first
+ * @throws OrchaError if the request fails
+ */
+export const getAgentTaskRuns = async (userId: number, taskId: number, limit: number = 50): Promise<AgentTaskRun[]> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await withRetry(() =>
+      api.get<AgentTaskRun[]>(`/agent-tasks/${userId}/${taskId}/runs?limit=${limit}`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Get agent task runs response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Get agent task runs', error);
+  }
+};
+
+/**
+ * Get task results written into conversations that the user has not been shown yet
+ * 
+ * @param userId - The user ID
+ * @returns Promise with the pending deliveries, oldest first
+ * @throws OrchaError if the request fails
+ */
+export const getAgentTaskDeliveries = async (userId: number): Promise<AgentTaskDelivery[]> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await withRetry(() =>
+      api.get<AgentTaskDelivery[]>(`/agent-tasks/${userId}/deliveries`, {
+        headers: {
+          'x-trace-id': traceId,
+        },
+      })
+    );
+
+    log.debug('Get agent task deliveries response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Get agent task deliveries', error);
+  }
+};
+
+/**
+ * Mark task results as shown so they are not delivered again
+ * 
+ * @param userId - The user ID
+ * @param deliveryIds - The deliveries that were shown
+ * @returns Promise with the acknowledgement status
+ * @throws OrchaError if the request fails
+ */
+export const acknowledgeAgentTaskDeliveries = async (userId: number, deliveryIds: number[]): Promise<{ status: string }> => {
+  try {
+    const traceId = uuidv4();
+
+    const response = await api.post<{ status: string }>(`/agent-tasks/${userId}/deliveries/ack`, { delivery_ids: deliveryIds }, {
+      headers: {
+        'x-trace-id': traceId,
+      },
+    });
+
+    log.debug('Acknowledge agent task deliveries response', response.data);
+    return response.data;
+  } catch (error) {
+    throw logOrchaError('Acknowledge agent task deliveries', error);
   }
 };
 
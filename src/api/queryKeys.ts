@@ -0,0 +1,19 @@
+import type { MessageSearchParams } from '../types/orcha';
+
+// react-query cache keys for server state shared across components
+
+// Cached data is shown instantly and revalidated in the background once older than this
+export const STALE_TIME_MS = 30000;
+
+export const queryKeys = {
+  conversations: (userId: number | undefined) => ['conversations', userId] as const,
+  conversation: (userId: number | undefined, conversationId: number | null) => ['conversation', userId, conversationId] as const,
+  messages: (userId: number | undefined, conversationId: number | null) => ['messages', userId, conversationId] as const,
+  folders: (userId: number | undefined) => ['folders', userId] as const,
+  memory: (userId: number | undefined) => ['memory', userId] as const,
+  agentTasks: (userId: number | undefined) => ['agentTasks', userId] as const,
+  agentTaskRuns: (userId: number | undefined, taskId: number | null) => ['agentTaskRuns', userId, taskId] as const,
+  shares: (userId: number | undefined) => ['shares', userId] as const,
+  sharedConversation: (token: string | undefined) => ['sharedConversation', token] as const,
+  messageSearch: (userId: number | undefined, params: Omit<MessageSearchParams, 'limit' | 'offset'>) => ['messageSearch', userId, params] as const,
+};
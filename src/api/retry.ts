@@ -0,0 +1,58 @@
+import { OrchaError, toOrchaError } from './errors';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('api');
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: OrchaError) => boolean;
+}
+
+// Transient failures only: never retry auth, validation or quota errors
+const isTransient = (error: OrchaError): boolean =>
+  error.kind === 'network' || error.kind === 'timeout' || error.kind === 'server';
+
+let defaultRetryOptions: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  shouldRetry: isTransient,
+};
+
+/**
+ * Override the default retry policy used by idempotent GET calls.
+ */
+export const configureRetry = (options: Partial<RetryOptions>): void => {
+  defaultRetryOptions = { ...defaultRetryOptions, ...options };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run an idempotent request, retrying transient failures with exponential backoff and jitter.
+ *
+ * @param request - Function performing the request (called again on each attempt)
+ * @param options - Per-call overrides of the default retry policy
+ * @returns Promise with the request result
+ * @throws OrchaError from the last attempt
+ */
+export const withRetry = async <T>(request: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs, shouldRetry } = { ...defaultRetryOptions, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const orchaError = toOrchaError(error);
+      if (attempt >= retries || !shouldRetry(orchaError)) {
+        throw orchaError;
+      }
+
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      log.warn(`Retrying request (attempt ${attempt + 2}/${retries + 1}) after ${orchaError.kind} error`);
+      await sleep(delay);
+    }
+  }
+};
@@ -1,11 +1,15 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useAdmin } from '../context/AdminContext';
+import { adminApiClient, getErrorMessage } from '../api/client';
 import { 
   Shield, Users, MessageSquare, Trash2, LogOut, 
   RefreshCw, Search, Settings, Eye, EyeOff, 
   ChevronDown, ChevronUp, AlertTriangle, Check,
   BarChart3, TrendingUp, Calendar, Mail, User
 } from 'lucide-react';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('AdminDashboard');
 
 interface UserData {
   id: number;
@@ -28,8 +32,6 @@ interface DashboardStats {
   total_messages: number;
 }
 
-const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:8000/api/v1';
-
 const AdminDashboard: React.FC = () => {
   const { admin, token, logout } = useAdmin();
   const [users, setUsers] = useState<UserData[]>([]);
@@ -59,17 +61,11 @@ const AdminDashboard: React.FC = () => {
     setLoading(true);
     try {
       // Fetch users
-      const usersRes = await fetch(`${API_BASE}/admin/users`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-      
-      if (usersRes.ok) {
-        const usersData = await usersRes.json();
-        setUsers(usersData.users || []);
-        setStats(usersData.stats || null);
-      }
+      const usersRes = await adminApiClient.get('/admin/users');
+      setUsers(usersRes.data.users || []);
+      setStats(usersRes.data.stats || null);
     } catch (error) {
-      console.error('Failed to fetch admin data:', error);
+      log.error('Failed to fetch admin data', error);
     } finally {
       setLoading(false);
     }
@@ -84,19 +80,14 @@ const AdminDashboard: React.FC = () => {
     if (!token) return;
 
     try {
-      const res = await fetch(`${API_BASE}/admin/users/${userId}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
+      await adminApiClient.delete(`/admin/users/${userId}`);
 
-      if (res.ok) {
-        setUsers(prev => prev.filter(u => u.id !== userId));
-        setDeleteConfirm(null);
-        // Refresh stats
-        fetchData();
-      }
+      setUsers(prev => prev.filter(u => u.id !== userId));
+      setDeleteConfirm(null);
+      // Refresh stats
+      fetchData();
     } catch (error) {
-      console.error('Failed to delete user:', error);
+      log.error('Failed to delete user', error);
     }
   };
 
@@ -124,31 +115,19 @@ const AdminDashboard: React.FC = () => {
 
     setSettingsLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/admin/credentials`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          current_password: currentPassword,
-          new_username: newUsername || undefined,
-          new_password: newPassword || undefined
-        })
+      await adminApiClient.put('/admin/credentials', {
+        current_password: currentPassword,
+        new_username: newUsername || undefined,
+        new_password: newPassword || undefined
       });
 
-      if (res.ok) {
-        setSettingsSuccess('Credentials updated successfully!');
-        setCurrentPassword('');
-        setNewPassword('');
-        setConfirmPassword('');
-        setNewUsername('');
-      } else {
-        const error = await res.json();
-        setSettingsError(error.detail || 'Failed to update credentials');
-      }
+      setSettingsSuccess('Credentials updated successfully!');
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setNewUsername('');
     } catch (error) {
-      setSettingsError('Failed to update credentials');
+      setSettingsError(getErrorMessage(error, 'Failed to update credentials'));
     } finally {
       setSettingsLoading(false);
     }
@@ -3,12 +3,17 @@ import { X, CheckCircle } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('AgentNotification');
 
 export interface AgentNotificationData {
   id: string;
   taskName: string;
   message: string;
   timestamp: string;
+  scheduledFor?: string; // Set when the run was caught up after being missed
 }
 
 interface AgentNotificationProps {
@@ -29,13 +34,13 @@ const AgentNotification: React.FC<AgentNotificationProps> = ({ notification, onC
 
   useEffect(() => {
     if (notification) {
-      console.log('🔔 Showing agent notification:', notification.taskName);
+      log.debug('Showing agent notification');
       // Trigger animation after mount
       setTimeout(() => setIsVisible(true), 50);
       
       // Auto-close after 20 seconds (increased from 15)
       const timer = setTimeout(() => {
-        console.log('⏰ Auto-closing notification');
+        log.debug('Auto-closing agent notification');
         handleClose();
       }, 20000);
       
@@ -71,6 +76,7 @@ const AgentNotification: React.FC<AgentNotificationProps> = ({ notification, onC
                 </h3>
                 <p className="text-purple-100 text-xs mt-1">
                   {new Date(notification.timestamp).toLocaleTimeString()}
+                  {notification.scheduledFor && ` · ${translations[language].agentSchedule.caughtUp} (${new Date(notification.scheduledFor).toLocaleString()})`}
                 </p>
               </div>
             </div>
@@ -1,24 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { X, Calendar, Globe } from 'lucide-react';
+import { X, Calendar, Globe, CalendarClock, ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
 import { useLanguage } from '../context/LanguageContext';
+import {
+  browserTimeZone,
+  formatRunTime,
+  isValidTimeZone,
+  parseCron,
+  timeZoneOptions,
+  upcomingRuns,
+  weekdayNames,
+} from '../services/agentSchedule';
+import { translations } from '../translations';
+import type { AgentTask, AgentTaskMissedRunPolicy, AgentTaskSchedule, AgentTaskStep, AgentTaskStepType, CreateAgentTaskRequest } from '../types/orcha';
 import ClockTimePicker from './ClockTimePicker';
 
-export interface AgentTask {
-  id: string;
-  taskName: string;
-  instructions: string;
-  schedule: 'daily' | 'weekly' | 'monthly';
-  time: string; // Format: "HH:MM AM/PM"
-  createdAt: string;
-  lastRun?: string;
-  enabled: boolean;
-  isSearch?: boolean; // If true, uses web search instead of chat
-}
+const SCHEDULES: AgentTaskSchedule[] = ['daily', 'weekly', 'monthly', 'hourly', 'once', 'cron'];
+const MISSED_RUN_POLICIES: AgentTaskMissedRunPolicy[] = ['skip', 'run_once', 'run_all'];
+const STEP_TYPES: AgentTaskStepType[] = ['chat', 'web_search', 'save_memory'];
+const MAX_PIPELINE_STEPS = 10;
+const INTERVAL_OPTIONS = [1, 2, 3, 4, 6, 8, 12];
+const PREVIEW_RUNS = 3;
+
+// Tomorrow at 9:00 on this browser's clock, as a datetime-local value
+const defaultRunAt = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T09:00`;
+};
+
+// What the modal edits; the backend fills in the owner, run times and results conversation
+export type AgentTaskFormValues = Omit<CreateAgentTaskRequest, 'user_id'>;
 
 interface AgentScheduleModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (task: AgentTask) => void;
+  onSave: (values: AgentTaskFormValues) => Promise<boolean>; // Resolves false when the save failed, keeping the form
   initialInstructions: string;
   existingTask?: AgentTask | null;
   isSearchMode?: boolean;
@@ -33,20 +50,49 @@ const AgentScheduleModal: React.FC<AgentScheduleModalProps> = ({
   isSearchMode = false
 }) => {
   const { language } = useLanguage();
+  const t = translations[language].agentSchedule;
+  const tPipeline = translations[language].agentPipeline;
+  const locale = language === 'en' ? 'en-US' : language === 'fr' ? 'fr-FR' : 'ar';
   const [taskName, setTaskName] = useState('');
   const [instructions, setInstructions] = useState('');
-  const [schedule, setSchedule] = useState<'daily' | 'weekly' | 'monthly'>('daily');
+  const [schedule, setSchedule] = useState<AgentTaskSchedule>('daily');
   const [time, setTime] = useState('09:00 AM');
+  const [timezone, setTimezone] = useState(browserTimeZone);
+  const [weekdays, setWeekdays] = useState<number[]>(() => [new Date().getDay()]);
+  const [dayOfMonth, setDayOfMonth] = useState(() => new Date().getDate());
+  const [intervalHours, setIntervalHours] = useState(6);
+  const [runAt, setRunAt] = useState(defaultRunAt);
+  const [cron, setCron] = useState('0 9 * * 1-5');
+  const [missedRunPolicy, setMissedRunPolicy] = useState<AgentTaskMissedRunPolicy>('run_once');
+  const [writeToConversation, setWriteToConversation] = useState(true);
+  const [pipeline, setPipeline] = useState<AgentTaskStep[]>([]);
+
+  // Fields of the other schedule types take the task's values, or the defaults, so
+  // nothing carries over from the previously edited task
+  const resetScheduleOptions = (task?: AgentTask | null) => {
+    // Weekly and monthly tasks without days run on the weekday / day they were created on
+    const created = task ? new Date(task.created_at) : new Date();
+    setWeekdays(task?.weekdays?.length ? task.weekdays : [created.getDay()]);
+    setDayOfMonth(task?.day_of_month ?? created.getDate());
+    setIntervalHours(task?.interval_hours ?? 6);
+    setRunAt(task?.run_at ?? defaultRunAt());
+    setCron(task?.cron ?? '0 9 * * 1-5');
+  };
 
   // Initialize with existing task or new instructions
   useEffect(() => {
     if (isOpen) {
       if (existingTask) {
         // Editing existing task
-        setTaskName(existingTask.taskName);
+        setTaskName(existingTask.task_name);
         setInstructions(existingTask.instructions);
         setSchedule(existingTask.schedule);
         setTime(existingTask.time);
+        setTimezone(existingTask.timezone);
+        resetScheduleOptions(existingTask);
+        setMissedRunPolicy(existingTask.missed_run_policy);
+        setWriteToConversation(existingTask.write_to_conversation);
+        setPipeline(existingTask.pipeline);
       } else if (initialInstructions && !instructions) {
         // New task from instructions
         setInstructions(initialInstructions);
@@ -58,31 +104,90 @@ const AgentScheduleModal: React.FC<AgentScheduleModalProps> = ({
     }
   }, [isOpen, existingTask, initialInstructions, instructions]);
 
-  const handleSave = () => {
+  const scheduleFields = {
+    schedule,
+    time,
+    timezone,
+    weekdays: schedule === 'weekly' ? [...weekdays].sort((a, b) => a - b) : null,
+    day_of_month: schedule === 'monthly' ? dayOfMonth : null,
+    interval_hours: schedule === 'hourly' ? intervalHours : null,
+    run_at: schedule === 'once' ? runAt : null,
+    cron: schedule === 'cron' ? cron.trim() : null,
+  };
+
+  const scheduleError = !isValidTimeZone(timezone) ? t.invalidTimezone
+    : schedule === 'weekly' && weekdays.length === 0 ? t.pickWeekday
+    : schedule === 'cron' && !parseCron(cron) ? t.invalidCron
+    : null;
+
+  // Same rules as the backend scheduler, so the preview matches what will happen
+  const nextRuns = !isOpen || scheduleError ? [] : upcomingRuns({
+    ...scheduleFields,
+    created_at: existingTask?.created_at ?? new Date().toISOString(),
+    last_run: existingTask?.last_run ?? null,
+  }, new Date(), PREVIEW_RUNS);
+
+  const addStep = () => {
+    setPipeline(prev => [...prev, { type: 'chat', prompt: '' }]);
+  };
+
+  const updateStep = (index: number, changes: Partial<AgentTaskStep>) => {
+    setPipeline(prev => prev.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    setPipeline(prev => {
+      const steps = [...prev];
+      [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+      return steps;
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setPipeline(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const handleSave = async () => {
     if (!instructions.trim()) {
       alert(language === 'en' ? 'Instructions are required' : 'Les instructions sont requises');
       return;
     }
+    if (scheduleError) {
+      alert(scheduleError);
+      return;
+    }
+    if (nextRuns.length === 0) {
+      alert(schedule === 'once' ? t.runAtPast : t.noUpcomingRun);
+      return;
+    }
 
-    const task: AgentTask = {
-      id: existingTask?.id || Date.now().toString(),
-      taskName: taskName.trim() || (language === 'en' ? 'Untitled Task' : 'Tâche sans titre'),
+    const values: AgentTaskFormValues = {
+      task_name: taskName.trim() || (language === 'en' ? 'Untitled Task' : 'Tâche sans titre'),
       instructions: instructions.trim(),
-      schedule,
-      time,
-      createdAt: existingTask?.createdAt || new Date().toISOString(),
-      lastRun: existingTask?.lastRun,
+      ...scheduleFields,
+      missed_run_policy: missedRunPolicy,
+      write_to_conversation: writeToConversation,
+      pipeline: pipeline.map(step => ({ type: step.type, prompt: step.prompt.trim() })),
       enabled: existingTask?.enabled ?? true,
-      isSearch: existingTask?.isSearch ?? isSearchMode
+      is_search: existingTask?.is_search ?? isSearchMode
     };
 
-    onSave(task);
+    if (!(await onSave(values))) return;
 
     // Reset form
     setTaskName('');
     setInstructions('');
     setSchedule('daily');
     setTime('09:00 AM');
+    setTimezone(browserTimeZone());
+    resetScheduleOptions();
+    setMissedRunPolicy('run_once');
+    setWriteToConversation(true);
+    setPipeline([]);
   };
 
   if (!isOpen) return null;
@@ -93,7 +198,7 @@ const AgentScheduleModal: React.FC<AgentScheduleModalProps> = ({
       onClick={onClose}
     >
       <div
-        className="bg-white rounded-3xl w-full max-w-xl overflow-hidden flex flex-col shadow-2xl transform transition-all animate-slideUp border border-white/20"
+        className="bg-white rounded-3xl w-full max-w-xl max-h-[90vh] overflow-hidden flex flex-col shadow-2xl transform transition-all animate-slideUp border border-white/20"
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
@@ -173,6 +278,79 @@ const AgentScheduleModal: React.FC<AgentScheduleModalProps> = ({
             />
           </div>
 
+          {/* Pipeline: steps run after the instructions, each on the previous output */}
+          <div>
+            {pipeline.length > 0 && (
+              <>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{tPipeline.then}</label>
+                <p className="text-xs text-gray-500 mb-2">{tPipeline.hint}</p>
+                <ol className="space-y-2">
+                  {pipeline.map((step, index) => (
+                    <li key={index} className="rounded-lg border border-gray-200 bg-gray-50 p-2.5">
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="w-5 h-5 flex-shrink-0 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold flex items-center justify-center">
+                          {index + 2}
+                        </span>
+                        <select
+                          value={step.type}
+                          onChange={(e) => updateStep(index, { type: e.target.value as AgentTaskStepType })}
+                          className="flex-1 px-2 py-1 bg-white border border-gray-300 rounded-lg text-sm"
+                        >
+                          {STEP_TYPES.map(type => (
+                            <option key={type} value={type}>{tPipeline[type]}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => moveStep(index, -1)}
+                          disabled={index === 0}
+                          className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30 rounded transition"
+                          title={tPipeline.moveUp}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveStep(index, 1)}
+                          disabled={index === pipeline.length - 1}
+                          className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30 rounded transition"
+                          title={tPipeline.moveDown}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeStep(index)}
+                          className="p-1 text-gray-400 hover:text-red-600 rounded transition"
+                          title={tPipeline.remove}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <textarea
+                        value={step.prompt}
+                        onChange={(e) => updateStep(index, { prompt: e.target.value })}
+                        placeholder={step.type === 'save_memory' ? tPipeline.memoryPlaceholder : tPipeline.promptPlaceholder}
+                        rows={2}
+                        className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition resize-none text-sm"
+                      />
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+            {pipeline.length < MAX_PIPELINE_STEPS && (
+              <button
+                type="button"
+                onClick={addStep}
+                className="mt-2 flex items-center gap-1.5 text-sm font-medium text-indigo-600 hover:text-indigo-700 transition"
+              >
+                <Plus className="w-4 h-4" />
+                {tPipeline.addStep}
+              </button>
+            )}
+          </div>
+
           {/* Schedule */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -181,7 +359,8 @@ const AgentScheduleModal: React.FC<AgentScheduleModalProps> = ({
             <div className="grid grid-cols-2 gap-3">
               <select
                 value={schedule}
-                onChange={(e) => setSchedule(e.target.value as 'daily' | 'weekly' | 'monthly')}
+                onChange={(e) => setSchedule(e.target.value as AgentTaskSchedule)}
+                aria-label={t.repeats}
                 className="w-full px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition text-sm appearance-none cursor-pointer"
                 style={{
                   backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%236b7280'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'%3E%3C/path%3E%3C/svg%3E")`,
@@ -191,23 +370,155 @@ const AgentScheduleModal: React.FC<AgentScheduleModalProps> = ({
                   paddingRight: '2.5rem'
                 }}
               >
-                <option value="daily">{language === 'en' ? 'Daily' : 'Quotidien'}</option>
-                <option value="weekly">{language === 'en' ? 'Weekly' : 'Hebdomadaire'}</option>
-                <option value="monthly">{language === 'en' ? 'Monthly' : 'Mensuel'}</option>
+                {SCHEDULES.map(option => (
+                  <option key={option} value={option}>{t[option]}</option>
+                ))}
               </select>
 
-              <ClockTimePicker
-                value={time}
-                onChange={setTime}
-                language={language}
+              {schedule === 'once' ? (
+                <input
+                  type="datetime-local"
+                  value={runAt}
+                  onChange={(e) => setRunAt(e.target.value)}
+                  aria-label={t.runAt}
+                  className="w-full px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition text-sm"
+                />
+              ) : schedule === 'cron' ? (
+                <input
+                  type="text"
+                  value={cron}
+                  onChange={(e) => setCron(e.target.value)}
+                  aria-label={t.cronExpression}
+                  placeholder="0 9 * * 1-5"
+                  className="w-full px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition text-sm font-mono"
+                />
+              ) : (
+                <ClockTimePicker
+                  value={time}
+                  onChange={setTime}
+                  language={language}
+                />
+              )}
+            </div>
+
+            {/* Recurrence details */}
+            {schedule === 'weekly' && (
+              <div className="mt-3">
+                <p className="text-xs font-medium text-gray-600 mb-1.5">{t.onDays}</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {weekdayNames(locale).map((name, day) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => toggleWeekday(day)}
+                      className={`px-2.5 py-1 rounded-lg text-xs font-medium border transition ${weekdays.includes(day)
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-600 hover:border-indigo-300'
+                        }`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {schedule === 'monthly' && (
+              <div className="mt-3 flex items-center gap-2">
+                <label className="text-xs font-medium text-gray-600">{t.dayOfMonth}</label>
+                <select
+                  value={dayOfMonth}
+                  onChange={(e) => setDayOfMonth(Number(e.target.value))}
+                  className="px-2 py-1 bg-gray-50 border border-gray-300 rounded-lg text-sm"
+                >
+                  {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                    <option key={day} value={day}>{day}</option>
+                  ))}
+                </select>
+                {dayOfMonth > 28 && <span className="text-xs text-gray-500">{t.lastDayHint}</span>}
+              </div>
+            )}
+            {schedule === 'hourly' && (
+              <div className="mt-3 flex items-center gap-2 text-xs font-medium text-gray-600">
+                <span>{t.every}</span>
+                <select
+                  value={intervalHours}
+                  onChange={(e) => setIntervalHours(Number(e.target.value))}
+                  className="px-2 py-1 bg-gray-50 border border-gray-300 rounded-lg text-sm"
+                >
+                  {INTERVAL_OPTIONS.map(hours => (
+                    <option key={hours} value={hours}>{hours}</option>
+                  ))}
+                </select>
+                <span>{t.hours}, {t.startingAt} {time}</span>
+              </div>
+            )}
+            {schedule === 'cron' && (
+              <p className="mt-2 text-xs text-gray-500">{t.cronHint}</p>
+            )}
+
+            {/* Timezone */}
+            <div className="mt-3 flex items-center gap-2">
+              <label htmlFor="agent-task-timezone" className="text-xs font-medium text-gray-600 whitespace-nowrap">{t.timezone}</label>
+              <input
+                id="agent-task-timezone"
+                type="text"
+                list="agent-task-timezones"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                className="flex-1 px-3 py-1.5 bg-gray-50 border border-gray-300 rounded-lg text-sm"
               />
+              <datalist id="agent-task-timezones">
+                {timeZoneOptions().map(zone => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+            </div>
+
+            {/* Missed runs */}
+            <div className="mt-3 flex items-center gap-2">
+              <label htmlFor="agent-task-missed-runs" className="text-xs font-medium text-gray-600 whitespace-nowrap">{t.missedRunPolicy}</label>
+              <select
+                id="agent-task-missed-runs"
+                value={missedRunPolicy}
+                onChange={(e) => setMissedRunPolicy(e.target.value as AgentTaskMissedRunPolicy)}
+                title={t.missedRunsHint}
+                className="flex-1 px-3 py-1.5 bg-gray-50 border border-gray-300 rounded-lg text-sm"
+              >
+                {MISSED_RUN_POLICIES.map(policy => (
+                  <option key={policy} value={policy}>{t[policy]}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Results */}
+            <label className="mt-3 flex items-center gap-2 text-xs font-medium text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={writeToConversation}
+                onChange={(e) => setWriteToConversation(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {t.writeToConversation}
+            </label>
+
+            {/* Next runs preview */}
+            <div className="mt-3 rounded-lg border border-indigo-100 bg-indigo-50/50 px-3 py-2">
+              <p className="flex items-center gap-1.5 text-xs font-semibold text-indigo-700 mb-1">
+                <CalendarClock className="w-3.5 h-3.5" />
+                {t.nextRuns}
+              </p>
+              {scheduleError ? (
+                <p className="text-xs text-red-600">{scheduleError}</p>
+              ) : nextRuns.length === 0 ? (
+                <p className="text-xs text-gray-500">{schedule === 'once' ? t.runAtPast : t.noUpcomingRun}</p>
+              ) : (
+                <ul className="space-y-0.5">
+                  {nextRuns.map(run => (
+                    <li key={run.getTime()} className="text-xs text-gray-700">{formatRunTime(run, timezone, locale)}</li>
+                  ))}
+                </ul>
+              )}
             </div>
-            <p className="mt-2 text-xs text-gray-500">
-              {language === 'en'
-                ? 'Your prompt will run within an hour of the selected time'
-                : 'Votre prompt s\'exécutera dans l\'heure suivant l\'heure sélectionnée'
-              }
-            </p>
           </div>
         </div>
 
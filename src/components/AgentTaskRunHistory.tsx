@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, MessageSquare, MinusCircle, RotateCcw, X, XCircle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { useLanguage } from '../context/LanguageContext';
+import { useAgentTaskRuns } from '../hooks/useAgentTasks';
+import { formatRunTime } from '../services/agentSchedule';
+import { translations } from '../translations';
+import type { AgentTask } from '../types/orcha';
+
+interface AgentTaskRunHistoryProps {
+  userId: number;
+  task: AgentTask | null;
+  onClose: () => void;
+  onOpenConversation: (conversationId: number) => void;
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+/**
+ * Browse the run log of an agent task: when each run started, how it went,
+ * and the full answer or error it produced.
+ */
+const AgentTaskRunHistory: React.FC<AgentTaskRunHistoryProps> = ({ userId, task, onClose, onOpenConversation }) => {
+  const { language } = useLanguage();
+  const t = translations[language].agentRuns;
+  const tPipeline = translations[language].agentPipeline;
+  const locale = language === 'en' ? 'en-US' : language === 'fr' ? 'fr-FR' : 'ar';
+  const { runs, runsLoading } = useAgentTaskRuns(userId, task?.id ?? null);
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+
+  // Show the latest run when the log opens
+  useEffect(() => {
+    setSelectedRunId(null);
+  }, [task?.id]);
+
+  if (!task) return null;
+
+  const selectedRun = runs.find(run => run.id === selectedRunId) ?? runs[0];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[70] p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl w-full max-w-4xl h-[80vh] overflow-hidden flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-800">{t.title}</h2>
+            <p className="text-sm text-gray-500 truncate">{task.task_name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-400 hover:text-gray-600 rounded-lg transition"
+            aria-label={t.close}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {runsLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-gray-500">{t.empty}</div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Runs */}
+            <ul className="w-72 flex-shrink-0 border-r border-gray-100 overflow-y-auto divide-y divide-gray-100">
+              {runs.map(run => (
+                <li key={run.id}>
+                  <button
+                    onClick={() => setSelectedRunId(run.id)}
+                    className={`w-full text-left px-4 py-3 transition ${run.id === selectedRun.id ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <span className="flex items-center gap-2 text-sm font-medium text-gray-800">
+                      {run.status === 'succeeded'
+                        ? <CheckCircle2 className="w-4 h-4 text-emerald-500 flex-shrink-0" />
+                        : <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />}
+                      {formatRunTime(new Date(run.started_at), task.timezone, locale)}
+                    </span>
+                    <span className="flex items-center gap-2 mt-1 pl-6 text-xs text-gray-500">
+                      {formatDuration(run.duration_ms)}
+                      {run.tokens_used !== null && <span>· {run.tokens_used} {t.tokens}</span>}
+                      {run.catch_up && (
+                        <span className="inline-flex items-center gap-1 text-amber-600">
+                          <RotateCcw className="w-3 h-3" />
+                          {t.caughtUp}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Selected run */}
+            <div className="flex-1 min-w-0 overflow-y-auto px-5 py-4 space-y-4">
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+                <span className={`font-semibold ${selectedRun.status === 'succeeded' ? 'text-emerald-600' : 'text-red-600'}`}>
+                  {selectedRun.status === 'succeeded' ? t.succeeded : t.failed}
+                </span>
+                <span>{t.scheduledFor} {formatRunTime(new Date(selectedRun.scheduled_for), task.timezone, locale)}</span>
+                <span>{t.duration} {formatDuration(selectedRun.duration_ms)}</span>
+                {selectedRun.tokens_used !== null && <span>{selectedRun.tokens_used} {t.tokens}</span>}
+              </div>
+
+              {selectedRun.error && (
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-1">{t.error}</p>
+                  <pre className="text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg p-3 whitespace-pre-wrap">{selectedRun.error}</pre>
+                </div>
+              )}
+
+              {/* Per-step results, for tasks with a pipeline */}
+              {selectedRun.steps.length > 1 && (
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-1">{tPipeline.stepResults}</p>
+                  <ol className="space-y-1.5">
+                    {selectedRun.steps.map((step, index) => (
+                      <li key={index}>
+                        <details open={step.status === 'failed'} className="rounded-lg border border-gray-200">
+                          <summary className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer">
+                            {step.status === 'succeeded'
+                              ? <CheckCircle2 className="w-4 h-4 text-emerald-500 flex-shrink-0" />
+                              : step.status === 'failed'
+                                ? <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                : <MinusCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                            <span className="font-medium text-gray-800">{index + 1}. {tPipeline[step.type]}</span>
+                            <span className="text-xs text-gray-500">
+                              {step.status === 'skipped'
+                                ? tPipeline.skipped
+                                : `${formatDuration(step.duration_ms)}${step.tokens_used !== null ? ` · ${step.tokens_used} ${t.tokens}` : ''}`}
+                            </span>
+                          </summary>
+                          <div className="px-3 pb-3 space-y-2">
+                            <div>
+                              <p className="text-xs font-medium text-gray-500">{tPipeline.input}</p>
+                              <p className="text-xs text-gray-600 whitespace-pre-wrap line-clamp-4">{step.input}</p>
+                            </div>
+                            {step.error && <p className="text-xs text-red-700">{step.error}</p>}
+                            {step.output !== null && (
+                              <div className="prose prose-sm max-w-none text-gray-700">
+                                <ReactMarkdown remarkPlugins={[remarkGfm]}>{step.output}</ReactMarkdown>
+                              </div>
+                            )}
+                          </div>
+                        </details>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {selectedRun.response !== null && (
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-1">{t.response}</p>
+                  <div className="prose prose-sm max-w-none text-gray-700">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{selectedRun.response}</ReactMarkdown>
+                  </div>
+                </div>
+              )}
+
+              {selectedRun.conversation_id !== null ? (
+                <button
+                  onClick={() => onOpenConversation(selectedRun.conversation_id!)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition"
+                >
+                  <MessageSquare className="w-4 h-4" />
+                  {t.openConversation}
+                </button>
+              ) : (
+                <p className="text-xs text-gray-400">{t.notInConversation}</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AgentTaskRunHistory;
@@ -1,32 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { Trash2, Edit2, Calendar, Globe, Plus } from 'lucide-react';
+import React, { useState } from 'react';
+import { Trash2, Edit2, Calendar, Globe, Plus, AlertTriangle, X } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
 import { useLanguage } from '../context/LanguageContext';
-import { AgentTaskService } from '../services/agentTaskService';
-import type { AgentTask } from './AgentScheduleModal';
-import AgentScheduleModal from './AgentScheduleModal';
+import { getUserFacingMessage } from '../api/errors';
+import { useAgentTasks } from '../hooks/useAgentTasks';
+import { describeSchedule, formatRunTime } from '../services/agentSchedule';
+import { translations } from '../translations';
+import type { AgentTask } from '../types/orcha';
+import AgentScheduleModal, { type AgentTaskFormValues } from './AgentScheduleModal';
 import ClockTimePicker from './ClockTimePicker';
 
 const AgentTaskScheduler: React.FC = () => {
     const { language } = useLanguage();
-    const [tasks, setTasks] = useState<AgentTask[]>([]);
+    const t = translations[language].agentSchedule;
+    const errorMessages = translations[language].errors;
+    const locale = language === 'en' ? 'en-US' : language === 'fr' ? 'fr-FR' : 'ar';
+    const { user } = useAuth();
+    const { tasks, createTask, updateTask, deleteTask } = useAgentTasks(user?.id);
     const [editingTask, setEditingTask] = useState<AgentTask | null>(null);
     const [showEditModal, setShowEditModal] = useState(false);
     const [showCreateModal, setShowCreateModal] = useState(false);
 
-    // Load tasks on mount
-    useEffect(() => {
-        loadTasks();
-    }, []);
-
-    const loadTasks = () => {
-        const allTasks = AgentTaskService.getAllTasks();
-        setTasks(allTasks);
-    };
-
-    const handleDeleteTask = (taskId: string) => {
+    const handleDeleteTask = async (taskId: number) => {
         if (window.confirm(language === 'en' ? 'Are you sure you want to delete this task?' : 'Voulez-vous vraiment supprimer cette tâche ?')) {
-            AgentTaskService.deleteTask(taskId);
-            loadTasks();
+            try {
+                await deleteTask(taskId);
+            } catch (error) {
+                alert(getUserFacingMessage(error, errorMessages));
+            }
         }
     };
 
@@ -35,36 +36,43 @@ const AgentTaskScheduler: React.FC = () => {
         setShowEditModal(true);
     };
 
-    const handleSaveEdit = (updatedTask: AgentTask) => {
-        if (editingTask) {
-            AgentTaskService.updateTask(editingTask.id, updatedTask);
-            setShowEditModal(false);
-            setEditingTask(null);
-            loadTasks();
+    const handleSaveEdit = async (values: AgentTaskFormValues) => {
+        if (!editingTask) return false;
+        try {
+            await updateTask(editingTask.id, values);
+        } catch (error) {
+            alert(getUserFacingMessage(error, errorMessages));
+            return false;
         }
+        setShowEditModal(false);
+        setEditingTask(null);
+        return true;
     };
 
-    const handleCreateTask = (newTask: AgentTask) => {
-        AgentTaskService.saveTask(newTask);
+    const handleCreateTask = async (values: AgentTaskFormValues) => {
+        try {
+            await createTask(values);
+        } catch (error) {
+            alert(getUserFacingMessage(error, errorMessages));
+            return false;
+        }
         setShowCreateModal(false);
-        loadTasks();
+        return true;
     };
 
-    const handleToggleTask = (task: AgentTask) => {
-        AgentTaskService.updateTask(task.id, { enabled: !task.enabled });
-        loadTasks();
+    const handleToggleTask = async (task: AgentTask) => {
+        try {
+            await updateTask(task.id, { enabled: !task.enabled });
+        } catch (error) {
+            alert(getUserFacingMessage(error, errorMessages));
+        }
     };
 
-    const getScheduleLabel = (schedule: string) => {
-        switch (schedule) {
-            case 'daily':
-                return language === 'en' ? 'Daily' : 'Quotidien';
-            case 'weekly':
-                return language === 'en' ? 'Weekly' : 'Hebdomadaire';
-            case 'monthly':
-                return language === 'en' ? 'Monthly' : 'Mensuel';
-            default:
-                return schedule;
+    const handleDismissMissedRuns = async (task: AgentTask) => {
+        try {
+            await updateTask(task.id, { missed_runs: 0 });
+        } catch (error) {
+            alert(getUserFacingMessage(error, errorMessages));
         }
     };
 
@@ -132,23 +140,40 @@ const AgentTaskScheduler: React.FC = () => {
                                     {/* Task Header */}
                                     <div className="flex items-start justify-between">
                                         <div className="flex items-start gap-3">
-                                            <div className={`mt-1 p-2 rounded-lg ${task.isSearch ? 'bg-sky-50 text-sky-500' : 'bg-indigo-50 text-indigo-500'}`}>
-                                                {task.isSearch ? <Globe className="w-4 h-4" /> : <Calendar className="w-4 h-4" />}
+                                            <div className={`mt-1 p-2 rounded-lg ${task.is_search ? 'bg-sky-50 text-sky-500' : 'bg-indigo-50 text-indigo-500'}`}>
+                                                {task.is_search ? <Globe className="w-4 h-4" /> : <Calendar className="w-4 h-4" />}
                                             </div>
                                             <div>
                                                 <h3 className="font-bold text-gray-900 line-clamp-1 text-base">
-                                                    {task.taskName}
+                                                    {task.task_name}
                                                 </h3>
                                                 <div className="flex items-center gap-2 mt-1">
                                                     <span className="inline-flex items-center gap-1 px-2.5 py-0.5 bg-gray-100 text-gray-600 rounded-md text-xs font-medium">
                                                         <ClockTimePicker language="en" value="" onChange={() => { }} />
-                                                        {task.time}
+                                                        {describeSchedule(task, t, locale)}
                                                     </span>
                                                     <span className="text-gray-300 text-xs">•</span>
                                                     <span className="text-xs font-medium text-indigo-600">
-                                                        {getScheduleLabel(task.schedule)}
+                                                        {task.timezone}
                                                     </span>
                                                 </div>
+                                                {/* Runs the scheduler skipped under the task's missed-run policy */}
+                                                {task.missed_runs > 0 && (
+                                                    <div
+                                                        className="inline-flex items-center gap-1.5 mt-2 pl-2 pr-1 py-0.5 bg-amber-50 border border-amber-200 text-amber-700 rounded-md text-xs font-medium"
+                                                        title={task.last_missed_at ? `${t.lastMissed}: ${formatRunTime(new Date(task.last_missed_at), task.timezone, locale)}` : undefined}
+                                                    >
+                                                        <AlertTriangle className="w-3.5 h-3.5" />
+                                                        {task.missed_runs} {task.missed_runs === 1 ? t.missedRun : t.missedRuns}
+                                                        <button
+                                                            onClick={() => handleDismissMissedRuns(task)}
+                                                            className="p-0.5 hover:bg-amber-100 rounded transition"
+                                                            title={t.dismiss}
+                                                        >
+                                                            <X className="w-3 h-3" />
+                                                        </button>
+                                                    </div>
+                                                )}
                                             </div>
                                         </div>
 
@@ -35,7 +35,12 @@ const AttachmentChip: React.FC<AttachmentChipProps> = ({
   return (
     <div className="inline-flex items-center gap-2 bg-indigo-50 text-indigo-700 px-3 py-1.5 rounded-full text-sm">
       <span>{getFileIcon(attachment.type)}</span>
-      <span className="max-w-[150px] truncate">{getFileName(attachment.uri)}</span>
+      <span className="max-w-[150px] truncate">{attachment.filename || getFileName(attachment.uri)}</span>
+      {attachment.upload_progress !== undefined && (
+        <span className="text-xs text-indigo-500 tabular-nums" aria-label="Upload progress">
+          {attachment.upload_progress}%
+        </span>
+      )}
       {!readonly && onRemove && (
         <button
           onClick={onRemove}
@@ -1,14 +1,21 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useConversation } from '../context/ConversationContext';
 import { useLanguage } from '../context/LanguageContext';
 import { useAuth } from '../context/AuthContext';
 import { useModel } from '../context/ModelContext';
 import { translations } from '../translations';
-import type { TokenUsage, Folder } from '../types/orcha';
+import type { TokenUsage } from '../types/orcha';
 import UserProfile from './UserProfile';
-import { getTokenUsage, getUserFolders, createFolder, deleteFolder, addConversationToFolder } from '../api/orcha';
-import { AgentTaskService } from '../services/agentTaskService';
-import { Clock, Globe, MessageSquare, Menu, Search, FolderPlus, Folder as FolderIcon, ChevronRight, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import MessageSearchModal from './MessageSearchModal';
+import ConversationExportMenu from './ConversationExportMenu';
+import ConversationImportModal from './ConversationImportModal';
+import { getTokenUsage } from '../api/orcha';
+import { useFolders } from '../hooks/useFolders';
+import { useAgentTasks } from '../hooks/useAgentTasks';
+import { Clock, Globe, MessageSquare, Menu, Search, FolderPlus, Folder as FolderIcon, ChevronRight, ChevronDown, Plus, Trash2, Upload } from 'lucide-react';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ChatSidebar');
 
 interface ChatSidebarProps {
   isOpen: boolean;
@@ -182,6 +189,11 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
     createNewConversation,
     switchConversation,
     deleteConversation,
+    hasMoreConversations,
+    loadingMoreConversations,
+    loadMoreConversations,
+    jumpToMessage,
+    refreshConversations,
     loading,
     error,
   } = useConversation();
@@ -194,43 +206,49 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [currentTokenUsage, setCurrentTokenUsage] = useState<TokenUsage | null>(tokenUsage || null);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isMessageSearchOpen, setIsMessageSearchOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
-  // Folders State
-  const [folders, setFolders] = useState<Folder[]>([]);
-  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
-  const [newFolderName, setNewFolderName] = useState('');
-  const [foldersLoading, setFoldersLoading] = useState(false);
+  // Infinite scroll: the next page of conversations loads when the end of the list comes into view
+  const conversationListRef = useRef<HTMLDivElement>(null);
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
+  const loadMoreConversationsRef = useRef(loadMoreConversations);
+  loadMoreConversationsRef.current = loadMoreConversations;
 
-  // Local expansion state (not persisted to backend - UI only)
-  const [expandedFolders, setExpandedFolders] = useState<Set<number>>(new Set());
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !hasMoreConversations) return;
 
-  // Load folders from backend
-  const loadFolders = useCallback(async () => {
-    if (!user?.id) return;
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMoreConversationsRef.current();
+        }
+      },
+      { root: conversationListRef.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+    // conversations.length: re-check after each page in case the sentinel is still in view
+  }, [hasMoreConversations, loading, conversations.length]);
 
-    setFoldersLoading(true);
-    try {
-      const fetchedFolders = await getUserFolders(user.id);
-      setFolders(fetchedFolders);
-      // Auto-expand all folders initially
-      setExpandedFolders(new Set(fetchedFolders.map(f => f.id)));
-      console.log('📁 Folders loaded from backend:', fetchedFolders);
-    } catch (error) {
-      console.error('❌ Failed to load folders:', error);
-      // Fallback: keep current folders or empty
-    } finally {
-      setFoldersLoading(false);
-    }
-  }, [user?.id]);
+  // Folders (cached server state)
+  const {
+    folders,
+    foldersLoading,
+    createFolder,
+    deleteFolder,
+    addConversationToFolder,
+  } = useFolders(user?.id);
 
-  // Load folders when user changes
-  useEffect(() => {
-    if (user?.id) {
-      loadFolders();
-    } else {
-      setFolders([]);
-    }
-  }, [user?.id, loadFolders]);
+  // Scheduled agent tasks, to flag the conversations their results are written to
+  const { tasks: agentTasks } = useAgentTasks(user?.id);
+
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [newFolderName, setNewFolderName] = useState('');
+
+  // Local collapse state (not persisted to backend - UI only); folders start expanded
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<number>>(new Set());
 
   // Handle Folder Creation - now uses backend
   const handleCreateFolder = async () => {
@@ -239,27 +257,20 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
       return;
     }
 
-    try {
-      const newFolder = await createFolder({
-        user_id: user.id,
-        name: newFolderName.trim()
-      });
+    const name = newFolderName.trim();
+    setNewFolderName('');
+    setIsCreatingFolder(false);
 
-      setFolders(prev => [newFolder, ...prev]);
-      setExpandedFolders(prev => new Set([...prev, newFolder.id]));
-      console.log('📁 Folder created:', newFolder);
-    } catch (error) {
-      console.error('❌ Failed to create folder:', error);
+    try {
+      await createFolder(name);
+    } catch {
       alert(language === 'en' ? 'Failed to create folder' : 'Échec de la création du dossier');
     }
-
-    setNewFolderName('');
-    setIsCreatingFolder(false);
   };
 
   // Toggle Folder Expansion (UI only - not persisted)
   const toggleFolder = (folderId: number) => {
-    setExpandedFolders(prev => {
+    setCollapsedFolders(prev => {
       const newSet = new Set(prev);
       if (newSet.has(folderId)) {
         newSet.delete(folderId);
@@ -282,11 +293,8 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
     if (!confirm(confirmMsg)) return;
 
     try {
-      await deleteFolder(user.id, folderId);
-      setFolders(prev => prev.filter(f => f.id !== folderId));
-      console.log('📁 Folder deleted:', folderId);
-    } catch (error) {
-      console.error('❌ Failed to delete folder:', error);
+      await deleteFolder(folderId);
+    } catch {
       alert(language === 'en' ? 'Failed to delete folder' : 'Échec de la suppression du dossier');
     }
   };
@@ -299,14 +307,14 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
     // Create the conversation
     const newConvId = await createNewConversation();
     if (newConvId) {
+      setCollapsedFolders(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(folderId);
+        return newSet;
+      });
       try {
-        // Add to folder via backend API
-        const updatedFolder = await addConversationToFolder(user.id, folderId, newConvId);
-        setFolders(prev => prev.map(f => f.id === folderId ? updatedFolder : f));
-        setExpandedFolders(prev => new Set([...prev, folderId]));
-        console.log('📁 Conversation added to folder:', { folderId, newConvId });
-      } catch (error) {
-        console.error('❌ Failed to add conversation to folder:', error);
+        await addConversationToFolder(folderId, newConvId);
+      } catch {
         // Conversation was created but not added to folder - it will appear in main list
       }
     }
@@ -338,7 +346,7 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
           });
         }
       } catch (error) {
-        console.error('Failed to fetch token usage:', error);
+        log.error('Failed to fetch token usage', error);
         // Silently fail - token tracking is optional
       }
     };
@@ -399,15 +407,16 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
       return date.toLocaleDateString(language === 'en' ? 'en-US' : 'fr-FR', {
         month: 'short',
         day: 'numeric',
+        // Older history can span years
+        ...(date.getFullYear() !== now.getFullYear() ? { year: 'numeric' as const } : {}),
       });
     }
   };
 
-  // Check if a conversation is from an agent task
-  const isAgentTaskConversation = (convTitle: string) => {
-    const tasks = AgentTaskService.getAllTasks();
-    return tasks.some(task =>
-      convTitle.includes(task.taskName) || convTitle.includes(task.instructions.substring(0, 50))
+  // Check if a conversation is from an agent task (results conversation, or titled after the task)
+  const isAgentTaskConversation = (convId: number, convTitle: string) => {
+    return agentTasks.some(task =>
+      task.conversation_id === convId || convTitle.includes(task.task_name) || convTitle.includes(task.instructions.substring(0, 50))
     );
   };
 
@@ -419,7 +428,7 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
       const ids: number[] = JSON.parse(searchConvs);
       return ids.includes(convId);
     } catch (error) {
-      console.error('Error parsing search conversations:', error);
+      log.error('Error parsing search conversations', error);
       return false;
     }
   };
@@ -429,6 +438,8 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
     conv.title?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const loadedConversationIds = new Set(conversations.map(c => c.id));
+
   // Get IDs of conversations that are in folders to exclude them from main list
   const folderConversationIds = new Set(folders.flatMap(f => f.conversation_ids));
 
@@ -537,6 +548,17 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
               )}
             </div>
           </div>
+
+          {/* Titles are filtered locally; message content is searched on the server */}
+          {isSearchOpen && (
+            <button
+              onClick={() => setIsMessageSearchOpen(true)}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition"
+            >
+              <Search className="w-3.5 h-3.5" />
+              {translations[language].messageSearch.openFromSidebar}
+            </button>
+          )}
         </div>
 
         {/* Folders Section */}
@@ -583,7 +605,7 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
               </div>
             ) : (
               folders.map(folder => {
-                const isExpanded = expandedFolders.has(folder.id);
+                const isExpanded = !collapsedFolders.has(folder.id);
                 return (
                   <div key={folder.id} className="rounded-lg overflow-hidden border border-white/5 bg-white/5">
                     {/* Folder Header */}
@@ -626,28 +648,49 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
                             {language === 'en' ? 'Empty folder' : 'Dossier vide'}
                           </div>
                         ) : (
-                          conversations
-                            .filter(c => folder.conversation_ids.includes(c.id))
-                            .map(conv => (
-                              <div
-                                key={conv.id}
-                                onClick={() => switchConversation(conv.id)}
-                                className={`group flex items-center gap-2 px-8 py-2 cursor-pointer transition text-sm ${conv.id === currentConversationId
-                                  ? 'bg-white/10 text-white border-l-2 border-emerald-400'
-                                  : 'text-white/70 hover:bg-white/5 hover:text-white border-l-2 border-transparent'
-                                  }`}
-                              >
-                                <span className="truncate flex-1">{conv.title || 'Untitled'}</span>
-                                <button
-                                  onClick={(e) => handleDelete(conv.id, e)}
-                                  className="opacity-0 group-hover:opacity-100 p-0.5 hover:text-red-400 transition"
+                          <>
+                            {conversations
+                              .filter(c => folder.conversation_ids.includes(c.id))
+                              .map(conv => (
+                                <div
+                                  key={conv.id}
+                                  onClick={() => switchConversation(conv.id)}
+                                  className={`group flex items-center gap-2 px-8 py-2 cursor-pointer transition text-sm ${conv.id === currentConversationId
+                                    ? 'bg-white/10 text-white border-l-2 border-emerald-400'
+                                    : 'text-white/70 hover:bg-white/5 hover:text-white border-l-2 border-transparent'
+                                    }`}
                                 >
-                                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                                  </svg>
-                                </button>
-                              </div>
-                            ))
+                                  <span className="truncate flex-1">{conv.title || 'Untitled'}</span>
+                                  {user && (
+                                    <ConversationExportMenu
+                                      userId={user.id}
+                                      conversationId={conv.id}
+                                      className="opacity-0 group-hover:opacity-100"
+                                    />
+                                  )}
+                                  <button
+                                    onClick={(e) => handleDelete(conv.id, e)}
+                                    className="opacity-0 group-hover:opacity-100 p-0.5 hover:text-red-400 transition"
+                                  >
+                                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                    </svg>
+                                  </button>
+                                </div>
+                              ))}
+                            {/* Members older than the loaded pages */}
+                            {hasMoreConversations && folder.conversation_ids.some(id => !loadedConversationIds.has(id)) && (
+                              <button
+                                onClick={() => loadMoreConversations()}
+                                disabled={loadingMoreConversations}
+                                className="w-full text-left px-8 py-2 text-xs text-white/40 hover:text-white/70 transition"
+                              >
+                                {loadingMoreConversations
+                                  ? t.loadingMore
+                                  : `${folder.conversation_ids.filter(id => !loadedConversationIds.has(id)).length} ${t.olderInFolder}`}
+                              </button>
+                            )}
+                          </>
                         )}
                       </div>
                     )}
@@ -662,10 +705,17 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
         <div className="px-3 pt-2 pb-2 flex items-center gap-2">
           <MessageSquare className="w-5 h-5 text-emerald-400" />
           <span className="text-white font-medium text-sm">{language === 'en' ? 'Chats' : 'Discussions'}</span>
+          <button
+            onClick={() => setIsImportOpen(true)}
+            className="ml-auto p-1 hover:bg-white/10 rounded text-white/70 hover:text-white transition"
+            title={translations[language].import.openFromSidebar}
+          >
+            <Upload className="w-4 h-4" />
+          </button>
         </div>
 
         {/* Conversations List */}
-        <div className="flex-1 overflow-y-auto custom-scrollbar-dark px-2 py-2">
+        <div ref={conversationListRef} className="flex-1 overflow-y-auto custom-scrollbar-dark px-2 py-2">
           {loading ? (
             <div className="text-center text-white/60 text-sm py-8">
               <p>{language === 'en' ? 'Loading conversations...' : 'Chargement des conversations...'}</p>
@@ -697,7 +747,7 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
                         )}
 
                         {/* Agent Task Icon */}
-                        {!isSearchConversation(conv.id) && isAgentTaskConversation(conv.title || '') && (
+                        {!isSearchConversation(conv.id) && isAgentTaskConversation(conv.id, conv.title || '') && (
                           <span title={language === 'en' ? 'Scheduled task' : 'Tâche planifiée'}>
                             <Clock className="w-4 h-4 text-purple-400 flex-shrink-0" />
                           </span>
@@ -706,6 +756,15 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
                         {/* Title */}
                         <span className="flex-1 text-sm truncate">{conv.title || 'Untitled Conversation'}</span>
 
+                        {/* Export Menu */}
+                        {user && (
+                          <ConversationExportMenu
+                            userId={user.id}
+                            conversationId={conv.id}
+                            className="opacity-0 group-hover:opacity-100"
+                          />
+                        )}
+
                         {/* Delete Button */}
                         <button
                           onClick={(e) => handleDelete(conv.id, e)}
@@ -730,7 +789,13 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
                 </div>
               ))}
 
-              {filteredConversations.length === 0 && !loading && !error && (
+              {hasMoreConversations && (
+                <div ref={loadMoreSentinelRef} className="text-center text-white/50 text-xs py-3">
+                  {loadingMoreConversations ? t.loadingMore : '\u00a0'}
+                </div>
+              )}
+
+              {filteredConversations.length === 0 && !hasMoreConversations && !loading && !error && (
                 <div className="text-center text-white/60 text-sm py-8">
                   <p>
                     {searchQuery
@@ -762,6 +827,31 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ isOpen, onToggle, tokenUsage
         </div>
       </div >
 
+      {/* Message Search Modal */}
+      {user && (
+        <MessageSearchModal
+          userId={user.id}
+          isOpen={isMessageSearchOpen}
+          initialQuery={searchQuery}
+          onClose={() => setIsMessageSearchOpen(false)}
+          onSelectResult={(hit) => {
+            jumpToMessage(hit.conversation_id, hit.message_id);
+            setModel('chat');
+            setIsMessageSearchOpen(false);
+          }}
+        />
+      )}
+
+      {/* Conversation Import Modal */}
+      {user && (
+        <ConversationImportModal
+          userId={user.id}
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onImported={() => refreshConversations()}
+        />
+      )}
+
       {/* User Profile Modal */}
       < UserProfile
         isOpen={isProfileOpen}
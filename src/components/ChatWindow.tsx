@@ -1,12 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useMutation } from 'react-query';
+import { v4 as uuidv4 } from 'uuid';
+import { Share2 } from 'lucide-react';
 import { useSession } from '../context/SessionContext';
 import { useAuth } from '../context/AuthContext';
 import { useLanguage, type Language } from '../context/LanguageContext';
 import { useConversation } from '../context/ConversationContext';
 import { useModel } from '../context/ModelContext';
-import { chat, webSearch } from '../api/orcha';
-import type { Attachment, ChatRequest, TokenUsage, WebSearchRequest, ChatMessage } from '../types/orcha';
+import { addConversationMessage, chatStream, route, webSearch } from '../api/orcha';
+import { isRequestCancelled } from '../api/client';
+import { getUserFacingMessage, isConnectivityError, StreamInterruptedError } from '../api/errors';
+import { translations } from '../translations';
+import type { Attachment, ChatRequest, ChatResponse, TokenUsage, WebSearchRequest, ChatMessage, TrackedJob, OutboxMessage, RouteRequest, Message, EndpointCallResult } from '../types/orcha';
+import { useJobTracker } from '../hooks/useJobTracker';
+import { useOutbox } from '../hooks/useOutbox';
 import MessageList from './MessageList';
 import MessageInput from './MessageInput';
 import OCRExtractor from './OCRExtractor';
@@ -15,12 +22,41 @@ import ModelSelector from './ModelSelector';
 import PulseButton from './PulseButton';
 import PulseModal from './PulseModal';
 import DocumentCanvas from './DocumentCanvas';
-import AgentScheduleModal, { type AgentTask } from './AgentScheduleModal';
-import AgentNotification, { type AgentNotificationData } from './AgentNotification';
-import { AgentTaskService } from '../services/agentTaskService';
+import AgentScheduleModal, { type AgentTaskFormValues } from './AgentScheduleModal';
+import { useAgentTasks } from '../hooks/useAgentTasks';
 import PlanWithAgent from './PlanWithAgent';
 import AgentTaskScheduler from './AgentTaskScheduler';
 import OrionAssistChat from './OrionAssistChat';
+import PendingJobs from './PendingJobs';
+import ShareConversationModal from './ShareConversationModal';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ChatWindow');
+
+// Stored messages carry attachments as an array or as a JSON string
+const parseAttachments = (raw: unknown): Attachment[] => {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw === 'string') {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+// Send uploaded files by reference only (UI-only preview/progress fields stay local)
+const toRequestAttachments = (attachments: Attachment[]): Attachment[] | undefined =>
+  attachments.length > 0
+    ? attachments.map(({ uri, type, filename, size, data }) => ({ uri, type, filename, size, data }))
+    : undefined;
+
+// A routing decision shown in the conversation it was requested from
+interface RoutedMessage {
+  conversationId: number | null;
+  message: Message;
+}
 
 const ChatWindow: React.FC = () => {
   const { session } = useSession();
@@ -59,12 +95,23 @@ const ChatWindow: React.FC = () => {
     currentConversationId,
     currentConversation,
     messages,
+    hasEarlierMessages,
+    loadingEarlierMessages,
+    loadEarlierMessages,
+    focusedMessageId,
+    clearFocusedMessage,
     refreshConversations,
     refreshMessages,
     updateConversationTitle,
-    addMessage
+    addMessage,
+    removeMessage,
+    truncateMessagesFrom,
+    switchBranch,
+    completeChatTurn,
+    createNewConversation,
+    refreshNewestPage
   } = useConversation();
-  const { currentModel, isAgentMode, isProMode } = useModel();
+  const { currentModel, isAgentMode, isProMode, isRouteMode } = useModel();
   const [isSidebarOpen, setIsSidebarOpen] = useState(() => {
     // Default to closed on mobile (< 768px), open on desktop
     if (typeof window !== 'undefined') {
@@ -77,17 +124,40 @@ const ChatWindow: React.FC = () => {
   const [showCanvas, setShowCanvas] = useState(false);
   const [canvasContent, setCanvasContent] = useState('');
   const [showAgentModal, setShowAgentModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
   const [agentInstructions, setAgentInstructions] = useState('');
-  const [agentNotification, setAgentNotification] = useState<AgentNotificationData | null>(null);
   const [prefilledQuestion, setPrefilledQuestion] = useState('');
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const [routedMessages, setRoutedMessages] = useState<RoutedMessage[]>([]);
+  const errorMessages = translations[language].errors;
+  // In-flight chat/search request and the optimistic message it belongs to (for "Stop generating")
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const pendingTempMessageIdRef = useRef<number | null>(null);
+
+  // Queued OCR / long-running jobs: their result is appended to the originating conversation
+  const handleJobFinished = async (job: TrackedJob) => {
+    if (job.status === 'completed' && job.conversation_id === currentConversationId) {
+      await refreshMessages();
+    }
+  };
+  const { jobs, trackJobs, dismissJob } = useJobTracker(user?.id, handleJobFinished);
 
-  console.log('🔍 ChatWindow render:', {
-    user: !!user,
-    session: !!session,
-    currentConversationId,
-    messagesCount: messages.length,
-    currentModel
-  });
+  // Messages sent while the backend was unreachable, delivered once it is back
+  const handleOutboxMessageSent = async (message: OutboxMessage, response: ChatResponse) => {
+    if (response.token_usage && response.token_usage.tracking_enabled) {
+      setTokenUsage(response.token_usage);
+    }
+    await refreshConversations();
+    if (message.conversation_id === currentConversationId) {
+      await refreshMessages();
+    }
+  };
+  const { outboxMessages, enqueue, retry: retryOutboxMessage, discard: discardOutboxMessage } = useOutbox(user?.id, handleOutboxMessageSent);
+  const { createTask: createAgentTask } = useAgentTasks(user?.id);
+  const currentOutboxMessages = outboxMessages.filter(m => m.conversation_id === currentConversationId);
+  const currentRoutingMessages = routedMessages
+    .filter(routed => routed.conversationId === currentConversationId)
+    .map(routed => routed.message);
 
   // Effect to manage sidebar when canvas opens
   useEffect(() => {
@@ -96,19 +166,33 @@ const ChatWindow: React.FC = () => {
     }
   }, [showCanvas, isSidebarOpen]);
 
+  // Show a failed request as an error bubble (system role) in the conversation
+  const showRequestError = (error: unknown) => {
+    addMessage({
+      id: -Date.now(),
+      role: 'system',
+      content: getUserFacingMessage(error, errorMessages),
+      attachments: [],
+      token_count: null,
+      model_used: null,
+      created_at: new Date().toISOString()
+    });
+  };
+
   // React Query mutation for web search
   const searchMutation = useMutation(
-    (payload: WebSearchRequest) => webSearch(payload),
+    (payload: WebSearchRequest) => {
+      abortControllerRef.current = new AbortController();
+      return webSearch(payload, abortControllerRef.current.signal);
+    },
     {
       onSuccess: async (data) => {
-        console.log('✅ Web search mutation success');
-        console.log('🔍 Search query:', data.search_query);
-        console.log('🔍 Results count:', data.results_count);
+        log.debug('Web search mutation success', { conversation_id: data.conversation_id, results_count: data.results_count });
 
         // Update token usage from search response
         if (data.token_usage && data.token_usage.tracking_enabled) {
           setTokenUsage(data.token_usage);
-          console.log(`Tokens used in search: ${data.token_usage.tokens_added}`);
+          log.debug(`Tokens used in search: ${data.token_usage.tokens_added}`);
         }
 
         // Mark this conversation as a search conversation
@@ -118,7 +202,7 @@ const ChatWindow: React.FC = () => {
           if (!ids.includes(data.conversation_id)) {
             ids.push(data.conversation_id);
             localStorage.setItem('aura_search_conversations', JSON.stringify(ids));
-            console.log('🌐 Marked conversation as web search:', data.conversation_id);
+            log.debug('Marked conversation as web search', data.conversation_id);
           }
         }
 
@@ -129,74 +213,199 @@ const ChatWindow: React.FC = () => {
         }
       },
       onError: (error: any) => {
-        console.error('❌ Web search mutation error:', error);
+        if (isRequestCancelled(error)) {
+          log.debug('Web search cancelled by user');
+          return;
+        }
+        log.error('Web search mutation error', error);
+        showRequestError(error);
         refreshConversations();
       },
+      onSettled: () => {
+        abortControllerRef.current = null;
+      },
     }
   );
 
-  // React Query mutation for chat
+  // React Query mutation for chat (streamed token-by-token into the message list)
   const chatMutation = useMutation(
-    (payload: ChatRequest) => chat(payload),
+    (payload: ChatRequest) => {
+      abortControllerRef.current = new AbortController();
+      setStreamingContent('');
+      return chatStream(
+        payload,
+        (_delta, accumulated) => setStreamingContent(accumulated),
+        abortControllerRef.current.signal
+      );
+    },
     {
       onSuccess: async (data, variables) => {
-        console.log('✅ Chat mutation success');
-        console.log('🔍 Checking for token_usage in response...');
-        console.log('🔍 data.token_usage exists?', !!data.token_usage);
-
-        if (data.token_usage) {
-          console.log('📊 TOKEN USAGE DATA RECEIVED:');
-          console.log('  - tracking_enabled:', data.token_usage.tracking_enabled);
-          console.log('  - current_usage:', data.token_usage.current_usage);
-          console.log('  - tokens_added:', data.token_usage.tokens_added);
-          console.log('  - reset_at:', data.token_usage.reset_at);
-          console.log('  - time_until_reset:', data.token_usage.time_until_reset);
-        } else {
-          console.error('❌ NO TOKEN USAGE DATA IN RESPONSE!');
-          console.log('Full response:', JSON.stringify(data, null, 2));
-        }
+        log.debug('Chat mutation success', { conversation_id: data.conversation_id, status: data.status });
 
-        // ✅ Update token usage in real-time (matches backend example)
+        // Update token usage in real-time (matches backend example)
         if (data.token_usage && data.token_usage.tracking_enabled) {
-          console.log('✅ UPDATING TOKEN STATE:', data.token_usage.current_usage);
           setTokenUsage(data.token_usage);
-          console.log(`Tokens used this message: ${data.token_usage.tokens_added}`);
-          console.log(`Total accumulated: ${data.token_usage.current_usage}`);
+          log.debug('Token usage updated', {
+            tokens_added: data.token_usage.tokens_added,
+            current_usage: data.token_usage.current_usage,
+          });
         } else {
-          console.warn('⚠️ No token usage data in response or tracking disabled');
+          log.warn('No token usage data in response or tracking disabled');
+        }
+
+        // OCR was queued in the background: watch the jobs until their result lands in this conversation
+        if (data.status === 'ocr_queued' && data.jobs && data.jobs.length > 0) {
+          const label = variables.attachments?.map(att => att.filename).filter(Boolean).join(', ')
+            || translations[language].jobs.defaultLabel;
+          trackJobs(data.jobs, data.conversation_id ?? variables.conversation_id ?? null, label);
         }
 
         // Check if this was a response to a document attachment (PDF only, not OCR)
         const hasDocumentAttachment = variables.attachments?.some(att => att.type === 'application/pdf');
         if (hasDocumentAttachment && data.message) {
-          console.log('📄 Document response detected, opening canvas');
-          console.log('📄 Attachments:', variables.attachments);
+          log.debug('Document response detected, opening canvas');
           setCanvasContent(data.message);
           setShowCanvas(true);
           setIsSidebarOpen(false); // Auto-close sidebar when canvas opens
         }
 
-        // Refresh both conversations list and messages after successful chat
+        // Show the reply from the cache; the conversation is revalidated in the background
         if (data.conversation_id) {
-          console.log('🔄 Refreshing conversations list and messages after successful chat');
-          await refreshConversations();
-          // Manually refresh messages to show the new response
-          await refreshMessages();
+          if (data.message) {
+            completeChatTurn(data.conversation_id, {
+              id: -Date.now(),
+              role: 'assistant',
+              content: data.message,
+              attachments: [],
+              token_count: null,
+              model_used: data.model ?? null,
+              created_at: new Date().toISOString()
+            });
+          } else {
+            await refreshConversations();
+            await refreshMessages();
+          }
         }
       },
-      onError: (error: any) => {
-        console.error('❌ Chat mutation error:', error);
-        console.error('Error response:', error.response?.data);
+      onError: async (error: any, variables) => {
+        if (isRequestCancelled(error)) {
+          log.debug('Chat request cancelled by user');
+          // Drop the optimistic user message, then resync with what the backend actually persisted
+          if (pendingTempMessageIdRef.current !== null) {
+            removeMessage(pendingTempMessageIdRef.current);
+          }
+          await refreshMessages();
+          return;
+        }
+
+        if (error instanceof StreamInterruptedError) {
+          // The backend was already answering and may have stored the turn: an automatic resend could
+          // duplicate it, so the message is kept as failed (sent again only on request) next to what was stored
+          log.error('Chat stream interrupted', error);
+          const conversationId = error.conversationId ?? variables.conversation_id ?? null;
+          if (pendingTempMessageIdRef.current !== null) {
+            removeMessage(pendingTempMessageIdRef.current);
+          }
+          await enqueue({ ...variables, conversation_id: conversationId }, variables.attachments || [], getUserFacingMessage(error, errorMessages));
+          if (conversationId) {
+            await refreshNewestPage(conversationId);
+          }
+          refreshConversations();
+          return;
+        }
+
+        if (isConnectivityError(error)) {
+          // Backend unreachable: the outbox shows the message as pending and resends it later
+          if (pendingTempMessageIdRef.current !== null) {
+            removeMessage(pendingTempMessageIdRef.current);
+          }
+          await enqueue(variables, variables.attachments || []);
+          return;
+        }
+
+        log.error('Chat mutation error', error);
+        showRequestError(error);
 
         // Refresh conversations to get updated state
         refreshConversations();
       },
+      onSettled: () => {
+        // Persisted messages have replaced the streamed preview by now
+        setStreamingContent(null);
+        abortControllerRef.current = null;
+        pendingTempMessageIdRef.current = null;
+      },
     }
   );
 
-  const handleSendMessage = async (message: string, attachments: Attachment[], useRag: boolean) => {
+  // ORCHA routing: the decision is shown in the conversation and dispatched from there
+  const routeMutation = useMutation(
+    (payload: RouteRequest) => route(payload),
+    {
+      onSuccess: (data, variables) => {
+        log.debug('Routing decision received', { endpoint: data.endpoint, status: data.status });
+        setRoutedMessages(prev => [...prev, {
+          conversationId: variables.conversation_id ?? null,
+          message: {
+            id: uuidv4(),
+            type: 'routing',
+            content: variables.message,
+            timestamp: new Date(),
+            routingData: data,
+          },
+        }]);
+      },
+      onError: (error) => {
+        log.error('Routing mutation error', error);
+        showRequestError(error);
+      },
+    }
+  );
+
+  // The routed endpoint answered: its result belongs in the conversation the decision was made in
+  const handleEndpointResult = async (routingMessage: Message, result: EndpointCallResult) => {
+    if (!user) return;
+    const routed = routedMessages.find(r => r.message.id === routingMessage.id);
+    const conversationId = result.conversation_id ?? routed?.conversationId ?? null;
+
+    // Keep the result with the decision so the card stays dispatched when it is mounted again
+    setRoutedMessages(prev => prev.map(r =>
+      r.message.id === routingMessage.id ? { ...r, message: { ...r.message, routingResult: result } } : r
+    ));
+
+    if (result.token_usage && result.token_usage.tracking_enabled) {
+      setTokenUsage(result.token_usage);
+    }
+
+    try {
+      // Endpoints that take a conversation_id persist the turn themselves; otherwise store both sides of it
+      if (!result.conversation_id && conversationId) {
+        await addConversationMessage(user.id, conversationId, { role: 'user', content: routingMessage.content });
+        if (result.message) {
+          await addConversationMessage(user.id, conversationId, { role: 'assistant', content: result.message });
+        }
+      }
+      if (conversationId) {
+        await refreshConversations();
+        if (conversationId === currentConversationId) {
+          await refreshMessages();
+        }
+      }
+    } catch (error) {
+      log.error('Failed to write routed result into the conversation', error);
+      showRequestError(error);
+    }
+
+    // Queued OCR: the job results are appended to the conversation, after the question, once they are ready
+    if (result.job_ids) {
+      trackJobs(result.job_ids, conversationId, translations[language].jobs.defaultLabel);
+    }
+  };
+
+  // parentMessageId forks the conversation (edit-and-resend); undefined continues the active branch
+  const handleSendMessage = async (message: string, attachments: Attachment[], useRag: boolean, parentMessageId?: number | null, useProMode = isProMode) => {
     if (!session || !user) {
-      console.error('❌ Cannot send message: No session or user');
+      log.error('Cannot send message: No session or user');
       return;
     }
 
@@ -209,25 +418,51 @@ const ChatWindow: React.FC = () => {
       user_id: user.id.toString(),
       tenant_id: session.tenant_id,
       message: message,
-      attachments: attachments.length > 0 ? attachments : undefined,
+      attachments: toRequestAttachments(attachments),
       use_rag: useRag,
-      use_pro_mode: isProMode,
+      use_pro_mode: useProMode,
       conversation_id: currentConversationId, // Include conversation_id for database persistence
       conversation_history: [], // Let backend load from database
+      ...(parentMessageId !== undefined ? { parent_message_id: parentMessageId } : {}),
     };
 
-    console.log('📤 Sending chat request:', {
+    log.debug('Sending chat request', {
       user_id: user.id,
       conversation_id: currentConversationId,
-      message: message.substring(0, 100) + '...', // Truncate for logging
+      messageLength: message.length,
       attachmentCount: attachments.length,
       useRag,
-      useProMode: isProMode,
+      useProMode,
       isFirstMessage,
       shouldAutoName,
 
     });
 
+    // Routing mode: ask ORCHA which endpoint should handle the message first
+    if (isRouteMode && parentMessageId === undefined) {
+      // The routed turn is stored in a conversation, so there has to be one before dispatching it
+      const conversationId = currentConversationId ?? await createNewConversation();
+      if (!conversationId) {
+        log.error('Cannot route message: failed to create a conversation');
+        return;
+      }
+      routeMutation.mutate({
+        user_id: user.id.toString(),
+        tenant_id: session.tenant_id,
+        message,
+        attachments: toRequestAttachments(attachments),
+        use_rag: useRag,
+        conversation_id: conversationId,
+      });
+      return;
+    }
+
+    // Offline: don't even try, queue the message in the outbox right away
+    if (!navigator.onLine) {
+      await enqueue(chatRequest, attachments);
+      return;
+    }
+
     // If this is the first message, auto-name the conversation
     if (shouldAutoName && currentConversationId) {
       try {
@@ -236,10 +471,10 @@ const ChatWindow: React.FC = () => {
           ? message.substring(0, 47) + '...'
           : message;
 
-        console.log('🏷️ Auto-naming conversation:', autoTitle);
+        log.debug('Auto-naming conversation', { conversation_id: currentConversationId });
         await updateConversationTitle(currentConversationId, autoTitle);
       } catch (error) {
-        console.error('Failed to auto-name conversation:', error);
+        log.error('Failed to auto-name conversation', error);
         // Continue anyway, naming is not critical
       }
     }
@@ -252,22 +487,32 @@ const ChatWindow: React.FC = () => {
       attachments: attachments,
       token_count: null,
       model_used: null,
-      created_at: new Date().toISOString()
+      created_at: new Date().toISOString(),
+      request_options: { use_rag: useRag, use_pro_mode: useProMode },
+      ...(parentMessageId !== undefined ? { parent_id: parentMessageId } : {}),
     };
     addMessage(tempMessage);
+    pendingTempMessageIdRef.current = tempMessage.id;
 
     // Call ORCHA chat endpoint
     chatMutation.mutate(chatRequest);
   };
 
 
-  // Handle regenerating a message (when user clicks reload icon on assistant message)
+  // Cancel the in-flight chat or web search request
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Handle regenerating a message (when user clicks reload icon on assistant message).
+  // The original request is replayed as sent (attachments, options, model) and the new answer
+  // is stored as another version of this one.
   const handleRegenerateMessage = (messageIndex: number) => {
     const message = messages[messageIndex];
 
     // Only regenerate assistant messages
     if (message.role !== 'assistant') {
-      console.warn('Can only regenerate assistant messages');
+      log.warn('Can only regenerate assistant messages');
       return;
     }
 
@@ -281,19 +526,53 @@ const ChatWindow: React.FC = () => {
     }
 
     if (userMessageIndex === -1) {
-      console.warn('No user message found to regenerate from');
+      log.warn('No user message found to regenerate from');
       return;
     }
 
     const userMessage = messages[userMessageIndex];
+    if (!session || !user || userMessage.id < 0) {
+      // Not persisted yet: the backend has nothing to answer again
+      log.warn('Cannot regenerate before the message is saved');
+      return;
+    }
 
-    // Resend the user message
-    console.log('🔄 Regenerating response for message:', userMessage.content);
-    handleSendMessage(
-      userMessage.content,
-      [], // attachments - simplified for now
-      false // useRag - use default
-    );
+    const options = userMessage.request_options;
+    const model = options?.model ?? message.model_used;
+    const chatRequest: ChatRequest = {
+      user_id: user.id.toString(),
+      tenant_id: session.tenant_id,
+      message: userMessage.content,
+      attachments: toRequestAttachments(parseAttachments(userMessage.attachments)),
+      use_rag: options?.use_rag ?? false,
+      use_pro_mode: options?.use_pro_mode ?? isProMode,
+      conversation_id: currentConversationId,
+      conversation_history: [],
+      regenerate_message_id: userMessage.id,
+      ...(model ? { model } : {}),
+    };
+
+    log.debug('Regenerating response for message', { id: userMessage.id });
+    // The previous answer stays reachable through the version navigation once the new one is saved
+    truncateMessagesFrom(message.id);
+    chatMutation.mutate(chatRequest);
+  };
+
+  // Edit an earlier user message: the conversation forks from the message before it
+  const handleEditMessage = (messageIndex: number, content: string) => {
+    const message = messages[messageIndex];
+    if (message.role !== 'user') return;
+
+    const parentMessageId = message.parent_id !== undefined
+      ? message.parent_id
+      : messageIndex > 0 ? messages[messageIndex - 1].id : null;
+    const attachments = parseAttachments(message.attachments);
+    // Resend with the options the original was sent with
+    const options = message.request_options;
+
+    log.debug('Resending edited message as a new branch', { id: message.id, parent_id: parentMessageId });
+    truncateMessagesFrom(message.id);
+    handleSendMessage(content, attachments, options?.use_rag ?? false, parentMessageId, options?.use_pro_mode ?? isProMode);
   };
 
   // Canvas handlers
@@ -315,25 +594,27 @@ const ChatWindow: React.FC = () => {
     sessionStorage.setItem('agent_is_search', isSearch.toString());
   };
 
-  const handleSaveAgentTask = (task: AgentTask) => {
-    AgentTaskService.saveTask(task);
+  const handleSaveAgentTask = async (task: AgentTaskFormValues) => {
+    try {
+      await createAgentTask(task);
+    } catch (error) {
+      alert(getUserFacingMessage(error, errorMessages));
+      return false;
+    }
     setShowAgentModal(false);
     setAgentInstructions('');
     sessionStorage.removeItem('agent_is_search');
 
     // Show confirmation
-    const taskType = task.isSearch
+    const taskType = task.is_search
       ? (language === 'en' ? 'search task' : 'tâche de recherche')
       : (language === 'en' ? 'task' : 'tâche');
     alert(
       language === 'en'
-        ? `Agent ${taskType} "${task.taskName}" scheduled successfully!`
-        : `${taskType} d'agent "${task.taskName}" planifiée avec succès !`
+        ? `Agent ${taskType} "${task.task_name}" scheduled successfully!`
+        : `${taskType} d'agent "${task.task_name}" planifiée avec succès !`
     );
-  };
-
-  const handleCloseAgentNotification = () => {
-    setAgentNotification(null);
+    return true;
   };
 
   // Clear prefilled question after it's been used
@@ -344,7 +625,7 @@ const ChatWindow: React.FC = () => {
   // Web search handler
   const handleWebSearch = async (query: string) => {
     if (!session || !user) {
-      console.error('❌ Cannot perform search: No session or user');
+      log.error('Cannot perform search: No session or user');
       return;
     }
 
@@ -360,10 +641,10 @@ const ChatWindow: React.FC = () => {
           ? query.substring(0, 47) + '...'
           : query;
 
-        console.log('🏷️ Auto-naming search conversation:', autoTitle);
+        log.debug('Auto-naming search conversation', { conversation_id: currentConversationId });
         await updateConversationTitle(currentConversationId, autoTitle);
       } catch (error) {
-        console.error('Failed to auto-name search conversation:', error);
+        log.error('Failed to auto-name search conversation', error);
         // Continue anyway, naming is not critical
       }
     }
@@ -377,7 +658,7 @@ const ChatWindow: React.FC = () => {
       conversation_id: currentConversationId,
     };
 
-    console.log('🔍 Sending web search request:', {
+    log.debug('Sending web search request', {
       user_id: user.id,
       conversation_id: currentConversationId,
       query,
@@ -422,6 +703,18 @@ const ChatWindow: React.FC = () => {
               <ModelSelector />
             </div>
             <div className="flex items-center gap-2">
+              {/* Share the open conversation as a read-only link */}
+              {currentConversationId && currentModel !== 'ocr' && currentModel !== 'orion-assist' && (
+                <button
+                  onClick={() => setShowShareModal(true)}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded-lg transition text-sm font-medium hover:bg-gray-100"
+                  style={{ color: '#003A70' }}
+                  title={translations[language].share.title}
+                >
+                  <Share2 className="w-4 h-4" />
+                  <span className="hidden sm:inline">{translations[language].share.button}</span>
+                </button>
+              )}
               {/* Language Toggle/Selector */}
               {isLawyer ? (
                 /* Dropdown for lawyers with Arabic option */
@@ -560,19 +853,35 @@ const ChatWindow: React.FC = () => {
               {/* Messages */}
               <MessageList
                 messages={messages}
-                isLoading={chatMutation.isLoading || searchMutation.isLoading}
+                isLoading={chatMutation.isLoading || searchMutation.isLoading || routeMutation.isLoading}
+                streamingContent={streamingContent}
+                outboxMessages={currentOutboxMessages}
+                routingMessages={currentRoutingMessages}
+                hasEarlierMessages={hasEarlierMessages}
+                isLoadingEarlier={loadingEarlierMessages}
+                onLoadEarlier={loadEarlierMessages}
+                focusedMessageId={focusedMessageId}
+                onFocusedMessageShown={clearFocusedMessage}
                 onRegenerateMessage={handleRegenerateMessage}
+                onEditMessage={handleEditMessage}
+                onSwitchBranch={switchBranch}
+                onRetryOutboxMessage={retryOutboxMessage}
+                onDiscardOutboxMessage={discardOutboxMessage}
+                onEndpointResult={handleEndpointResult}
               />
 
               {/* Input */}
               <div className="absolute bottom-0 left-0 right-0 z-10 md:z-20 pointer-events-none">
                 <div className="pointer-events-auto">
+                  <PendingJobs jobs={jobs} onDismiss={dismissJob} />
                   <MessageInput
                     onSendMessage={handleSendMessage}
                     onScheduleAgent={handleScheduleAgent}
                     onWebSearch={handleWebSearch}
-                    disabled={chatMutation.isLoading || searchMutation.isLoading}
-                    hasMessages={messages.length > 0}
+                    disabled={chatMutation.isLoading || searchMutation.isLoading || routeMutation.isLoading}
+                    isGenerating={chatMutation.isLoading || searchMutation.isLoading}
+                    onStopGenerating={handleStopGenerating}
+                    hasMessages={messages.length > 0 || currentRoutingMessages.length > 0}
                     prefilledMessage={prefilledQuestion}
                     onPrefilledMessageUsed={handlePrefilledQuestionUsed}
                   />
@@ -616,6 +925,16 @@ const ChatWindow: React.FC = () => {
         onClose={() => setShowPulseModal(false)}
       />
 
+      {/* Share Feature */}
+      {user && currentConversationId && (
+        <ShareConversationModal
+          userId={user.id}
+          conversationId={currentConversationId}
+          isOpen={showShareModal}
+          onClose={() => setShowShareModal(false)}
+        />
+      )}
+
       {/* Agent Feature */}
       <AgentScheduleModal
         isOpen={showAgentModal}
@@ -628,10 +947,6 @@ const ChatWindow: React.FC = () => {
         initialInstructions={agentInstructions}
         isSearchMode={sessionStorage.getItem('agent_is_search') === 'true'}
       />
-      <AgentNotification
-        notification={agentNotification}
-        onClose={handleCloseAgentNotification}
-      />
     </>
   );
 };
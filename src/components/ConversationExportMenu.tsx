@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from 'react-query';
+import { Download } from 'lucide-react';
+import { getConversationDetails } from '../api/orcha';
+import { queryKeys } from '../api/queryKeys';
+import { useLanguage } from '../context/LanguageContext';
+import { ConversationExportService } from '../services/conversationExportService';
+import { createLogger } from '../services/logger';
+import { translations } from '../translations';
+import type { ExportFormat } from '../types/orcha';
+
+const log = createLogger('export');
+
+const FORMATS: ExportFormat[] = ['markdown', 'pdf', 'docx', 'json'];
+
+interface ConversationExportMenuProps {
+  userId: number;
+  conversationId: number;
+  className?: string;
+}
+
+/**
+ * Export button for a conversation row. Loads the full conversation (served from the cache
+ * when fresh) and hands it to ConversationExportService in the chosen format.
+ */
+const ConversationExportMenu: React.FC<ConversationExportMenuProps> = ({ userId, conversationId, className = '' }) => {
+  const { language } = useLanguage();
+  const t = translations[language].export;
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setExporting(true);
+    setFailed(false);
+    try {
+      const conversation = await queryClient.fetchQuery(
+        queryKeys.conversation(userId, conversationId),
+        () => getConversationDetails(userId, conversationId)
+      );
+      ConversationExportService.export(format, conversation, conversation.messages ?? []);
+      setIsOpen(false);
+    } catch (error) {
+      log.error('Failed to export conversation', error);
+      setFailed(true);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={`relative flex-shrink-0 ${className}`} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => {
+          setFailed(false);
+          setIsOpen(open => !open);
+        }}
+        className="p-1 rounded text-white/60 hover:text-white transition"
+        title={t.title}
+      >
+        <Download className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-48 rounded-lg border border-white/10 bg-gray-900 shadow-xl py-1 text-sm">
+          {FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={(e) => handleExport(format, e)}
+              disabled={exporting}
+              className="w-full text-left px-3 py-2 text-white/80 hover:bg-white/10 hover:text-white disabled:text-white/30 transition"
+            >
+              {t[format]}
+            </button>
+          ))}
+          {(exporting || failed) && (
+            <p className={`px-3 py-1.5 text-xs border-t border-white/10 ${failed ? 'text-red-300' : 'text-white/50'}`}>
+              {failed ? t.failed : t.exporting}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationExportMenu;
@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from 'react-query';
+import { Upload, X } from 'lucide-react';
+import { importConversations, saveMemory } from '../api/orcha';
+import { getUserFacingMessage } from '../api/errors';
+import { queryKeys } from '../api/queryKeys';
+import { useLanguage } from '../context/LanguageContext';
+import { ConversationImportService, type ImportParseResult, type ImportPreviewItem } from '../services/conversationImportService';
+import { createLogger } from '../services/logger';
+import { translations } from '../translations';
+
+const log = createLogger('import');
+
+// Conversations sent per request, so one huge history does not become one huge payload
+const IMPORT_BATCH_SIZE = 20;
+
+type ImportStep = 'select' | 'preview' | 'importing' | 'done';
+
+interface ConversationImportModalProps {
+  userId: number;
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Import conversations from our JSON export or ChatGPT's conversations.json:
+ * pick files, review what will be created, then create everything through the API.
+ */
+const ConversationImportModal: React.FC<ConversationImportModalProps> = ({ userId, isOpen, onClose, onImported }) => {
+  const { language } = useLanguage();
+  const t = translations[language].import;
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<ImportStep>('select');
+  const [parsed, setParsed] = useState<ImportParseResult>({ items: [], errors: [] });
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [addToMemory, setAddToMemory] = useState(true);
+  const [progress, setProgress] = useState(0);
+  const [importedCount, setImportedCount] = useState(0);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Start over each time the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      setStep('select');
+      setParsed({ items: [], errors: [] });
+      setSelectedKeys(new Set());
+      setProgress(0);
+      setImportedCount(0);
+      setImportError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const results = await Promise.all(
+      Array.from(files).map(async file => ConversationImportService.parse(file.name, await file.text()))
+    );
+    const merged: ImportParseResult = {
+      items: results.flatMap(result => result.items),
+      errors: results.flatMap(result => result.errors),
+    };
+    setParsed(merged);
+    setSelectedKeys(new Set(merged.items.map(item => item.key)));
+    setStep('preview');
+  };
+
+  const toggleItem = (key: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const selected = parsed.items.filter(item => selectedKeys.has(item.key));
+    if (selected.length === 0) return;
+
+    setStep('importing');
+    setImportError(null);
+    let imported = 0;
+
+    try {
+      for (let start = 0; start < selected.length; start += IMPORT_BATCH_SIZE) {
+        const batch = selected.slice(start, start + IMPORT_BATCH_SIZE);
+        const response = await importConversations(userId, batch.map(item => item.conversation));
+        imported += response.conversations.length;
+        setImportedCount(imported);
+        setProgress(Math.round(((start + batch.length) / selected.length) * 100));
+
+        if (addToMemory) {
+          await saveImportedMemories(batch, response.conversations.map(c => c.id));
+        }
+      }
+    } catch (error) {
+      log.error('Conversation import failed', error);
+      setImportError(getUserFacingMessage(error, translations[language].errors));
+    }
+
+    if (imported > 0) {
+      onImported();
+      if (addToMemory) queryClient.invalidateQueries(queryKeys.memory(userId));
+    }
+    setStep('done');
+  };
+
+  // Memory entries are a best-effort extra: a failure does not undo the import
+  const saveImportedMemories = async (batch: ImportPreviewItem[], conversationIds: number[]) => {
+    for (let i = 0; i < batch.length; i++) {
+      const content = ConversationImportService.toMemoryContent(batch[i].conversation);
+      if (!content) continue;
+      try {
+        await saveMemory(userId, content, {
+          title: batch[i].conversation.title,
+          conversation_id: conversationIds[i] ?? null,
+          source: 'import',
+          tags: ['import', batch[i].source],
+        });
+      } catch (error) {
+        log.warn('Failed to save imported memory', error);
+      }
+    }
+  };
+
+  const selectedCount = parsed.items.filter(item => selectedKeys.has(item.key)).length;
+  const errorLabel = (message: string) =>
+    message === 'invalid_json' ? t.invalidJson : message === 'empty' ? t.emptyFile : t.unsupportedFormat;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={step === 'importing' ? undefined : onClose}
+    >
+      <div
+        className="bg-white rounded-xl w-full max-w-2xl max-h-[80vh] overflow-hidden flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-800">{t.title}</h2>
+          <button
+            onClick={onClose}
+            disabled={step === 'importing'}
+            className="p-1.5 text-gray-400 hover:text-gray-600 disabled:opacity-40 rounded-lg transition"
+            aria-label={t.close}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          {step === 'select' && (
+            <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-gray-300 rounded-xl py-10 cursor-pointer hover:border-indigo-400 hover:bg-indigo-50/40 transition">
+              <Upload className="w-8 h-8 text-gray-400" />
+              <span className="text-sm font-medium text-gray-700">{t.chooseFiles}</span>
+              <span className="text-xs text-gray-500 text-center px-6">{t.supportedFormats}</span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                multiple
+                className="hidden"
+                onChange={(e) => handleFiles(e.target.files)}
+              />
+            </label>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-3">
+              {parsed.errors.map(error => (
+                <p key={error.fileName} className="text-sm text-red-600 bg-red-50 rounded-lg px-3 py-2">
+                  {error.fileName}: {errorLabel(error.message)}
+                </p>
+              ))}
+
+              {parsed.items.length > 0 && (
+                <>
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>{selectedCount} / {parsed.items.length} {t.selected}</span>
+                    <button
+                      onClick={() => setSelectedKeys(
+                        selectedCount === parsed.items.length ? new Set() : new Set(parsed.items.map(item => item.key))
+                      )}
+                      className="text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                      {selectedCount === parsed.items.length ? t.selectNone : t.selectAll}
+                    </button>
+                  </div>
+
+                  <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                    {parsed.items.map(item => (
+                      <li key={item.key}>
+                        <label className="flex items-center gap-3 px-3 py-2.5 cursor-pointer hover:bg-gray-50">
+                          <input
+                            type="checkbox"
+                            checked={selectedKeys.has(item.key)}
+                            onChange={() => toggleItem(item.key)}
+                            className="rounded text-indigo-600"
+                          />
+                          <span className="flex-1 min-w-0">
+                            <span className="block text-sm text-gray-800 truncate">{item.conversation.title || t.untitled}</span>
+                            <span className="block text-xs text-gray-400">
+                              {item.conversation.messages.length} {t.messages}
+                              {item.conversation.created_at && ` · ${new Date(item.conversation.created_at).toLocaleDateString()}`}
+                            </span>
+                          </span>
+                          <span className="text-[10px] uppercase tracking-wide text-gray-500 bg-gray-100 rounded px-1.5 py-0.5">
+                            {item.source === 'chatgpt' ? 'ChatGPT' : 'Orion'}
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={addToMemory}
+                      onChange={(e) => setAddToMemory(e.target.checked)}
+                      className="rounded text-indigo-600"
+                    />
+                    {t.addToMemory}
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <div className="py-8 space-y-3">
+              <p className="text-sm text-gray-600 text-center">{t.importing} ({importedCount})</p>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }} />
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="py-8 text-center space-y-2">
+              <p className="text-sm text-gray-800">{importedCount} {t.imported}</p>
+              {importError && <p className="text-sm text-red-600">{importError}</p>}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {(step === 'preview' || step === 'done') && (
+          <div className="px-5 py-3 border-t border-gray-200 flex justify-end gap-2">
+            {step === 'preview' ? (
+              <>
+                <button
+                  onClick={() => setStep('select')}
+                  className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition"
+                >
+                  {t.back}
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={selectedCount === 0}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 rounded-lg transition"
+                >
+                  {t.importAction} ({selectedCount})
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition"
+              >
+                {t.close}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationImportModal;
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import {
+  getLogLevel,
+  getRecentTraces,
+  setLogLevel,
+  subscribeToTraces,
+  type LogLevel,
+  type TraceRecord,
+} from '../services/logger';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Support panel listing the trace IDs (`x-trace-id`) of recent requests.
+ * Toggled with Ctrl+Shift+D so users can copy them into a support ticket.
+ */
+const DiagnosticsPanel: React.FC = () => {
+  const { language } = useLanguage();
+  const t = translations[language].diagnostics;
+  const [isOpen, setIsOpen] = useState(false);
+  const [traces, setTraces] = useState<TraceRecord[]>(getRecentTraces);
+  const [level, setLevel] = useState<LogLevel>(getLogLevel);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => subscribeToTraces(setTraces), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey && event.shiftKey && event.key.toLowerCase() === 'd') {
+        event.preventDefault();
+        setIsOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  if (!isOpen) return null;
+
+  const handleCopy = async (id: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      // Clipboard unavailable (insecure context): the IDs stay selectable in the list
+    }
+  };
+
+  const handleLevelChange = (newLevel: LogLevel) => {
+    setLogLevel(newLevel);
+    setLevel(newLevel);
+  };
+
+  const allTraces = traces
+    .map(trace => `${trace.at} ${trace.method} ${trace.path} ${trace.status ?? '-'} ${trace.traceId}`)
+    .join('\n');
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[100] w-[min(32rem,calc(100vw-2rem))] max-h-[70vh] flex flex-col bg-white rounded-xl shadow-2xl border border-gray-200 text-sm">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <h2 className="font-semibold text-gray-800">{t.title}</h2>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-500" htmlFor="diagnostics-log-level">{t.logLevel}</label>
+          <select
+            id="diagnostics-log-level"
+            value={level}
+            onChange={(e) => handleLevelChange(e.target.value as LogLevel)}
+            className="text-xs border border-gray-200 rounded px-1 py-0.5"
+          >
+            {LOG_LEVELS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => handleCopy('all', allTraces)}
+            disabled={traces.length === 0}
+            className="text-xs text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+          >
+            {copiedId === 'all' ? t.copied : t.copyAll}
+          </button>
+          <button
+            onClick={() => setIsOpen(false)}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label={t.close}
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto">
+        {traces.length === 0 ? (
+          <p className="px-4 py-6 text-center text-gray-500">{t.empty}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {traces.map(trace => (
+              <li key={`${trace.traceId}-${trace.at}`} className="px-4 py-2 flex items-center gap-3">
+                <span
+                  className={`w-10 text-xs font-mono text-center rounded ${trace.status !== null && trace.status < 400 ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'
+                    }`}
+                >
+                  {trace.status ?? '—'}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-gray-800">
+                    <span className="font-medium">{trace.method}</span> {trace.path}
+                  </p>
+                  <p className="font-mono text-xs text-gray-500 truncate select-all">{trace.traceId}</p>
+                </div>
+                <span className="text-xs text-gray-400 whitespace-nowrap">
+                  {new Date(trace.at).toLocaleTimeString()} · {trace.durationMs} ms
+                </span>
+                <button
+                  onClick={() => handleCopy(trace.traceId, trace.traceId)}
+                  className="text-xs text-indigo-600 hover:text-indigo-800"
+                >
+                  {copiedId === trace.traceId ? t.copied : t.copy}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <p className="px-4 py-2 border-t border-gray-100 text-xs text-gray-400">{t.hint}</p>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
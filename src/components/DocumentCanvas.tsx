@@ -1,5 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useLanguage } from '../context/LanguageContext';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('DocumentCanvas');
 
 interface DocumentCanvasProps {
   content: string;
@@ -24,7 +27,7 @@ const DocumentCanvas: React.FC<DocumentCanvasProps> = ({ content, onClose, onCon
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
-      console.error('Failed to copy:', error);
+      log.error('Failed to copy', error);
     }
   };
 
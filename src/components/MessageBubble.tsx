@@ -3,11 +3,18 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import type { ChatMessage, Attachment } from '../types/orcha';
 import { useLanguage } from '../context/LanguageContext';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('MessageBubble');
 
 interface MessageBubbleProps {
   message: ChatMessage;
   currentModel?: string;
   onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  onSwitchBranch?: (messageId: number) => void;
+  isStreaming?: boolean;
+  readOnly?: boolean; // Shared snapshots: only copying is offered
 }
 
 // Function to parse markdown bold (**text**) and render as bold
@@ -127,7 +134,7 @@ const CodeBlock: React.FC<{ language: string; code: string }> = ({ language, cod
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
-      console.error('Failed to copy code:', error);
+      log.error('Failed to copy code', error);
     }
   };
 
@@ -190,13 +197,59 @@ const parseMarkdown = (text: string) => {
   return withItalics;
 };
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onRegenerate }) => {
+// "< 2/3 >" navigation between the alternative versions of a message
+const BranchNavigator: React.FC<{ messageId: number; siblingIds: number[]; onSwitch: (messageId: number) => void }> = ({ messageId, siblingIds, onSwitch }) => {
+  const index = siblingIds.indexOf(messageId);
+  if (index === -1) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500 select-none">
+      <button
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        disabled={index === 0}
+        className="px-1 rounded hover:text-gray-800 disabled:opacity-30"
+        aria-label="Previous version"
+      >
+        ‹
+      </button>
+      <span>{index + 1}/{siblingIds.length}</span>
+      <button
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        disabled={index === siblingIds.length - 1}
+        className="px-1 rounded hover:text-gray-800 disabled:opacity-30"
+        aria-label="Next version"
+      >
+        ›
+      </button>
+    </div>
+  );
+};
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onRegenerate, onEdit, onSwitchBranch, isStreaming = false, readOnly = false }) => {
   const isUser = message.role === 'user';
   const isError = message.role === 'system'; // Treat system messages as errors for now
   const isAssistant = message.role === 'assistant';
   const { language } = useLanguage();
   const [copied, setCopied] = useState(false);
   const [liked, setLiked] = useState<boolean | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const hasBranches = !!onSwitchBranch && (message.sibling_ids?.length ?? 0) > 1;
+
+  const handleStartEdit = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  // Resending an edit forks the conversation: the original stays reachable as another version
+  const handleSubmitEdit = () => {
+    const content = draft.trim();
+    if (!content || !onEdit) return;
+    setIsEditing(false);
+    if (content !== message.content) {
+      onEdit(content);
+    }
+  };
 
   // Copy message content to clipboard
   const handleCopy = async () => {
@@ -205,7 +258,7 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onRegenerate })
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
-      console.error('Failed to copy:', error);
+      log.error('Failed to copy', error);
     }
   };
 
@@ -221,157 +274,218 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onRegenerate })
       {/* OpenCare Avatar - only for assistant messages */}
 
       <div className={`max-w-[95%] sm:max-w-[85%] md:max-w-[80%] ${isUser ? 'items-end' : 'items-start'} flex flex-col`}>
-        <div
-          className={`px-3 sm:px-4 py-3 rounded-2xl break-words overflow-hidden ${isUser
-            ? 'bg-[#558EFA]/80 text-white rounded-br-md backdrop-blur-md border border-white/20 shadow-lg shadow-blue-900/40 transform transition-transform duration-300 group-hover:-translate-y-0.5'
-            : isError
-              ? 'bg-red-50 text-red-800 border border-red-200 rounded-bl-md'
-              : 'bg-gray-100 text-gray-900 rounded-bl-md'
-            }`}
-        >
-          {/* Image Attachments */}
-          {(() => {
-            let attachments: Attachment[] = [];
-            try {
-              if (Array.isArray(message.attachments)) {
-                attachments = message.attachments;
-              } else if (typeof message.attachments === 'string') {
-                attachments = JSON.parse(message.attachments);
+        {isEditing ? (
+          <div className="w-full min-w-[16rem] sm:min-w-[24rem] bg-white border border-gray-200 rounded-2xl shadow-sm p-3">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSubmitEdit();
+                } else if (e.key === 'Escape') {
+                  setIsEditing(false);
+                }
+              }}
+              rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+              className="w-full resize-none text-sm text-gray-900 focus:outline-none"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2 mt-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1 text-xs rounded-lg text-gray-600 hover:bg-gray-100 transition"
+              >
+                {language === 'en' ? 'Cancel' : 'Annuler'}
+              </button>
+              <button
+                onClick={handleSubmitEdit}
+                disabled={!draft.trim()}
+                className="px-3 py-1 text-xs rounded-lg bg-[#558EFA] text-white hover:bg-[#4479e0] disabled:opacity-50 transition"
+              >
+                {language === 'en' ? 'Send' : 'Envoyer'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div
+            className={`px-3 sm:px-4 py-3 rounded-2xl break-words overflow-hidden ${isUser
+              ? 'bg-[#558EFA]/80 text-white rounded-br-md backdrop-blur-md border border-white/20 shadow-lg shadow-blue-900/40 transform transition-transform duration-300 group-hover:-translate-y-0.5'
+              : isError
+                ? 'bg-red-50 text-red-800 border border-red-200 rounded-bl-md'
+                : 'bg-gray-100 text-gray-900 rounded-bl-md'
+              }`}
+          >
+            {/* Image Attachments */}
+            {(() => {
+              let attachments: Attachment[] = [];
+              try {
+                if (Array.isArray(message.attachments)) {
+                  attachments = message.attachments;
+                } else if (typeof message.attachments === 'string') {
+                  attachments = JSON.parse(message.attachments);
+                }
+              } catch (e) {
+                log.error('Failed to parse attachments', e);
               }
-            } catch (e) {
-              console.error('Failed to parse attachments:', e);
-            }
-
-            const images = attachments?.filter((att: Attachment) => att.type.startsWith('image/')) || [];
-
-            if (images.length > 0) {
-              return (
-                <div className={`mb-3 grid gap-2 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
-                  {images.map((img, idx) => (
-                    <div key={idx} className="relative group">
-                      <img
-                        src={img.uri || (img.data ? `data:${img.type};base64,${img.data}` : '')}
-                        alt={img.filename || 'Attached image'}
-                        className="rounded-lg max-w-full max-h-[300px] object-cover border border-white/10 shadow-sm"
-                      />
-                    </div>
-                  ))}
-                </div>
-              );
-            }
-            return null;
-          })()}
-
-          {isAssistant ? (
-            <div className="prose prose-sm max-w-none overflow-hidden">
-              <ReactMarkdown
-                remarkPlugins={[remarkGfm]}
-                components={{
-                  // Custom code block component with copy button
-                  code({ className, children, ...props }: any) {
-                    const match = /language-(\w+)/.exec(className || '');
-                    const language = match ? match[1] : 'text';
-                    const inline = !className?.includes('language-');
-
-                    if (!inline) {
-                      return (
-                        <CodeBlock
-                          language={language}
-                          code={String(children).replace(/\n$/, '')}
+
+              const images = attachments?.filter((att: Attachment) => att.type.startsWith('image/')) || [];
+
+              if (images.length > 0) {
+                return (
+                  <div className={`mb-3 grid gap-2 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                    {images.map((img, idx) => (
+                      <div key={idx} className="relative group">
+                        <img
+                          src={img.preview_url || img.uri || (img.data ? `data:${img.type};base64,${img.data}` : '')}
+                          alt={img.filename || 'Attached image'}
+                          className="rounded-lg max-w-full max-h-[300px] object-cover border border-white/10 shadow-sm"
                         />
+                      </div>
+                    ))}
+                  </div>
+                );
+              }
+              return null;
+            })()}
+
+            {isAssistant ? (
+              <div className="prose prose-sm max-w-none overflow-hidden">
+                <ReactMarkdown
+                  remarkPlugins={[remarkGfm]}
+                  components={{
+                    // Custom code block component with copy button
+                    code({ className, children, ...props }: any) {
+                      const match = /language-(\w+)/.exec(className || '');
+                      const language = match ? match[1] : 'text';
+                      const inline = !className?.includes('language-');
+
+                      if (!inline) {
+                        return (
+                          <CodeBlock
+                            language={language}
+                            code={String(children).replace(/\n$/, '')}
+                          />
+                        );
+                      }
+
+                      return (
+                        <code className="bg-gray-100 text-gray-800 px-1 py-0.5 rounded text-sm font-mono" {...props}>
+                          {children}
+                        </code>
+                      );
+                    },
+                    // Style tables
+                    table({ children }) {
+                      return (
+                        <div className="overflow-x-auto my-4 -mx-2 sm:mx-0">
+                          <table className="min-w-full border border-gray-300 rounded-lg">
+                            {children}
+                          </table>
+                        </div>
                       );
-                    }
-
-                    return (
-                      <code className="bg-gray-100 text-gray-800 px-1 py-0.5 rounded text-sm font-mono" {...props}>
-                        {children}
-                      </code>
-                    );
-                  },
-                  // Style tables
-                  table({ children }) {
-                    return (
-                      <div className="overflow-x-auto my-4 -mx-2 sm:mx-0">
-                        <table className="min-w-full border border-gray-300 rounded-lg">
+                    },
+                    thead({ children }) {
+                      return <thead className="bg-gray-50">{children}</thead>;
+                    },
+                    th({ children }) {
+                      return (
+                        <th className="px-2 sm:px-4 py-2 text-left text-xs sm:text-sm font-semibold text-gray-900 border-b border-gray-300 break-words">
                           {children}
-                        </table>
-                      </div>
-                    );
-                  },
-                  thead({ children }) {
-                    return <thead className="bg-gray-50">{children}</thead>;
-                  },
-                  th({ children }) {
-                    return (
-                      <th className="px-2 sm:px-4 py-2 text-left text-xs sm:text-sm font-semibold text-gray-900 border-b border-gray-300 break-words">
-                        {children}
-                      </th>
-                    );
-                  },
-                  td({ children }) {
-                    return (
-                      <td className="px-2 sm:px-4 py-2 text-xs sm:text-sm text-gray-700 border-b border-gray-200 break-words">
-                        {children}
-                      </td>
-                    );
-                  },
-                  // Style blockquotes
-                  blockquote({ children }) {
-                    return (
-                      <blockquote className="border-l-4 border-blue-500 pl-3 sm:pl-4 py-2 my-4 bg-blue-50 text-gray-700 italic break-words">
-                        {children}
-                      </blockquote>
-                    );
-                  },
-                  // Style lists
-                  ul({ children }) {
-                    return <ul className="list-disc list-inside my-2 space-y-1 break-words">{children}</ul>;
-                  },
-                  ol({ children }) {
-                    return <ol className="list-decimal list-inside my-2 space-y-1 break-words">{children}</ol>;
-                  },
-                  li({ children }) {
-                    return <li className="break-words">{children}</li>;
-                  },
-                  // Style headings
-                  h1({ children }) {
-                    return <h1 className="text-lg sm:text-xl font-bold my-3 text-gray-900 break-words">{children}</h1>;
-                  },
-                  h2({ children }) {
-                    return <h2 className="text-base sm:text-lg font-semibold my-2 text-gray-900 break-words">{children}</h2>;
-                  },
-                  h3({ children }) {
-                    return <h3 className="text-sm sm:text-base font-semibold my-2 text-gray-900 break-words">{children}</h3>;
-                  },
-                  // Style paragraphs
-                  p({ children }) {
-                    return <p className="my-2 leading-relaxed break-words">{children}</p>;
-                  },
-                }}
+                        </th>
+                      );
+                    },
+                    td({ children }) {
+                      return (
+                        <td className="px-2 sm:px-4 py-2 text-xs sm:text-sm text-gray-700 border-b border-gray-200 break-words">
+                          {children}
+                        </td>
+                      );
+                    },
+                    // Style blockquotes
+                    blockquote({ children }) {
+                      return (
+                        <blockquote className="border-l-4 border-blue-500 pl-3 sm:pl-4 py-2 my-4 bg-blue-50 text-gray-700 italic break-words">
+                          {children}
+                        </blockquote>
+                      );
+                    },
+                    // Style lists
+                    ul({ children }) {
+                      return <ul className="list-disc list-inside my-2 space-y-1 break-words">{children}</ul>;
+                    },
+                    ol({ children }) {
+                      return <ol className="list-decimal list-inside my-2 space-y-1 break-words">{children}</ol>;
+                    },
+                    li({ children }) {
+                      return <li className="break-words">{children}</li>;
+                    },
+                    // Style headings
+                    h1({ children }) {
+                      return <h1 className="text-lg sm:text-xl font-bold my-3 text-gray-900 break-words">{children}</h1>;
+                    },
+                    h2({ children }) {
+                      return <h2 className="text-base sm:text-lg font-semibold my-2 text-gray-900 break-words">{children}</h2>;
+                    },
+                    h3({ children }) {
+                      return <h3 className="text-sm sm:text-base font-semibold my-2 text-gray-900 break-words">{children}</h3>;
+                    },
+                    // Style paragraphs
+                    p({ children }) {
+                      return <p className="my-2 leading-relaxed break-words">{children}</p>;
+                    },
+                  }}
+                >
+                  {message.content}
+                </ReactMarkdown>
+              </div>
+            ) : (
+              <p className="whitespace-pre-wrap break-words">
+                {parseMarkdown(message.content)}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Edit and version navigation for user messages */}
+        {isUser && !isEditing && (onEdit || hasBranches) && (
+          <div className="flex items-center gap-2 mt-1">
+            {hasBranches && (
+              <BranchNavigator messageId={message.id} siblingIds={message.sibling_ids!} onSwitch={onSwitchBranch!} />
+            )}
+            {onEdit && (
+              <button
+                onClick={handleStartEdit}
+                className="p-1 rounded-lg text-gray-400 hover:text-blue-600 transition-all duration-200 opacity-100 sm:opacity-0 sm:group-hover:opacity-100"
+                title={language === 'en' ? 'Edit message' : 'Modifier le message'}
               >
-                {message.content}
-              </ReactMarkdown>
-            </div>
-          ) : (
-            <p className="whitespace-pre-wrap break-words">
-              {parseMarkdown(message.content)}
-            </p>
-          )}
-        </div>
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536A2 2 0 0111.12 17.12L8 18l.88-3.12A2 2 0 019 13z" />
+                </svg>
+              </button>
+            )}
+          </div>
+        )}
 
-        {/* Action buttons for assistant messages */}
-        {isAssistant && (
+        {/* Action buttons for assistant messages (hidden while the response is still streaming) */}
+        {isAssistant && !isStreaming && (
           <div className="flex items-center gap-2 mt-2">
+            {hasBranches && (
+              <BranchNavigator messageId={message.id} siblingIds={message.sibling_ids!} onSwitch={onSwitchBranch!} />
+            )}
+
             {/* Regenerate/Reload button */}
-            <button
-              onClick={handleRegenerate}
-              className="p-1.5 rounded-lg bg-white/40 backdrop-blur-sm border border-white/20 shadow-sm text-gray-500 hover:text-blue-600 hover:bg-blue-50/50 transition-all duration-200"
-              title={language === 'en' ? 'Regenerate response' : 'Régénérer la réponse'}
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-              </svg>
-            </button>
+            {!readOnly && (
+              <button
+                onClick={handleRegenerate}
+                className="p-1.5 rounded-lg bg-white/40 backdrop-blur-sm border border-white/20 shadow-sm text-gray-500 hover:text-blue-600 hover:bg-blue-50/50 transition-all duration-200"
+                title={language === 'en' ? 'Regenerate response' : 'Régénérer la réponse'}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </button>
+            )}
 
             {/* Copy button */}
             <button
@@ -390,33 +504,38 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onRegenerate })
               )}
             </button>
 
-            {/* Like button */}
-            <button
-              onClick={() => setLiked(liked === true ? null : true)}
-              className={`p-1.5 rounded-lg backdrop-blur-sm border shadow-sm transition-all duration-200 ${liked === true
-                ? 'bg-blue-500/10 border-blue-200/50 text-blue-600'
-                : 'bg-white/40 border-white/20 text-gray-500 hover:text-blue-600 hover:bg-blue-50/50'
-                }`}
-              title={language === 'en' ? 'Like' : 'J\'aime'}
-            >
-              <svg className="w-4 h-4" fill={liked === true ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
-              </svg>
-            </button>
-
-            {/* Dislike button */}
-            <button
-              onClick={() => setLiked(liked === false ? null : false)}
-              className={`p-1.5 rounded-lg backdrop-blur-sm border shadow-sm transition-all duration-200 ${liked === false
-                ? 'bg-red-500/10 border-red-200/50 text-red-600'
-                : 'bg-white/40 border-white/20 text-gray-500 hover:text-red-600 hover:bg-red-50/50'
-                }`}
-              title={language === 'en' ? 'Dislike' : 'Je n\'aime pas'}
-            >
-              <svg className="w-4 h-4" fill={liked === false ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
-              </svg>
-            </button>
+            {/* Feedback buttons */}
+            {!readOnly && (
+              <>
+                {/* Like button */}
+                <button
+                  onClick={() => setLiked(liked === true ? null : true)}
+                  className={`p-1.5 rounded-lg backdrop-blur-sm border shadow-sm transition-all duration-200 ${liked === true
+                    ? 'bg-blue-500/10 border-blue-200/50 text-blue-600'
+                    : 'bg-white/40 border-white/20 text-gray-500 hover:text-blue-600 hover:bg-blue-50/50'
+                    }`}
+                  title={language === 'en' ? 'Like' : 'J\'aime'}
+                >
+                  <svg className="w-4 h-4" fill={liked === true ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+                  </svg>
+                </button>
+
+                {/* Dislike button */}
+                <button
+                  onClick={() => setLiked(liked === false ? null : false)}
+                  className={`p-1.5 rounded-lg backdrop-blur-sm border shadow-sm transition-all duration-200 ${liked === false
+                    ? 'bg-red-500/10 border-red-200/50 text-red-600'
+                    : 'bg-white/40 border-white/20 text-gray-500 hover:text-red-600 hover:bg-red-50/50'
+                    }`}
+                  title={language === 'en' ? 'Dislike' : 'Je n\'aime pas'}
+                >
+                  <svg className="w-4 h-4" fill={liked === false ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
+                  </svg>
+                </button>
+              </>
+            )}
           </div>
         )}
 
@@ -6,7 +6,13 @@ import { useAuth } from '../context/AuthContext';
 import { useSession } from '../context/SessionContext';
 import { translations } from '../translations';
 import { extractOCRText } from '../api/orcha';
+import { isRequestCancelled } from '../api/client';
+import { getUserFacingMessage } from '../api/errors';
 import AttachmentChip from './AttachmentChip';
+import { useAttachmentUploads } from '../hooks/useAttachmentUploads';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('MessageInput');
 
 interface MessageInputProps {
   onSendMessage: (message: string, attachments: Attachment[], useRag: boolean) => void;
@@ -16,11 +22,12 @@ interface MessageInputProps {
   hasMessages?: boolean;
   prefilledMessage?: string;
   onPrefilledMessageUsed?: () => void;
+  isGenerating?: boolean;
+  onStopGenerating?: () => void;
 }
 
-const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAgent, onWebSearch, disabled = false, hasMessages = false, prefilledMessage, onPrefilledMessageUsed }) => {
+const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAgent, onWebSearch, disabled = false, hasMessages = false, prefilledMessage, onPrefilledMessageUsed, isGenerating = false, onStopGenerating }) => {
   const [message, setMessage] = useState('');
-  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [useRag] = useState(false);
   const [showAttachmentMenu, setShowAttachmentMenu] = useState(false);
   const [ocrMode, setOcrMode] = useState(false);
@@ -32,11 +39,19 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
   const ocrFileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const ocrAbortControllerRef = useRef<AbortController | null>(null);
   const { language } = useLanguage();
   const { user } = useAuth();
   const { session } = useSession();
   const t = translations[language].input;
 
+  // Failed uploads are dropped from the attachment list and reported to the user
+  const handleUploadError = (file: File, error: unknown) => {
+    log.error('Failed to upload file', error);
+    alert(`${language === 'en' ? 'Failed to upload' : 'Échec de l\'envoi de'} ${file.name}: ${getUserFacingMessage(error, translations[language].errors)}`);
+  };
+  const { attachments, addFiles, removeAttachment, clearAttachments, discardAttachments, isUploading } = useAttachmentUploads(handleUploadError);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -64,25 +79,35 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
 
   // OCR extraction mutation
   const ocrMutation = useMutation(
-    async (payload: OCRExtractRequest) => extractOCRText(payload),
+    async (payload: OCRExtractRequest) => {
+      ocrAbortControllerRef.current = new AbortController();
+      return extractOCRText(payload, ocrAbortControllerRef.current.signal);
+    },
     {
       onSuccess: (data) => {
         if (data.status === 'success' && data.extracted_text) {
           setExtractedOCRText(data.extracted_text);
-          console.log('✅ OCR extraction successful');
+          log.debug('OCR extraction succeeded');
         } else {
-          console.error('❌ OCR extraction failed:', data.error);
+          log.error('OCR extraction failed', data.error);
           alert(language === 'en' ? 'Failed to extract text from image' : 'Échec de l\'extraction du texte de l\'image');
           setOcrMode(false);
           setExtractedOCRText('');
         }
       },
       onError: (error: any) => {
-        console.error('OCR extraction error:', error);
+        if (isRequestCancelled(error)) {
+          log.debug('OCR extraction cancelled');
+          return;
+        }
+        log.error('OCR extraction error', error);
         alert(language === 'en' ? 'Failed to extract text from image' : 'Échec de l\'extraction du texte de l\'image');
         setOcrMode(false);
         setExtractedOCRText('');
       },
+      onSettled: () => {
+        ocrAbortControllerRef.current = null;
+      },
     }
   );
 
@@ -100,42 +125,16 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
     });
   };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
 
-    try {
-      // Read files and convert to base64
-      const filePromises = Array.from(files).map(async (file) => {
-        const base64Data = await readFileAsBase64(file);
-        const attachment: Attachment = {
-          uri: URL.createObjectURL(file), // For preview in UI
-          type: file.type,
-          filename: file.name,
-          data: base64Data, // Base64 encoded file data
-          size: file.size,
-        };
-        return attachment;
-      });
-
-      const newAttachments = await Promise.all(filePromises);
-      setAttachments((prev) => [...prev, ...newAttachments]);
-
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+    // Upload right away; the chat payload only carries the returned file_uri
+    addFiles(files);
 
-      console.log('📎 Files attached:', newAttachments.map(a => ({
-        name: a.filename,
-        size: a.size,
-        type: a.type,
-        hasData: !!a.data,
-        dataLength: a.data?.length || 0
-      })));
-    } catch (error) {
-      console.error('Error reading files:', error);
-      alert('Failed to read files. Please try again.');
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
 
     setShowAttachmentMenu(false);
@@ -173,7 +172,7 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
       // Call OCR extraction
       ocrMutation.mutate(ocrRequest);
     } catch (error) {
-      console.error('Failed to process image:', error);
+      log.error('Failed to process image', error);
       alert(language === 'en' ? 'Failed to process image' : 'Échec du traitement de l\'image');
     }
 
@@ -184,17 +183,13 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
   };
 
   const handleRemoveAttachment = (index: number) => {
-    setAttachments((prev) => {
-      // Clean up object URL to prevent memory leaks
-      const attachment = prev[index];
-      if (attachment.uri.startsWith('blob:')) {
-        URL.revokeObjectURL(attachment.uri);
-      }
-      return prev.filter((_, i) => i !== index);
-    });
+    removeAttachment(index);
   };
 
   const handleSend = () => {
+    // Wait until every attachment has its file_uri
+    if (isUploading) return;
+
     const messageToSend = message.trim();
 
     // If Search mode is active, trigger web search
@@ -233,7 +228,7 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
     } else if (messageToSend || attachments.length > 0) {
       onSendMessage(messageToSend, attachments, useRag);
       setMessage('');
-      setAttachments([]);
+      clearAttachments();
     }
 
     // Keep useRag state as user might want to use it for multiple messages
@@ -256,7 +251,7 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
     setSearchMode(false);
     setShowAttachmentMenu(false);
     // Clear any existing attachments when switching to OCR mode
-    setAttachments([]);
+    discardAttachments();
   };
 
   const handleAgentClick = () => {
@@ -265,7 +260,7 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
     setSearchMode(false);
     setShowAttachmentMenu(false);
     // Clear any existing attachments when switching to Agent mode
-    setAttachments([]);
+    discardAttachments();
   };
 
   const handleSearchClick = () => {
@@ -274,10 +269,12 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
     setAgentMode(false);
     setShowAttachmentMenu(false);
     // Clear any existing attachments when switching to Search mode
-    setAttachments([]);
+    discardAttachments();
   };
 
   const handleCancelOCR = () => {
+    // Stop any extraction still in flight
+    ocrAbortControllerRef.current?.abort();
     setOcrMode(false);
     setExtractedOCRText('');
   };
@@ -530,23 +527,37 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
                 />
               </div>
 
-              {/* Send button */}
-              <button
-                onClick={handleSend}
-                disabled={disabled || (!message.trim() && attachments.length === 0 && (!ocrMode || !extractedOCRText)) || ocrMutation.isLoading}
-                className="group relative flex-shrink-0 text-white p-3 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-lg border border-white/25 shadow-lg shadow-cyan-900/30 bg-gradient-to-r from-[#00bcd4]/85 to-[#0097a7]/85 hover:from-[#00bcd4] hover:to-[#0097a7] overflow-hidden"
-                aria-label={t.sendMessage}
-                type="button"
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-                  />
-                </svg>
-              </button>
+              {/* Send button (becomes a stop button while a response is being generated) */}
+              {isGenerating && onStopGenerating ? (
+                <button
+                  onClick={onStopGenerating}
+                  className="group relative flex-shrink-0 text-white p-3 rounded-full transition-all duration-300 backdrop-blur-lg border border-white/25 shadow-lg shadow-red-900/30 bg-gradient-to-r from-red-500/85 to-red-600/85 hover:from-red-500 hover:to-red-600 overflow-hidden"
+                  aria-label={t.stopGenerating}
+                  title={t.stopGenerating}
+                  type="button"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                    <rect x="6" y="6" width="12" height="12" rx="2" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={disabled || isUploading || (!message.trim() && attachments.length === 0 && (!ocrMode || !extractedOCRText)) || ocrMutation.isLoading}
+                  className="group relative flex-shrink-0 text-white p-3 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-lg border border-white/25 shadow-lg shadow-cyan-900/30 bg-gradient-to-r from-[#00bcd4]/85 to-[#0097a7]/85 hover:from-[#00bcd4] hover:to-[#0097a7] overflow-hidden"
+                  aria-label={t.sendMessage}
+                  type="button"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                    />
+                  </svg>
+                </button>
+              )}
             </div>
 
 
@@ -789,23 +800,37 @@ const MessageInput: React.FC<MessageInputProps> = ({ onSendMessage, onScheduleAg
               />
             </div>
 
-            {/* Send button */}
-            <button
-              onClick={handleSend}
-              disabled={disabled || (!message.trim() && attachments.length === 0 && (!ocrMode || !extractedOCRText)) || ocrMutation.isLoading}
-              className="group relative flex-shrink-0 text-white p-3 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-lg border border-white/25 shadow-lg shadow-cyan-900/30 bg-gradient-to-r from-[#00bcd4]/85 to-[#0097a7]/85 hover:from-[#00bcd4] hover:to-[#0097a7] overflow-hidden"
-              aria-label={t.sendMessage}
-              type="button"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-                />
-              </svg>
-            </button>
+            {/* Send button (becomes a stop button while a response is being generated) */}
+            {isGenerating && onStopGenerating ? (
+              <button
+                onClick={onStopGenerating}
+                className="group relative flex-shrink-0 text-white p-3 rounded-full transition-all duration-300 backdrop-blur-lg border border-white/25 shadow-lg shadow-red-900/30 bg-gradient-to-r from-red-500/85 to-red-600/85 hover:from-red-500 hover:to-red-600 overflow-hidden"
+                aria-label={t.stopGenerating}
+                title={t.stopGenerating}
+                type="button"
+              >
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="2" />
+                </svg>
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={disabled || isUploading || (!message.trim() && attachments.length === 0 && (!ocrMode || !extractedOCRText)) || ocrMutation.isLoading}
+                className="group relative flex-shrink-0 text-white p-3 rounded-full transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-lg border border-white/25 shadow-lg shadow-cyan-900/30 bg-gradient-to-r from-[#00bcd4]/85 to-[#0097a7]/85 hover:from-[#00bcd4] hover:to-[#0097a7] overflow-hidden"
+                aria-label={t.sendMessage}
+                type="button"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                  />
+                </svg>
+              </button>
+            )}
           </div>
 
 
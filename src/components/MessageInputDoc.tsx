@@ -1,7 +1,13 @@
 import React, { useState, useRef } from 'react';
 import type { Attachment } from '../types/orcha';
 import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import { getUserFacingMessage } from '../api/errors';
 import AttachmentChip from './AttachmentChip';
+import { useAttachmentUploads } from '../hooks/useAttachmentUploads';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('MessageInputDoc');
 
 interface MessageInputDocProps {
   onSendMessage: (message: string, attachments: Attachment[], useRag: boolean) => void;
@@ -11,76 +17,42 @@ interface MessageInputDocProps {
 
 const MessageInputDoc: React.FC<MessageInputDocProps> = ({ onSendMessage, disabled = false, hasMessages = false }) => {
   const [message, setMessage] = useState('');
-  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [useRag] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { language } = useLanguage();
 
-  const readFileAsBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const base64 = reader.result as string;
-        const base64Data = base64.split(',')[1];
-        resolve(base64Data);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+  // Failed uploads are dropped from the attachment list and reported to the user
+  const handleUploadError = (file: File, error: unknown) => {
+    log.error('Failed to upload file', error);
+    alert(`${language === 'en' ? 'Failed to upload' : 'Échec de l\'envoi de'} ${file.name}: ${getUserFacingMessage(error, translations[language].errors)}`);
   };
+  const { attachments, addFiles, removeAttachment, clearAttachments, isUploading } = useAttachmentUploads(handleUploadError);
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
 
-    try {
-      const filePromises = Array.from(files).map(async (file) => {
-        const base64Data = await readFileAsBase64(file);
-        const attachment: Attachment = {
-          uri: URL.createObjectURL(file),
-          type: file.type,
-          filename: file.name,
-          data: base64Data,
-          size: file.size,
-        };
-        return attachment;
-      });
-
-      const newAttachments = await Promise.all(filePromises);
-      setAttachments((prev) => [...prev, ...newAttachments]);
+    // Upload right away; the chat payload only carries the returned file_uri
+    addFiles(files);
 
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-
-      console.log('📎 Files attached:', newAttachments.map(a => ({
-        name: a.filename,
-        size: a.size,
-        type: a.type,
-        hasData: !!a.data,
-        dataLength: a.data?.length || 0
-      })));
-    } catch (error) {
-      console.error('Error reading files:', error);
-      alert('Failed to read files. Please try again.');
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
   const handleRemoveAttachment = (index: number) => {
-    setAttachments((prev) => {
-      const attachment = prev[index];
-      if (attachment.uri.startsWith('blob:')) {
-        URL.revokeObjectURL(attachment.uri);
-      }
-      return prev.filter((_, i) => i !== index);
-    });
+    removeAttachment(index);
   };
 
   const handleSend = () => {
+    // Wait until every attachment has its file_uri
+    if (isUploading) return;
+
     if (message.trim() || attachments.length > 0) {
       onSendMessage(message.trim(), attachments, useRag);
       setMessage('');
-      setAttachments([]);
+      clearAttachments();
     }
   };
 
@@ -182,7 +154,7 @@ const MessageInputDoc: React.FC<MessageInputDocProps> = ({ onSendMessage, disabl
 
               <button
                 onClick={handleSend}
-                disabled={disabled || (!message.trim() && attachments.length === 0)}
+                disabled={disabled || isUploading || (!message.trim() && attachments.length === 0)}
                 className="flex-shrink-0 text-white px-6 py-3 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed font-medium hover:opacity-90"
                 style={{ backgroundColor: '#1e90ff' }}
               >
@@ -245,7 +217,7 @@ const MessageInputDoc: React.FC<MessageInputDocProps> = ({ onSendMessage, disabl
             {/* Send button */}
             <button
               onClick={handleSend}
-              disabled={disabled || (!message.trim() && attachments.length === 0)}
+              disabled={disabled || isUploading || (!message.trim() && attachments.length === 0)}
               className="flex-shrink-0 text-white px-6 py-3 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed font-medium hover:opacity-90"
               style={{ backgroundColor: '#1e90ff' }}
             >
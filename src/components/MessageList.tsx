@@ -1,46 +1,245 @@
-import React, { useEffect, useRef } from 'react';
-import type { ChatMessage } from '../types/orcha';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { ChatMessage, EndpointCallResult, Message, OutboxMessage } from '../types/orcha';
 import { useModel } from '../context/ModelContext';
 import { useLanguage } from '../context/LanguageContext';
 import { translations } from '../translations';
+import { useWindowedList } from '../hooks/useWindowedList';
 import MessageBubble from './MessageBubble';
+import RoutingMessage from './RoutingMessage';
 import EmptyState from './EmptyState';
 
+// Start fetching earlier messages this close to the top of the history
+const LOAD_EARLIER_THRESHOLD_PX = 300;
+const HIGHLIGHT_DURATION_MS = 2500;
+
 interface MessageListProps {
   messages: ChatMessage[];
   isLoading?: boolean;
+  streamingContent?: string | null;
+  outboxMessages?: OutboxMessage[];
+  routingMessages?: Message[]; // ORCHA routing decisions waiting to be dispatched
+  hasEarlierMessages?: boolean;
+  isLoadingEarlier?: boolean;
+  onLoadEarlier?: () => void;
+  focusedMessageId?: number | null;
+  onFocusedMessageShown?: () => void;
   onRegenerateMessage?: (messageIndex: number) => void;
+  onEditMessage?: (messageIndex: number, content: string) => void;
+  onSwitchBranch?: (messageId: number) => void;
+  onRetryOutboxMessage?: (id: string) => void;
+  onDiscardOutboxMessage?: (id: string) => void;
+  onEndpointResult?: (routingMessage: Message, result: EndpointCallResult) => void;
   onQuestionSelect?: (question: string) => void;
 }
 
-const MessageList: React.FC<MessageListProps> = ({ messages, isLoading = false, onRegenerateMessage }) => {
+const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  isLoading = false,
+  streamingContent = null,
+  outboxMessages = [],
+  routingMessages = [],
+  hasEarlierMessages = false,
+  isLoadingEarlier = false,
+  onLoadEarlier,
+  focusedMessageId = null,
+  onFocusedMessageShown,
+  onRegenerateMessage,
+  onEditMessage,
+  onSwitchBranch,
+  onRetryOutboxMessage,
+  onDiscardOutboxMessage,
+  onEndpointResult,
+}) => {
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const distanceFromBottomRef = useRef(0);
+  const firstMessageIdRef = useRef<number | undefined>(undefined);
+  const focusedMessageIdRef = useRef(focusedMessageId);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
   const { currentModel } = useModel();
   const { language } = useLanguage();
   const t = translations[language].assistant;
+  const outboxT = translations[language].outbox;
+  const historyT = translations[language].history;
+
+  // Only the bubbles near the viewport are mounted, so long conversations stay fast
+  const messageKeys = useMemo(() => messages.map(m => m.id), [messages]);
+  const { start, end, paddingTop, paddingBottom, measureRef, scrollToIndex } = useWindowedList({
+    keys: messageKeys,
+    scrollRef: scrollContainerRef,
+  });
+
+  const firstMessageId = messages[0]?.id;
+  const lastMessageId = messages[messages.length - 1]?.id;
+
+  // Earlier messages were prepended: keep the view anchored where the user was reading
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const previousFirstId = firstMessageIdRef.current;
+    firstMessageIdRef.current = firstMessageId;
+    if (!container || previousFirstId === undefined || previousFirstId === firstMessageId) return;
+    if (messages.some(m => m.id === previousFirstId)) {
+      container.scrollTop = container.scrollHeight - distanceFromBottomRef.current;
+    }
+  }, [firstMessageId, messages]);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages arrive (unless jumping to a specific message)
   useEffect(() => {
+    focusedMessageIdRef.current = focusedMessageId;
+  }, [focusedMessageId]);
+
+  useEffect(() => {
+    if (focusedMessageIdRef.current !== null) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading]);
+  }, [lastMessageId, isLoading, streamingContent, outboxMessages.length, routingMessages.length]);
+
+  // Jump to the focused message once its page is loaded, and highlight it briefly
+  useEffect(() => {
+    if (focusedMessageId === null) return;
+    const index = messages.findIndex(m => m.id === focusedMessageId);
+    if (index === -1) return;
+
+    scrollToIndex(index);
+    // Center it once it is mounted and measured
+    const frame = requestAnimationFrame(() => {
+      scrollContainerRef.current
+        ?.querySelector(`[data-window-key="${focusedMessageId}"]`)
+        ?.scrollIntoView({ block: 'center' });
+    });
+    setHighlightedMessageId(focusedMessageId);
+    onFocusedMessageShown?.();
+    return () => cancelAnimationFrame(frame);
+  }, [focusedMessageId, messages, scrollToIndex, onFocusedMessageShown]);
+
+  useEffect(() => {
+    if (highlightedMessageId === null) return;
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId]);
+
+  const loadEarlier = () => {
+    const container = scrollContainerRef.current;
+    if (!container || !hasEarlierMessages || isLoadingEarlier) return;
+    distanceFromBottomRef.current = container.scrollHeight - container.scrollTop;
+    onLoadEarlier?.();
+  };
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    distanceFromBottomRef.current = container.scrollHeight - container.scrollTop;
+    if (container.scrollTop < LOAD_EARLIER_THRESHOLD_PX) {
+      loadEarlier();
+    }
+  };
+
+  const isStreaming = isLoading && !!streamingContent;
 
   return (
-    <div className="flex-1 overflow-y-auto custom-scrollbar p-4 pb-32">
-      {messages.length === 0 && !isLoading && currentModel === 'chat' && (
+    <div ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto custom-scrollbar p-4 pb-32">
+      {messages.length === 0 && outboxMessages.length === 0 && routingMessages.length === 0 && !isLoading && currentModel === 'chat' && (
         <EmptyState />
       )}
 
-      {messages.map((message, index) => (
-        <React.Fragment key={message.id}>
+      {(hasEarlierMessages || isLoadingEarlier) && (
+        <div className="flex justify-center mb-4">
+          <button
+            onClick={loadEarlier}
+            disabled={isLoadingEarlier}
+            className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400 font-medium"
+          >
+            {isLoadingEarlier ? historyT.loadingEarlier : historyT.loadEarlier}
+          </button>
+        </div>
+      )}
+
+      <div style={{ paddingTop, paddingBottom }}>
+        {messages.slice(start, end).map((message, offset) => (
+          <div
+            key={message.id}
+            ref={measureRef}
+            data-window-key={message.id}
+            className={`rounded-2xl transition-colors duration-700 ${message.id === highlightedMessageId ? 'bg-amber-100/70' : ''}`}
+          >
+            <MessageBubble
+              message={message}
+              currentModel={currentModel}
+              onRegenerate={() => onRegenerateMessage?.(start + offset)}
+              // Only persisted messages (positive IDs) can be forked, and not while a reply is generating
+              onEdit={onEditMessage && message.id > 0 && !isLoading
+                ? (content) => onEditMessage(start + offset, content)
+                : undefined}
+              onSwitchBranch={isLoading ? undefined : onSwitchBranch}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Messages not delivered yet (offline outbox) */}
+      {outboxMessages.map(outboxMessage => (
+        <div key={outboxMessage.id} className="opacity-80">
           <MessageBubble
-            message={message}
+            message={{
+              id: 0,
+              role: 'user',
+              content: outboxMessage.request.message,
+              attachments: outboxMessage.attachments,
+              token_count: null,
+              model_used: null,
+              created_at: outboxMessage.created_at
+            }}
             currentModel={currentModel}
-            onRegenerate={() => onRegenerateMessage?.(index)}
           />
-        </React.Fragment>
+          <div className="flex justify-end items-center gap-3 -mt-3 mb-4 px-2 text-xs">
+            <span className={outboxMessage.status === 'failed' ? 'text-red-600' : 'text-gray-500'} title={outboxMessage.error}>
+              {outboxMessage.status === 'failed' ? '⚠️ ' : '🕓 '}
+              {outboxT[outboxMessage.status]}
+            </span>
+            {outboxMessage.status !== 'sending' && (
+              <>
+                <button
+                  onClick={() => onRetryOutboxMessage?.(outboxMessage.id)}
+                  className="text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                  {outboxT.retry}
+                </button>
+                <button
+                  onClick={() => onDiscardOutboxMessage?.(outboxMessage.id)}
+                  className="text-gray-500 hover:text-red-600 font-medium"
+                >
+                  {outboxT.discard}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {routingMessages.map(routingMessage => (
+        <RoutingMessage
+          key={routingMessage.id}
+          message={routingMessage}
+          onEndpointResult={(result) => onEndpointResult?.(routingMessage, result)}
+        />
       ))}
 
-      {isLoading && (
+      {isStreaming && (
+        <MessageBubble
+          message={{
+            id: 0,
+            role: 'assistant',
+            content: streamingContent,
+            attachments: [],
+            token_count: null,
+            model_used: null,
+            created_at: new Date().toISOString()
+          }}
+          currentModel={currentModel}
+          isStreaming
+        />
+      )}
+
+      {isLoading && !isStreaming && (
         <div className="flex justify-start mb-4">
           <div className="bg-gray-100 rounded-2xl rounded-bl-md px-4 py-3">
             <div className="flex items-center gap-1">
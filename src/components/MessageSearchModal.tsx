@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { useInfiniteQuery } from 'react-query';
+import { Search, X } from 'lucide-react';
+import { searchMessages } from '../api/orcha';
+import { getUserFacingMessage } from '../api/errors';
+import { queryKeys } from '../api/queryKeys';
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import type { MessageSearchHit, MessageSearchParams } from '../types/orcha';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+interface MessageSearchModalProps {
+  userId: number;
+  isOpen: boolean;
+  initialQuery?: string;
+  onClose: () => void;
+  onSelectResult: (hit: MessageSearchHit) => void;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap every occurrence of the searched words in <mark>
+const highlightMatches = (snippet: string, query: string) => {
+  const words = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return snippet;
+
+  const matcher = new RegExp(`(${words.join('|')})`, 'gi');
+  return snippet.split(matcher).map((part, index) =>
+    index % 2 === 1
+      ? <mark key={index} className="bg-amber-200 text-gray-900 rounded px-0.5">{part}</mark>
+      : part
+  );
+};
+
+/**
+ * Full-text search over every message of the user, with role and date filters.
+ * Selecting a result opens its conversation scrolled to the message.
+ */
+const MessageSearchModal: React.FC<MessageSearchModalProps> = ({ userId, isOpen, initialQuery = '', onClose, onSelectResult }) => {
+  const { language } = useLanguage();
+  const t = translations[language].messageSearch;
+  const [query, setQuery] = useState(initialQuery);
+  const [debouncedQuery, setDebouncedQuery] = useState(initialQuery);
+  const [role, setRole] = useState<MessageSearchParams['role']>(undefined);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery(initialQuery);
+      setDebouncedQuery(initialQuery);
+    }
+  }, [isOpen, initialQuery]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const filters = { query: debouncedQuery, role, from: from || undefined, to: to || undefined };
+  const searchQuery = useInfiniteQuery(
+    queryKeys.messageSearch(userId, filters),
+    ({ pageParam = 0 }) => searchMessages(userId, { ...filters, limit: PAGE_SIZE, offset: pageParam }),
+    {
+      enabled: isOpen && debouncedQuery.length >= MIN_QUERY_LENGTH,
+      getNextPageParam: (lastPage, allPages) => {
+        const loaded = allPages.reduce((count, page) => count + page.results.length, 0);
+        return loaded < lastPage.total ? loaded : undefined;
+      },
+    }
+  );
+
+  if (!isOpen) return null;
+
+  const results = searchQuery.data?.pages.flatMap(page => page.results) ?? [];
+  const total = searchQuery.data?.pages[0]?.total ?? 0;
+  const hasSearched = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl w-full max-w-2xl max-h-[80vh] overflow-hidden flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-gray-200 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-800">{t.title}</h2>
+            <button
+              onClick={onClose}
+              className="p-1.5 text-gray-400 hover:text-gray-600 rounded-lg transition"
+              aria-label={t.close}
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t.placeholder}
+              className="w-full border border-gray-200 rounded-lg pl-9 pr-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400"
+              autoFocus
+            />
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+            <select
+              value={role ?? ''}
+              onChange={(e) => setRole((e.target.value || undefined) as MessageSearchParams['role'])}
+              className="border border-gray-200 rounded-md px-2 py-1"
+            >
+              <option value="">{t.anyRole}</option>
+              <option value="user">{t.userRole}</option>
+              <option value="assistant">{t.assistantRole}</option>
+            </select>
+            <label className="flex items-center gap-1">
+              {t.from}
+              <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="border border-gray-200 rounded-md px-2 py-1" />
+            </label>
+            <label className="flex items-center gap-1">
+              {t.to}
+              <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="border border-gray-200 rounded-md px-2 py-1" />
+            </label>
+            {hasSearched && searchQuery.isSuccess && (
+              <span className="ml-auto text-gray-400">{total} {t.resultCount}</span>
+            )}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto">
+          {searchQuery.isLoading ? (
+            <p className="px-5 py-8 text-center text-sm text-gray-500">{t.searching}</p>
+          ) : searchQuery.isError ? (
+            <p className="px-5 py-8 text-center text-sm text-red-600">
+              {getUserFacingMessage(searchQuery.error, translations[language].errors)}
+            </p>
+          ) : hasSearched && results.length === 0 ? (
+            <p className="px-5 py-8 text-center text-sm text-gray-500">{t.noResults}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {results.map(hit => (
+                <li key={`${hit.conversation_id}-${hit.message_id}`}>
+                  <button
+                    onClick={() => onSelectResult(hit)}
+                    className="w-full text-left px-5 py-3 hover:bg-gray-50 transition"
+                  >
+                    <div className="flex items-center justify-between gap-3 mb-1">
+                      <span className="text-sm font-medium text-gray-800 truncate">
+                        {hit.conversation_title || t.untitled}
+                      </span>
+                      <span className="text-xs text-gray-400 whitespace-nowrap">
+                        {hit.role === 'user' ? t.userRole : t.assistantRole} · {new Date(hit.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 line-clamp-3">{highlightMatches(hit.snippet, debouncedQuery)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {searchQuery.hasNextPage && (
+            <div className="flex justify-center py-3">
+              <button
+                onClick={() => searchQuery.fetchNextPage()}
+                disabled={searchQuery.isFetchingNextPage}
+                className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400 font-medium"
+              >
+                {searchQuery.isFetchingNextPage ? t.searching : t.loadMore}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageSearchModal;
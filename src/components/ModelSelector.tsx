@@ -21,7 +21,7 @@ const getSpecializedModelName = (jobTitle: string | undefined): string => {
 };
 
 const ModelSelector: React.FC = () => {
-  const { currentModel, setModel, isAgentMode, setAgentMode, isProMode, setProMode } = useModel();
+  const { currentModel, setModel, isAgentMode, setAgentMode, isProMode, setProMode, isRouteMode, setRouteMode } = useModel();
   const { language } = useLanguage();
   const { createNewConversation, clearCurrentConversation } = useConversation();
   const { user } = useAuth();
@@ -164,6 +164,45 @@ const ModelSelector: React.FC = () => {
             </button>
           </div>
 
+          {/* ORCHA Routing Toggle */}
+          <div className="px-3 pb-2">
+            <button
+              type="button"
+              onClick={() => setRouteMode(!isRouteMode)}
+              className="w-full flex items-center justify-between gap-3 px-3 py-2.5 rounded-lg hover:bg-white/10 transition-colors text-left cursor-pointer"
+            >
+              {/* Left Side: Icon + Label */}
+              <div className="flex items-center gap-3">
+                {/* Route Icon */}
+                <svg className="w-5 h-5 text-white/90" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+
+                {/* Label */}
+                <div className="flex flex-col text-left">
+                  <span className="text-white font-medium text-sm">
+                    {translations[language].routing.autoRoute}
+                  </span>
+                </div>
+              </div>
+
+              {/* Right Side: Switch */}
+              <div
+                className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out ${isRouteMode ? 'bg-indigo-500' : 'bg-gray-400/50'
+                  }`}
+              >
+                <span className="sr-only">
+                  {translations[language].routing.autoRoute}
+                </span>
+                <span
+                  aria-hidden="true"
+                  className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${isRouteMode ? 'translate-x-5' : 'translate-x-0'
+                    }`}
+                />
+              </div>
+            </button>
+          </div>
+
           {/* Agent Mode Toggle */}
           <div className="px-3 pb-3">
             <button
@@ -7,7 +7,12 @@ import { useSession } from '../context/SessionContext';
 import { useLanguage } from '../context/LanguageContext';
 import { translations } from '../translations';
 import { extractOCRText, chat } from '../api/orcha';
+import { isRequestCancelled } from '../api/client';
+import { getUserFacingMessage } from '../api/errors';
 import type { OCRExtractRequest, ChatRequest } from '../types/orcha';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('ocr');
 
 const OCRExtractor: React.FC = () => {
   const { user } = useAuth();
@@ -30,6 +35,7 @@ const OCRExtractor: React.FC = () => {
   const [aiModalTitle, setAiModalTitle] = useState<string>('');
   const dropdownRef = useRef<HTMLDivElement>(null);
   const translateDropdownRef = useRef<HTMLDivElement>(null);
+  const ocrAbortControllerRef = useRef<AbortController | null>(null);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -82,33 +88,40 @@ const OCRExtractor: React.FC = () => {
 
   // OCR extraction mutation
   const ocrMutation = useMutation(
-    async (payload: OCRExtractRequest) => extractOCRText(payload),
+    async (payload: OCRExtractRequest) => {
+      ocrAbortControllerRef.current = new AbortController();
+      return extractOCRText(payload, ocrAbortControllerRef.current.signal);
+    },
     {
       onSuccess: (data) => {
-        console.log('OCR extraction completed:', data);
-        console.log('Data status:', data.status);
-        console.log('Extracted text length:', data.extracted_text?.length || 0);
-        console.log('Lines count:', data.lines_count);
+        log.debug('OCR extraction completed', {
+          status: data.status,
+          textLength: data.extracted_text?.length || 0,
+          linesCount: data.lines_count,
+        });
 
         if (data.status === 'success' && data.extracted_text) {
           setExtractedText(data.extracted_text);
           setLinesCount(data.lines_count || 0);
-          console.log('✅ OCR extraction successful - text set');
 
           // If document type is passport or ID card, trigger LLM cleaning
           if (documentType === 'passport' || documentType === 'id_card') {
             handleCleanWithAI(data.extracted_text, documentType);
           }
         } else {
-          console.error('❌ OCR extraction failed:', data.error);
+          log.error('OCR extraction failed', data.error);
         }
       },
       onError: (error: any) => {
-        console.error('OCR extraction error:', error);
+        if (isRequestCancelled(error)) {
+          log.debug('OCR extraction cancelled by user');
+          return;
+        }
+        log.error('OCR extraction error', error);
       },
       onSettled: () => {
         // This runs after both success and error, ensuring loading state is reset
-        console.log('OCR mutation settled - loading should be false now');
+        ocrAbortControllerRef.current = null;
       },
     }
   );
@@ -122,11 +135,11 @@ const OCRExtractor: React.FC = () => {
           setAiResponse(data.message);
           setShowAiModal(true);
         } else {
-          console.error('AI processing failed');
+          log.error('AI processing failed');
         }
       },
       onError: (error: any) => {
-        console.error('AI processing error:', error);
+        log.error('AI processing error', error);
       },
     }
   );
@@ -139,11 +152,11 @@ const OCRExtractor: React.FC = () => {
         if (data.message) {
           setCleanedData(data.message);
         } else {
-          console.error('AI cleaning failed');
+          log.error('AI cleaning failed');
         }
       },
       onError: (error: any) => {
-        console.error('AI cleaning error:', error);
+        log.error('AI cleaning error', error);
       },
     }
   );
@@ -206,10 +219,16 @@ const OCRExtractor: React.FC = () => {
       // Call OCR extraction
       ocrMutation.mutate(ocrRequest);
     } catch (error) {
-      console.error('Failed to process image:', error);
+      log.error('Failed to process image', error);
     }
   };
 
+  // Cancel the in-flight extraction and clear its (cancellation) error state
+  const handleStopExtraction = () => {
+    ocrAbortControllerRef.current?.abort();
+    ocrMutation.reset();
+  };
+
   // Copy text to clipboard
   const handleCopyText = async () => {
     try {
@@ -217,12 +236,15 @@ const OCRExtractor: React.FC = () => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
-      console.error('Failed to copy text:', error);
+      log.error('Failed to copy text', error);
     }
   };
 
   // Clear all
   const handleClear = () => {
+    if (ocrMutation.isLoading) {
+      handleStopExtraction();
+    }
     setSelectedFile(null);
     setImagePreview(null);
     setExtractedText('');
@@ -417,9 +439,7 @@ const OCRExtractor: React.FC = () => {
         <div className="flex gap-3 justify-center">
           <button
             onClick={() => {
-              console.log('Extract button clicked');
-              console.log('OCR mutation loading state:', ocrMutation.isLoading);
-              console.log('OCR mutation status:', ocrMutation.status);
+              log.debug('Extract button clicked', { status: ocrMutation.status });
               handleExtractText();
             }}
             disabled={!selectedFile || ocrMutation.isLoading}
@@ -447,6 +467,22 @@ const OCRExtractor: React.FC = () => {
             <div className="absolute inset-0 bg-gradient-to-r from-green-400/25 to-emerald-400/25 rounded-full blur-xl opacity-0 group-hover:opacity-100 transition-opacity" />
           </button>
 
+          {ocrMutation.isLoading && (
+            <button
+              onClick={handleStopExtraction}
+              className="group relative px-6 py-3 bg-gradient-to-r from-gray-600/25 to-gray-500/25 rounded-full font-semibold transition-all duration-300 flex items-center gap-2 backdrop-blur-md border border-white/30 shadow-lg hover:shadow-xl"
+            >
+              <div className="relative flex items-center gap-2 z-10">
+                <svg className="w-5 h-5 text-gray-700" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="2" />
+                </svg>
+                <span className="text-sm font-semibold text-gray-700">
+                  {t.stop}
+                </span>
+              </div>
+            </button>
+          )}
+
           {(extractedText || selectedFile) && (
             <button
               onClick={handleClear}
@@ -475,9 +511,7 @@ const OCRExtractor: React.FC = () => {
               <span className="text-red-800 font-medium">{t.error}:</span>
             </div>
             <p className="text-red-700 mt-1">
-              {ocrMutation.error?.response?.data?.error ||
-                ocrMutation.error?.response?.data?.detail ||
-                t.errorMessage}
+              {getUserFacingMessage(ocrMutation.error, translations[language].errors) || t.errorMessage}
             </p>
           </div>
         )}
@@ -3,6 +3,9 @@ import { useAuth } from '../context/AuthContext';
 import { useSession } from '../context/SessionContext';
 import { useLanguage } from '../context/LanguageContext';
 import { chat, webSearch } from '../api/orcha';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('OrionAssistChat');
 
 // --- PROMPTS ---
 const STOCK_PROMPT_TEMPLATE = `You are an Institutional Equity Analyst. I will provide you with recent news and technical indicators for a stock.
@@ -115,7 +118,7 @@ const OrionAssistChat: React.FC = () => {
       });
 
       const rawContent = chatResponse.message || '';
-      console.log("Raw LLM Response:", rawContent);
+      log.debug('Prediction response', { content: rawContent });
 
       // 4. Parse Result
       // Expected: "UP 52%" or "DOWN 12%"
@@ -128,12 +131,12 @@ const OrionAssistChat: React.FC = () => {
         setResult({ direction, confidence, sources: sourcesUsed });
       } else {
         // Fallback if format isn't perfect (handle gracefully)
-        console.error("Failed to parse response:", rawContent);
+        log.error('Failed to parse prediction response', { content: rawContent });
         setStatusMessage(language === 'en' ? 'Analysis inconclusive. Please try again.' : 'Analyse non concluante. Veuillez réessayer.');
       }
 
     } catch (error) {
-      console.error("Prediction Error:", error);
+      log.error('Prediction error', error);
       setStatusMessage(language === 'en' ? 'Error during analysis.' : 'Erreur lors de l\'analyse.');
     } finally {
       setIsLoading(false);
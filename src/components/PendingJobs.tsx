@@ -0,0 +1,72 @@
+import React from 'react';
+import type { TrackedJob } from '../types/orcha';
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+
+interface PendingJobsProps {
+  jobs: TrackedJob[];
+  onDismiss: (jobId: string) => void;
+}
+
+const PendingJobs: React.FC<PendingJobsProps> = ({ jobs, onDismiss }) => {
+  const { language } = useLanguage();
+  const t = translations[language].jobs;
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 mb-2 space-y-2" aria-live="polite">
+      {jobs.map(job => {
+        const isFailed = job.status === 'failed';
+        const statusLabel = isFailed ? t.failed : job.status === 'running' ? t.running : t.queued;
+
+        return (
+          <div
+            key={job.job_id}
+            className={`flex items-center gap-3 px-4 py-2 rounded-xl border text-sm shadow-sm ${isFailed ? 'bg-red-50 border-red-200' : 'bg-white border-indigo-100'
+              }`}
+          >
+            {isFailed ? (
+              <span className="text-red-500">⚠️</span>
+            ) : (
+              <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin flex-shrink-0"></div>
+            )}
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate font-medium text-gray-800">{job.label}</span>
+                <span className={`text-xs whitespace-nowrap ${isFailed ? 'text-red-600' : 'text-gray-500'}`}>
+                  {statusLabel}
+                  {!isFailed && job.progress !== undefined && ` · ${Math.round(job.progress)}%`}
+                </span>
+              </div>
+
+              {isFailed ? (
+                job.error && <p className="text-xs text-red-700 truncate">{job.error}</p>
+              ) : (
+                <div className="mt-1 h-1 bg-indigo-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full bg-indigo-500 transition-all duration-500 ${job.progress === undefined ? 'w-1/3 animate-pulse' : ''}`}
+                    style={job.progress !== undefined ? { width: `${job.progress}%` } : undefined}
+                  />
+                </div>
+              )}
+            </div>
+
+            {isFailed && (
+              <button
+                onClick={() => onDismiss(job.job_id)}
+                className="text-xs text-red-700 hover:text-red-900 font-medium"
+                type="button"
+              >
+                {t.dismiss}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PendingJobs;
@@ -6,6 +6,9 @@ import { useAuth } from '../context/AuthContext';
 import { useSession } from '../context/SessionContext';
 import { chat } from '../api/orcha';
 import AgentInput from './AgentInput';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('PlanWithAgent');
 
 const PlanWithAgent: React.FC = () => {
     const { language } = useLanguage();
@@ -39,7 +42,7 @@ const PlanWithAgent: React.FC = () => {
                 setPlan(response.message);
             }
         } catch (error) {
-            console.error('Planning failed:', error);
+            log.error('Planning failed', error);
             // Handle error (maybe show a toast or error message)
         } finally {
             setIsPlanning(false);
@@ -66,7 +69,7 @@ const PlanWithAgent: React.FC = () => {
                 setExecutionResult(response.message);
             }
         } catch (error) {
-            console.error('Execution failed:', error);
+            log.error('Execution failed', error);
         } finally {
             setIsExecuting(false);
         }
@@ -3,9 +3,13 @@ import { Activity, X, RefreshCw } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { getPulse, regeneratePulse } from '../api/orcha';
+import { getUserFacingMessage } from '../api/errors';
 import { useLanguage } from '../context/LanguageContext';
 import { translations } from '../translations';
 import type { Pulse } from '../types/orcha';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('PulseModal');
 
 interface PulseModalProps {
   userId: number;
@@ -33,12 +37,12 @@ const PulseModal: React.FC<PulseModalProps> = ({ userId, isOpen, onClose }) => {
         setError(response.message || 'Failed to fetch pulse');
       }
     } catch (err: any) {
-      console.error('Error fetching pulse:', err);
-      setError(err.response?.data?.message || 'An error occurred while fetching your pulse');
+      log.error('Error fetching pulse', err);
+      setError(getUserFacingMessage(err, translations[language].errors));
     } finally {
       setLoading(false);
     }
-  }, [userId]);
+  }, [userId, language]);
 
   // Fetch pulse when modal opens
   useEffect(() => {
@@ -59,8 +63,8 @@ const PulseModal: React.FC<PulseModalProps> = ({ userId, isOpen, onClose }) => {
         setError(response.message || 'Failed to regenerate pulse');
       }
     } catch (err: any) {
-      console.error('Error regenerating pulse:', err);
-      setError(err.response?.data?.message || 'An error occurred while regenerating your pulse');
+      log.error('Error regenerating pulse', err);
+      setError(getUserFacingMessage(err, translations[language].errors));
     } finally {
       setRegenerating(false);
     }
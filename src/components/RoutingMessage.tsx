@@ -1,15 +1,24 @@
 import React, { useState } from 'react';
-import type { Message } from '../types/orcha';
+import type { Message, EndpointCallResult } from '../types/orcha';
 import { useLanguage } from '../context/LanguageContext';
 import { translations } from '../translations';
+import { callRecommendedEndpoint } from '../api/orcha';
+import { getUserFacingMessage } from '../api/errors';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('routing');
 
 interface RoutingMessageProps {
   message: Message;
+  onEndpointResult?: (result: EndpointCallResult) => void;
 }
 
-const RoutingMessage: React.FC<RoutingMessageProps> = ({ message }) => {
+const RoutingMessage: React.FC<RoutingMessageProps> = ({ message, onEndpointResult }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [isCalling, setIsCalling] = useState(false);
+  const [callResult, setCallResult] = useState<EndpointCallResult | null>(null);
+  const [callError, setCallError] = useState<string | null>(null);
   const { language } = useLanguage();
   const t = translations[language].routing;
   const badges = translations[language].badges;
@@ -19,6 +28,8 @@ const RoutingMessage: React.FC<RoutingMessageProps> = ({ message }) => {
   }
 
   const { endpoint, reason, prepared_payload, status, ocr_queued, job_ids } = message.routingData;
+  // A dispatched decision is never sent again: that would duplicate the chat turn or the queued jobs
+  const result = callResult ?? message.routingResult ?? null;
 
   // Determine the endpoint type for badge
   const getEndpointBadge = (endpoint: string) => {
@@ -40,14 +51,26 @@ const RoutingMessage: React.FC<RoutingMessageProps> = ({ message }) => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
-      console.error('Failed to copy JSON:', error);
+      log.error('Failed to copy JSON', error);
     }
   };
 
-  const handleCallEndpoint = () => {
-    // TODO: Implement actual endpoint call
-    // This would use the api.callRecommendedEndpoint function (see src/api/orcha.ts)
-    alert(`TODO: Call ${endpoint} with prepared payload.\n\nSee src/api/orcha.ts for implementation guide.`);
+  const handleCallEndpoint = async () => {
+    if (!message.routingData || result || isCalling) return;
+
+    setIsCalling(true);
+    setCallError(null);
+    try {
+      const result = await callRecommendedEndpoint(message.routingData);
+      setCallResult(result);
+      // Let the host append the result (or track its queued jobs) in the conversation
+      onEndpointResult?.(result);
+    } catch (error) {
+      log.error('Failed to call recommended endpoint', error);
+      setCallError(getUserFacingMessage(error, translations[language].errors));
+    } finally {
+      setIsCalling(false);
+    }
   };
 
   return (
@@ -142,20 +165,44 @@ const RoutingMessage: React.FC<RoutingMessageProps> = ({ message }) => {
             </div>
           </div>
 
-          {/* Call Endpoint Button (TODO) */}
-          <button
-            onClick={handleCallEndpoint}
-            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium py-2 px-4 rounded-lg transition flex items-center justify-center gap-2"
-            aria-label="Call recommended endpoint"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-            </svg>
-            {t.callEndpoint}
-          </button>
-          <p className="text-xs text-gray-500 text-center mt-2">
-            {t.demoMode}
-          </p>
+          {/* Endpoint result */}
+          {result && (
+            <div className="mb-3 p-3 bg-white rounded-lg border border-indigo-100">
+              {result.message && (
+                <>
+                  <p className="text-xs text-gray-600 mb-1">{t.result}</p>
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{result.message}</p>
+                </>
+              )}
+              {result.job_ids && (
+                <p className="text-sm text-gray-800 mt-1">
+                  <span className="font-medium">{t.jobsQueued}</span> {result.job_ids.join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {callError && (
+            <div className="mb-3 p-3 bg-red-50 rounded-lg border border-red-200">
+              <p className="text-xs font-medium text-red-800">{t.callFailed}</p>
+              <p className="text-sm text-red-700">{callError}</p>
+            </div>
+          )}
+
+          {/* Call Endpoint Button (replaced by the result once the endpoint answered) */}
+          {!result && (
+            <button
+              onClick={handleCallEndpoint}
+              disabled={isCalling}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium py-2 px-4 rounded-lg transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Call recommended endpoint"
+            >
+              <svg className={`w-4 h-4 ${isCalling ? 'animate-pulse' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+              {isCalling ? t.calling : t.callEndpoint}
+            </button>
+          )}
         </div>
         
         <span className="text-xs text-gray-500 mt-1 px-1 block">
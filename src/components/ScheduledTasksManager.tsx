@@ -1,37 +1,44 @@
-import React, { useState, useEffect } from 'react';
-import { X, Clock, Trash2, Edit2, Calendar, Globe } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Clock, Trash2, Edit2, Calendar, Globe, History } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useConversation } from '../context/ConversationContext';
 import { useLanguage } from '../context/LanguageContext';
-import { AgentTaskService } from '../services/agentTaskService';
-import type { AgentTask } from './AgentScheduleModal';
-import AgentScheduleModal from './AgentScheduleModal';
+import { getUserFacingMessage } from '../api/errors';
+import { useAgentTasks } from '../hooks/useAgentTasks';
+import { describeSchedule, formatRunTime, upcomingRuns } from '../services/agentSchedule';
+import { translations } from '../translations';
+import type { AgentTask } from '../types/orcha';
+import AgentScheduleModal, { type AgentTaskFormValues } from './AgentScheduleModal';
+import AgentTaskRunHistory from './AgentTaskRunHistory';
 
 interface ScheduledTasksManagerProps {
   isOpen: boolean;
   onClose: () => void;
+  onOpenConversation?: () => void; // Called after switching to a run's conversation
 }
 
-const ScheduledTasksManager: React.FC<ScheduledTasksManagerProps> = ({ isOpen, onClose }) => {
+const ScheduledTasksManager: React.FC<ScheduledTasksManagerProps> = ({ isOpen, onClose, onOpenConversation }) => {
   const { language } = useLanguage();
-  const [tasks, setTasks] = useState<AgentTask[]>([]);
+  const t = translations[language].agentSchedule;
+  const tRuns = translations[language].agentRuns;
+  const tPipeline = translations[language].agentPipeline;
+  const errorMessages = translations[language].errors;
+  const locale = language === 'en' ? 'en-US' : language === 'fr' ? 'fr-FR' : 'ar';
+  const { user } = useAuth();
+  // Tasks are fetched while the manager is open and kept fresh by react-query
+  const { tasks, updateTask, deleteTask } = useAgentTasks(isOpen ? user?.id : undefined);
   const [editingTask, setEditingTask] = useState<AgentTask | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [historyTask, setHistoryTask] = useState<AgentTask | null>(null);
+  const { switchConversation } = useConversation();
 
-  // Load tasks when modal opens
-  useEffect(() => {
-    if (isOpen) {
-      loadTasks();
-    }
-  }, [isOpen]);
-
-  const loadTasks = () => {
-    const allTasks = AgentTaskService.getAllTasks();
-    setTasks(allTasks);
-  };
-
-  const handleDeleteTask = (taskId: string) => {
+  const handleDeleteTask = async (taskId: number) => {
     if (window.confirm(language === 'en' ? 'Are you sure you want to delete this task?' : 'Voulez-vous vraiment supprimer cette tâche ?')) {
-      AgentTaskService.deleteTask(taskId);
-      loadTasks();
+      try {
+        await deleteTask(taskId);
+      } catch (error) {
+        alert(getUserFacingMessage(error, errorMessages));
+      }
     }
   };
 
@@ -40,33 +47,38 @@ const ScheduledTasksManager: React.FC<ScheduledTasksManagerProps> = ({ isOpen, o
     setShowEditModal(true);
   };
 
-  const handleSaveEdit = (updatedTask: AgentTask) => {
-    if (editingTask) {
-      AgentTaskService.updateTask(editingTask.id, updatedTask);
-      setShowEditModal(false);
-      setEditingTask(null);
-      loadTasks();
+  const handleSaveEdit = async (values: AgentTaskFormValues) => {
+    if (!editingTask) return false;
+    try {
+      await updateTask(editingTask.id, values);
+    } catch (error) {
+      alert(getUserFacingMessage(error, errorMessages));
+      return false;
     }
+    setShowEditModal(false);
+    setEditingTask(null);
+    return true;
   };
 
-  const handleToggleTask = (task: AgentTask) => {
-    AgentTaskService.updateTask(task.id, { enabled: !task.enabled });
-    loadTasks();
+  const handleOpenRunConversation = (conversationId: number) => {
+    switchConversation(conversationId);
+    setHistoryTask(null);
+    onClose();
+    onOpenConversation?.();
   };
 
-  const getScheduleLabel = (schedule: string) => {
-    switch (schedule) {
-      case 'daily':
-        return language === 'en' ? 'Daily' : 'Quotidien';
-      case 'weekly':
-        return language === 'en' ? 'Weekly' : 'Hebdomadaire';
-      case 'monthly':
-        return language === 'en' ? 'Monthly' : 'Mensuel';
-      default:
-        return schedule;
+  const handleToggleTask = async (task: AgentTask) => {
+    try {
+      await updateTask(task.id, { enabled: !task.enabled });
+    } catch (error) {
+      alert(getUserFacingMessage(error, errorMessages));
     }
   };
 
+  // next_run and the runs after it, to preview the schedule on hover
+  const upcomingRunsPreview = (task: AgentTask, nextRun: Date) =>
+    [nextRun, ...upcomingRuns(task, nextRun, 2)].map(run => formatRunTime(run, task.timezone, locale)).join('\n');
+
   if (!isOpen) return null;
 
   return (
@@ -137,24 +149,32 @@ const ScheduledTasksManager: React.FC<ScheduledTasksManagerProps> = ({ isOpen, o
                       <div className="flex-1 min-w-0">
                         <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 mb-2">
                           <div className="flex items-center gap-2">
-                            {task.isSearch && (
+                            {task.is_search && (
                               <span title={language === 'en' ? 'Web search task' : 'Tâche de recherche Web'}>
                                 <Globe className="w-4 h-4 text-sky-500" />
                               </span>
                             )}
                             <h3 className="font-semibold text-gray-900">
-                              {task.taskName}
+                              {task.task_name}
                             </h3>
                           </div>
                           <div className="flex flex-wrap items-center gap-2">
                             <span className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 text-purple-700 rounded-full text-xs font-medium">
                               <Clock className="w-3 h-3" />
-                              {task.time}
+                              {describeSchedule(task, t, locale)}
                             </span>
-                            <span className="inline-flex px-2 py-1 bg-indigo-100 text-indigo-700 rounded-full text-xs font-medium">
-                              {getScheduleLabel(task.schedule)}
+                            <span className="inline-flex px-2 py-1 bg-indigo-100 text-indigo-700 rounded-full text-xs font-medium" title={t.timezone}>
+                              {task.timezone}
                             </span>
-                            {task.isSearch && (
+                            {task.pipeline.length > 0 && (
+                              <span
+                                className="inline-flex px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-medium"
+                                title={task.pipeline.map(step => tPipeline[step.type]).join(' → ')}
+                              >
+                                {task.pipeline.length + 1} {tPipeline.steps}
+                              </span>
+                            )}
+                            {task.is_search && (
                               <span className="inline-flex items-center gap-1 px-2 py-1 bg-sky-100 text-sky-700 rounded-full text-xs font-medium">
                                 <Globe className="w-3 h-3" />
                                 {language === 'en' ? 'Search' : 'Recherche'}
@@ -165,10 +185,19 @@ const ScheduledTasksManager: React.FC<ScheduledTasksManagerProps> = ({ isOpen, o
                         <p className="text-sm text-gray-600 line-clamp-2 mb-2">
                           {task.instructions}
                         </p>
-                        {task.lastRun && (
+                        {task.last_run && (
                           <p className="text-xs text-gray-500">
                             {language === 'en' ? 'Last run: ' : 'Dernière exécution: '}
-                            {new Date(task.lastRun).toLocaleString()}
+                            {new Date(task.last_run).toLocaleString()}
+                            {task.last_run_status === 'failed' && (
+                              <span className="ml-2 text-red-600 font-medium">{tRuns.lastRunFailed}</span>
+                            )}
+                          </p>
+                        )}
+                        {task.enabled && task.next_run && (
+                          <p className="text-xs text-gray-500" title={`${t.nextRuns}:\n${upcomingRunsPreview(task, new Date(task.next_run))}`}>
+                            {language === 'en' ? 'Next run: ' : 'Prochaine exécution: '}
+                            {formatRunTime(new Date(task.next_run), task.timezone, locale)}
                           </p>
                         )}
                       </div>
@@ -200,6 +229,16 @@ const ScheduledTasksManager: React.FC<ScheduledTasksManagerProps> = ({ isOpen, o
                           </span>
                         </button>
 
+                        {/* Run history */}
+                        <button
+                          onClick={() => setHistoryTask(task)}
+                          className="flex-1 md:flex-none px-4 md:px-3 py-2 text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition text-sm font-medium flex items-center justify-center gap-2"
+                          title={tRuns.history}
+                        >
+                          <History className="w-4 h-4" />
+                          <span className="md:hidden">{tRuns.history}</span>
+                        </button>
+
                         {/* Edit */}
                         <button
                           onClick={() => handleEditTask(task)}
@@ -245,6 +284,16 @@ const ScheduledTasksManager: React.FC<ScheduledTasksManagerProps> = ({ isOpen, o
         </div>
       </div>
 
+      {/* Run History */}
+      {user && (
+        <AgentTaskRunHistory
+          userId={user.id}
+          task={historyTask}
+          onClose={() => setHistoryTask(null)}
+          onOpenConversation={handleOpenRunConversation}
+        />
+      )}
+
       {/* Edit Modal */}
       {showEditModal && editingTask && (
         <AgentScheduleModal
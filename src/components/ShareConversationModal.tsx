@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Link2, X } from 'lucide-react';
+import { getUserFacingMessage } from '../api/errors';
+import { useLanguage } from '../context/LanguageContext';
+import { shareUrl, useShares } from '../hooks/useShares';
+import { translations } from '../translations';
+
+// Link lifetimes offered when sharing, in hours (null: until revoked)
+const EXPIRY_OPTIONS: Array<number | null> = [null, 24, 24 * 7, 24 * 30];
+
+interface ShareConversationModalProps {
+  userId: number;
+  conversationId: number;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Create a read-only public link to the current state of a conversation,
+ * and manage the links already created for it.
+ */
+const ShareConversationModal: React.FC<ShareConversationModalProps> = ({ userId, conversationId, isOpen, onClose }) => {
+  const { language } = useLanguage();
+  const t = translations[language].share;
+  const { shares, createShare, creatingShare, revokeShare } = useShares(isOpen ? userId : undefined);
+  const [expiresInHours, setExpiresInHours] = useState<number | null>(24 * 7);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCopiedToken(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const conversationShares = shares.filter(share => share.conversation_id === conversationId);
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(shareUrl(token));
+    setCopiedToken(token);
+    setTimeout(() => setCopiedToken(current => (current === token ? null : current)), 2000);
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      const share = await createShare(conversationId, expiresInHours);
+      await copyLink(share.token);
+    } catch (err) {
+      setError(getUserFacingMessage(err, translations[language].errors));
+    }
+  };
+
+  const expiryLabel = (hours: number | null) =>
+    hours === null ? t.never : hours === 24 ? t.oneDay : hours === 24 * 7 ? t.oneWeek : t.oneMonth;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-800">{t.title}</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-400 hover:text-gray-600 rounded-lg transition"
+            aria-label={t.close}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-5">
+          <p className="text-sm text-gray-600">{t.description}</p>
+
+          {/* New link */}
+          <div className="flex items-center gap-2">
+            <select
+              value={expiresInHours ?? ''}
+              onChange={(e) => setExpiresInHours(e.target.value ? Number(e.target.value) : null)}
+              className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm"
+              aria-label={t.expiry}
+            >
+              {EXPIRY_OPTIONS.map(hours => (
+                <option key={hours ?? 'never'} value={hours ?? ''}>
+                  {t.expiry}: {expiryLabel(hours)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleCreate}
+              disabled={creatingShare}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 rounded-lg transition"
+            >
+              <Link2 className="w-4 h-4" />
+              {creatingShare ? t.creating : t.create}
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* Existing links for this conversation */}
+          {conversationShares.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">{t.activeLinks}</p>
+              <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                {conversationShares.map(share => (
+                  <li key={share.token} className="flex items-center gap-2 px-3 py-2">
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-xs text-gray-700 truncate font-mono">{shareUrl(share.token)}</span>
+                      <span className="block text-xs text-gray-400">
+                        {share.expires_at
+                          ? `${t.expiresOn} ${new Date(share.expires_at).toLocaleString()}`
+                          : t.noExpiry}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => copyLink(share.token)}
+                      className="p-1.5 text-gray-400 hover:text-indigo-600 rounded transition"
+                      title={t.copy}
+                    >
+                      {copiedToken === share.token ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => revokeShare(share.token)}
+                      className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded transition"
+                    >
+                      {t.revoke}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareConversationModal;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery } from 'react-query';
+import { Eye } from 'lucide-react';
+import { getSharedConversation } from '../api/orcha';
+import { queryKeys } from '../api/queryKeys';
+import { useLanguage } from '../context/LanguageContext';
+import { translations } from '../translations';
+import MessageBubble from './MessageBubble';
+
+/**
+ * Public, read-only page behind a share link (/share/:token). Needs no account:
+ * it shows the snapshot taken when the link was created, until it is revoked or expires.
+ */
+const SharedConversationView: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { language } = useLanguage();
+  const t = translations[language].share;
+
+  const sharedQuery = useQuery(queryKeys.sharedConversation(token), () => getSharedConversation(token!), {
+    enabled: !!token,
+    retry: false,
+  });
+  const shared = sharedQuery.data;
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <div className="border-b border-gray-200 px-6 py-4 shadow-sm">
+        <div className="max-w-4xl mx-auto flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold text-gray-800 truncate">
+              {shared ? shared.title || t.untitled : 'Orion'}
+            </h1>
+            {shared && (
+              <p className="text-xs text-gray-500">
+                {t.sharedOn} {new Date(shared.shared_at).toLocaleString()}
+                {shared.expires_at && ` · ${t.expiresOn} ${new Date(shared.expires_at).toLocaleString()}`}
+              </p>
+            )}
+          </div>
+          <span className="flex items-center gap-1.5 text-xs font-medium text-gray-600 bg-gray-100 rounded-full px-3 py-1 whitespace-nowrap">
+            <Eye className="w-3.5 h-3.5" />
+            {t.readOnly}
+          </span>
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="max-w-4xl mx-auto px-4 py-6">
+        {sharedQuery.isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="w-10 h-10 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : sharedQuery.isError || !shared ? (
+          <div className="text-center py-16">
+            <p className="text-gray-800 font-medium">{t.unavailable}</p>
+            <p className="text-sm text-gray-500 mt-1">{t.unavailableHint}</p>
+          </div>
+        ) : (
+          shared.messages.map(message => (
+            <MessageBubble key={message.id} message={message} readOnly />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedConversationView;
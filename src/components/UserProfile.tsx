@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useQueryClient } from 'react-query';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { useAuth } from '../context/AuthContext';
@@ -6,9 +7,16 @@ import { useLanguage } from '../context/LanguageContext';
 import { useConversation } from '../context/ConversationContext';
 import { getConversationDetails, deleteConversation, getUserConversations, saveMemory, getMemory, updateUserEmail, updateUserPassword } from '../api/orcha';
 import { chat } from '../api/orcha';
+import { getErrorMessage } from '../api/client';
+import { queryKeys } from '../api/queryKeys';
 import type { TokenUsage, ChatMessage } from '../types/orcha';
 import ScheduledTasksManager from './ScheduledTasksManager';
-import { Settings, Eye, EyeOff, ArrowLeft, Mail, Lock } from 'lucide-react';
+import { shareUrl, useShares } from '../hooks/useShares';
+import { translations } from '../translations';
+import { Settings, Eye, EyeOff, ArrowLeft, Mail, Lock, Copy, Check } from 'lucide-react';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('UserProfile');
 
 interface UserProfileProps {
   isOpen: boolean;
@@ -19,7 +27,11 @@ interface UserProfileProps {
 const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }) => {
   const { user, logout, refreshUser } = useAuth();
   const { language } = useLanguage();
+  const tShare = translations[language].share;
   const { refreshConversations } = useConversation();
+  const queryClient = useQueryClient();
+  const { shares, sharesLoading, revokeShare } = useShares(isOpen ? user?.id : undefined);
+  const [copiedShareToken, setCopiedShareToken] = useState<string | null>(null);
   const [showPersonalityAnalysis, setShowPersonalityAnalysis] = useState(false);
   const [personalityAnalysis, setPersonalityAnalysis] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -97,7 +109,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
       // Refresh user data
       await refreshUser();
     } catch (error: any) {
-      const message = error.response?.data?.detail || error.message;
+      const message = getErrorMessage(error, '');
       setEmailError(message || (language === 'en' ? 'Failed to update email' : 'Échec de la mise à jour de l\'email'));
     } finally {
       setEmailLoading(false);
@@ -139,7 +151,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
       setNewPassword('');
       setConfirmPassword('');
     } catch (error: any) {
-      const message = error.response?.data?.detail || error.message;
+      const message = getErrorMessage(error, '');
       setPasswordError(message || (language === 'en' ? 'Failed to update password' : 'Échec de la mise à jour du mot de passe'));
     } finally {
       setPasswordLoading(false);
@@ -154,12 +166,13 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
     setShowStoredMemory(true);
 
     try {
-      console.log('🔍 Loading stored memories for user:', user.id);
-      const response = await getMemory(user.id);
+      log.debug('Loading stored memories', { user_id: user.id });
+      // Served from the cache when fresh, so reopening the panel is instant
+      const response = await queryClient.fetchQuery(queryKeys.memory(user.id), () => getMemory(user.id));
 
       // Check if user has any memories (NEW FORMAT - array)
       if (response.memories && response.memories.length > 0) {
-        console.log(`✅ Found ${response.total} memories`);
+        log.debug(`Found ${response.total} memories`);
 
         // Combine all memory contents into one string
         const combinedContent = response.memories
@@ -174,22 +187,19 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
 
         setStoredMemoryContent(combinedContent);
 
-        // Log memory details
-        response.memories.forEach((memory, index) => {
-          console.log(`Memory ${index + 1}:`, {
-            id: memory.id,
-            title: memory.title || 'Untitled',
-            source: memory.source,
-            tags: memory.tags,
-            created: memory.created_at
-          });
-        });
+        // Memory bodies and titles are user content: only their metadata is logged
+        log.debug('Stored memories', response.memories.map(memory => ({
+          id: memory.id,
+          source: memory.source,
+          tags: memory.tags,
+          created: memory.created_at
+        })));
       } else {
-        console.log('ℹ️ No stored memories found');
+        log.debug('No stored memories found');
         setStoredMemoryContent(null);
       }
     } catch (error) {
-      console.error('Failed to load stored memories:', error);
+      log.error('Failed to load stored memories', error);
       setStoredMemoryContent(null);
     } finally {
       setIsLoadingStoredMemory(false);
@@ -205,35 +215,34 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
 
     try {
       // Fetch fresh conversations for THIS USER ONLY (don't use cached state)
-      console.log('🔍 Fetching conversations for user:', user.id);
       const userConversations = await getUserConversations(user.id);
-      console.log('✅ Fetched', userConversations.length, 'conversations for user', user.id);
 
       // Get last 3 conversations sorted by updated_at
       const sortedConversations = userConversations
         .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
         .slice(0, 3);
 
-      console.log('🧠 Extracting memory from', sortedConversations.length, 'conversations');
-      console.log('📋 Conversation IDs:', sortedConversations.map(c => c.id));
+      log.debug('Extracting memory from conversations', sortedConversations.map(c => c.id));
 
       // Fetch messages from each conversation
       const allUserMessages: string[] = [];
 
       for (const conv of sortedConversations) {
         try {
-          console.log('📖 Fetching messages from conversation', conv.id, 'for user', user.id);
-          const details = await getConversationDetails(user.id, conv.id);
+          const details = await queryClient.fetchQuery(
+            queryKeys.conversation(user.id, conv.id),
+            () => getConversationDetails(user.id, conv.id)
+          );
           const userMessages = (details.messages || [])
             .filter((msg: ChatMessage) => msg.role === 'user')
             .map((msg: ChatMessage) => msg.content);
           allUserMessages.push(...userMessages);
         } catch (error) {
-          console.error('Failed to fetch conversation', conv.id, error);
+          log.error(`Failed to fetch conversation ${conv.id}`, error);
         }
       }
 
-      console.log('📝 Collected', allUserMessages.length, 'user messages');
+      log.debug(`Collected ${allUserMessages.length} user messages`);
 
       if (allUserMessages.length === 0) {
         setPersonalityAnalysis(language === 'en'
@@ -254,21 +263,18 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
         conversation_history: [],
       });
 
-      console.log('🎯 Memory API Response:', response);
-      console.log('📝 Message field:', response.message);
-      console.log('🗑️ Temporary conversation ID:', response.conversation_id);
+      log.debug('Memory extraction response', response);
 
       // Extract the message from the response
       const analysisText = response.message || (language === 'en'
         ? 'No memory available'
         : 'Aucune mémoire disponible');
 
-      console.log('✅ Setting memory:', analysisText);
       setPersonalityAnalysis(analysisText);
 
       // Save memory to backend database with new format
       try {
-        console.log('💾 Saving memory to backend database...');
+        log.debug('Saving extracted memory');
 
         // Generate a title from the first line or first 50 chars
         const firstLine = analysisText.split('\n')[0];
@@ -281,27 +287,27 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
           tags: ['personality', 'preferences', 'auto-generated']
         });
 
-        console.log('✅ Memory saved to database with metadata');
+        log.debug('Extracted memory saved');
+        queryClient.invalidateQueries(queryKeys.memory(user.id));
       } catch (saveError) {
-        console.error('Failed to save memory to database:', saveError);
+        log.error('Failed to save memory to database', saveError);
         // Non-critical error, user still sees the memory
       }
 
       // Delete the temporary conversation so it doesn't appear in history
       if (response.conversation_id) {
         try {
-          console.log('🗑️ Deleting temporary Memory conversation:', response.conversation_id);
+          log.debug(`Deleting temporary memory conversation ${response.conversation_id}`);
           await deleteConversation(user.id, response.conversation_id);
-          console.log('✅ Temporary conversation deleted');
           // Refresh conversations list to remove it from UI
           await refreshConversations();
         } catch (deleteError) {
-          console.error('Failed to delete temporary conversation:', deleteError);
+          log.error('Failed to delete temporary conversation', deleteError);
           // Non-critical error, continue anyway
         }
       }
     } catch (error) {
-      console.error('Memory extraction failed:', error);
+      log.error('Memory extraction failed', error);
       setPersonalityAnalysis(language === 'en'
         ? 'Failed to extract memory. Please try again.'
         : 'Échec de l\'extraction de la mémoire. Veuillez réessayer.');
@@ -749,6 +755,52 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
                       )}
                     </div>
                   </div>
+
+                  {/* Shared Links */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-500 mb-1">
+                      {tShare.manageTitle}
+                    </label>
+                    {sharesLoading ? (
+                      <p className="text-sm text-gray-400 px-1">…</p>
+                    ) : shares.length === 0 ? (
+                      <p className="text-sm text-gray-500 bg-gray-50 rounded-lg px-4 py-3 border border-gray-200">
+                        {tShare.noShares}
+                      </p>
+                    ) : (
+                      <ul className="bg-gray-50 rounded-lg border border-gray-200 divide-y divide-gray-200">
+                        {shares.map(share => (
+                          <li key={share.token} className="flex items-center gap-2 px-4 py-2.5">
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm text-gray-800 truncate">{share.title || tShare.untitled}</p>
+                              <p className="text-xs text-gray-500">
+                                {share.message_count} {tShare.messages} · {share.expires_at
+                                  ? `${tShare.expiresOn} ${new Date(share.expires_at).toLocaleDateString()}`
+                                  : tShare.noExpiry}
+                              </p>
+                            </div>
+                            <button
+                              onClick={async () => {
+                                await navigator.clipboard.writeText(shareUrl(share.token));
+                                setCopiedShareToken(share.token);
+                                setTimeout(() => setCopiedShareToken(null), 2000);
+                              }}
+                              className="p-1.5 text-gray-400 hover:text-blue-600 rounded transition"
+                              title={tShare.copy}
+                            >
+                              {copiedShareToken === share.token ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                            </button>
+                            <button
+                              onClick={() => revokeShare(share.token)}
+                              className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded transition"
+                            >
+                              {tShare.revoke}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
                 </div>
               </>
             )}
@@ -978,6 +1030,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose, tokenUsage }
       <ScheduledTasksManager
         isOpen={showScheduledTasks}
         onClose={() => setShowScheduledTasks(false)}
+        onOpenConversation={onClose}
       />
     </>
   );
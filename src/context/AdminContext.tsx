@@ -1,5 +1,9 @@
 // @refresh reset
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
+import { adminApiClient, getErrorMessage, setUnauthorizedHandler, ADMIN_TOKEN_KEY } from '../api/client';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('admin');
 
 interface Admin {
   id: number;
@@ -25,8 +29,6 @@ interface AdminLoginResult {
 
 const AdminContext = createContext<AdminContextType | undefined>(undefined);
 
-const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:8000/api/v1';
-
 interface AdminProviderProps {
   children: ReactNode;
 }
@@ -38,7 +40,7 @@ export const AdminProvider: React.FC<AdminProviderProps> = ({ children }) => {
 
   // Load admin from localStorage on mount
   useEffect(() => {
-    const savedToken = localStorage.getItem('orion_admin_token');
+    const savedToken = localStorage.getItem(ADMIN_TOKEN_KEY);
     const savedAdmin = localStorage.getItem('orion_admin');
 
     if (savedToken && savedAdmin) {
@@ -46,8 +48,8 @@ export const AdminProvider: React.FC<AdminProviderProps> = ({ children }) => {
         setToken(savedToken);
         setAdmin(JSON.parse(savedAdmin));
       } catch (error) {
-        console.error('Failed to parse saved admin:', error);
-        localStorage.removeItem('orion_admin_token');
+        log.error('Failed to parse saved admin', error);
+        localStorage.removeItem(ADMIN_TOKEN_KEY);
         localStorage.removeItem('orion_admin');
       }
     }
@@ -57,72 +59,54 @@ export const AdminProvider: React.FC<AdminProviderProps> = ({ children }) => {
   // Login admin
   const login = async (username: string, password: string): Promise<AdminLoginResult> => {
     try {
-      console.log('🔐 Admin login attempt...');
-
-      const response = await fetch(`${API_BASE}/admin/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ username, password })
-      });
-
-      if (!response.ok) {
-        let errorMessage = 'Login failed';
-        try {
-          const error = await response.json();
-          errorMessage = error.detail || error.message || 'Login failed';
-        } catch (e) {
-          console.error('Failed to parse error response');
-        }
-        throw new Error(errorMessage);
-      }
+      log.debug('Admin login attempt...');
 
-      const data = await response.json();
+      const response = await adminApiClient.post('/admin/login', { username, password });
+
+      const data = response.data;
 
       // Save to state and localStorage
       setToken(data.access_token);
       setAdmin(data.admin);
 
-      localStorage.setItem('orion_admin_token', data.access_token);
+      localStorage.setItem(ADMIN_TOKEN_KEY, data.access_token);
       localStorage.setItem('orion_admin', JSON.stringify(data.admin));
 
-      console.log('✅ Admin login successful:', data.admin);
+      log.debug('Admin login successful', data.admin);
       return { success: true, admin: data.admin };
     } catch (error: any) {
-      console.error('❌ Admin login error:', error);
-      return { success: false, error: error.message };
+      log.error('Admin login error', error);
+      return { success: false, error: getErrorMessage(error, 'Login failed') };
     }
   };
 
   // Logout
-  const logout = () => {
+  const logout = useCallback(() => {
     setToken(null);
     setAdmin(null);
-    localStorage.removeItem('orion_admin_token');
+    localStorage.removeItem(ADMIN_TOKEN_KEY);
     localStorage.removeItem('orion_admin');
-    console.log('👋 Admin logged out');
-  };
+    log.debug('Admin logged out');
+  }, []);
+
+  // Any authenticated admin request rejected with 401 (expired token) signs the admin out
+  useEffect(() => {
+    setUnauthorizedHandler(ADMIN_TOKEN_KEY, logout);
+    return () => setUnauthorizedHandler(ADMIN_TOKEN_KEY, null);
+  }, [logout]);
 
   // Refresh admin data
   const refreshAdmin = async () => {
     if (!token) return;
 
     try {
-      const response = await fetch(`${API_BASE}/admin/me`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to refresh admin');
-      }
-
-      const adminData: Admin = await response.json();
+      const response = await adminApiClient.get<Admin>('/admin/me');
+      const adminData = response.data;
       setAdmin(adminData);
       localStorage.setItem('orion_admin', JSON.stringify(adminData));
-      console.log('🔄 Admin data refreshed');
+      log.debug('Admin data refreshed');
     } catch (error) {
-      console.error('Failed to refresh admin:', error);
+      log.error('Failed to refresh admin', error);
       logout(); // Token might be expired
     }
   };
@@ -0,0 +1,114 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { AxiosError } from 'axios';
+import { apiClient, USER_TOKEN_KEY } from '../api/client';
+import type { AuthResponse, User } from '../types/orcha';
+import { AuthProvider, useAuth } from './AuthContext';
+
+const registeredUser: User = {
+  id: 12,
+  username: 'jdoe',
+  email: 'jdoe@example.com',
+  full_name: 'Jane Doe',
+  is_active: true,
+  plan_type: 'free',
+  job_title: 'Doctor',
+  created_at: '2026-03-02T09:00:00Z',
+};
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <AuthProvider>{children}</AuthProvider>;
+
+const renderAuth = async () => {
+  const hook = renderHook(() => useAuth(), { wrapper });
+  await waitFor(() => expect(hook.result.current.loading).toBe(false));
+  return hook;
+};
+
+describe('AuthContext registration', () => {
+  it('goes through account details, invitation code and job title before creating the account', async () => {
+    const post = vi.spyOn(apiClient, 'post').mockResolvedValue({
+      data: { access_token: 'new-token', token_type: 'bearer', user: registeredUser } satisfies AuthResponse,
+    });
+    const { result } = await renderAuth();
+
+    // Step 1: account details are kept locally, nothing is sent yet
+    act(() => result.current.startRegistration('jdoe', 'jdoe@example.com', 's3cret', 'Jane Doe'));
+    expect(post).not.toHaveBeenCalled();
+    expect(result.current.pendingInvitation).toBe(true);
+    expect(result.current.isAuthenticated).toBe(true);
+    expect(JSON.parse(localStorage.getItem('aura_pending_registration')!)).toMatchObject({ username: 'jdoe' });
+
+    // Step 2: invitation code accepted
+    act(() => result.current.completeInvitation());
+    expect(result.current.pendingInvitation).toBe(false);
+    expect(result.current.pendingJobTitle).toBe(true);
+
+    // Step 3: the job title completes the registration
+    let outcome: Awaited<ReturnType<typeof result.current.completeRegistration>> | undefined;
+    await act(async () => {
+      outcome = await result.current.completeRegistration('Doctor');
+    });
+
+    expect(post).toHaveBeenCalledWith('/auth/register', {
+      username: 'jdoe',
+      email: 'jdoe@example.com',
+      password: 's3cret',
+      full_name: 'Jane Doe',
+      job_title: 'Doctor',
+    });
+    expect(outcome).toEqual({ success: true, user: registeredUser });
+    expect(result.current.user).toEqual(registeredUser);
+    expect(result.current.token).toBe('new-token');
+    expect(result.current.pendingRegistration).toBeNull();
+    expect(result.current.pendingJobTitle).toBe(false);
+    expect(localStorage.getItem(USER_TOKEN_KEY)).toBe('new-token');
+    expect(localStorage.getItem('aura_pending_registration')).toBeNull();
+  });
+
+  it('resumes at the job title step after a reload', async () => {
+    localStorage.setItem('aura_pending_registration', JSON.stringify({ username: 'jdoe', email: 'jdoe@example.com', password: 's3cret', fullName: '' }));
+    localStorage.setItem('aura_pending_job_title', 'true');
+
+    const { result } = await renderAuth();
+
+    expect(result.current.pendingRegistration).toMatchObject({ username: 'jdoe' });
+    expect(result.current.pendingJobTitle).toBe(true);
+    expect(result.current.pendingInvitation).toBe(false);
+  });
+
+  it('keeps the pending registration when the backend refuses it', async () => {
+    vi.spyOn(apiClient, 'post').mockRejectedValue(
+      new AxiosError('Request failed with status code 400', AxiosError.ERR_BAD_REQUEST, undefined, undefined, {
+        data: { detail: 'Username already registered' },
+        status: 400,
+        statusText: 'Bad Request',
+        headers: {},
+        config: {} as never,
+      })
+    );
+    const { result } = await renderAuth();
+
+    act(() => result.current.startRegistration('jdoe', 'jdoe@example.com', 's3cret'));
+    act(() => result.current.completeInvitation());
+    let outcome: Awaited<ReturnType<typeof result.current.completeRegistration>> | undefined;
+    await act(async () => {
+      outcome = await result.current.completeRegistration('Lawyer');
+    });
+
+    expect(outcome).toEqual({ success: false, error: 'Username already registered' });
+    expect(result.current.user).toBeNull();
+    expect(result.current.pendingRegistration).toMatchObject({ username: 'jdoe' });
+    expect(result.current.pendingJobTitle).toBe(true);
+  });
+
+  it('refuses to complete a registration that was never started', async () => {
+    const post = vi.spyOn(apiClient, 'post');
+    const { result } = await renderAuth();
+
+    const outcome = await result.current.completeRegistration('Engineer');
+
+    expect(outcome).toEqual({ success: false, error: 'No pending registration data' });
+    expect(post).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,10 @@
 // @refresh reset
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
+import { apiClient, getErrorMessage, setUnauthorizedHandler, USER_TOKEN_KEY } from '../api/client';
 import type { User, AuthResponse, JobTitle } from '../types/orcha';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('auth');
 
 interface PendingRegistration {
   username: string;
@@ -33,8 +37,6 @@ interface AuthResult {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:8000/api/v1';
-
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -50,7 +52,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   // Load user and settings from localStorage on mount
   useEffect(() => {
-    const savedToken = localStorage.getItem('aura_token');
+    const savedToken = localStorage.getItem(USER_TOKEN_KEY);
     const savedUser = localStorage.getItem('aura_user');
     const savedPendingReg = localStorage.getItem('aura_pending_registration');
     const isPendingInvitation = localStorage.getItem('aura_pending_invitation') === 'true';
@@ -63,7 +65,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         setPendingInvitation(isPendingInvitation);
         setPendingJobTitle(isPendingJobTitle);
       } catch (error) {
-        console.error('Failed to parse pending registration:', error);
+        log.error('Failed to parse pending registration', error);
         localStorage.removeItem('aura_pending_registration');
       }
     } else if (savedToken && savedUser) {
@@ -74,8 +76,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         setPendingInvitation(isPendingInvitation);
         setPendingJobTitle(isPendingJobTitle);
       } catch (error) {
-        console.error('Failed to parse saved user:', error);
-        localStorage.removeItem('aura_token');
+        log.error('Failed to parse saved user', error);
+        localStorage.removeItem(USER_TOKEN_KEY);
         localStorage.removeItem('aura_user');
         localStorage.removeItem('aura_pending_invitation');
         localStorage.removeItem('aura_pending_job_title');
@@ -104,7 +106,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     localStorage.setItem('aura_pending_registration', JSON.stringify(regData));
     localStorage.setItem('aura_pending_invitation', 'true');
 
-    console.log('📝 Registration data saved, moving to invitation code step');
+    log.debug('Registration data saved, moving to invitation code step');
   };
 
   // Step 3: Complete registration - call API with all data including job title
@@ -114,24 +116,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
 
     try {
-      const response = await fetch(`${API_BASE}/auth/register`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          username: pendingRegistration.username,
-          email: pendingRegistration.email,
-          password: pendingRegistration.password,
-          full_name: pendingRegistration.fullName || null,
-          job_title: jobTitle
-        })
+      const response = await apiClient.post<AuthResponse>('/auth/register', {
+        username: pendingRegistration.username,
+        email: pendingRegistration.email,
+        password: pendingRegistration.password,
+        full_name: pendingRegistration.fullName || null,
+        job_title: jobTitle
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Registration failed');
-      }
-
-      const data: AuthResponse = await response.json();
+      const data = response.data;
 
       // Save to state and localStorage
       setToken(data.access_token);
@@ -145,14 +138,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       localStorage.removeItem('aura_pending_registration');
       localStorage.removeItem('aura_pending_invitation');
       localStorage.removeItem('aura_pending_job_title');
-      localStorage.setItem('aura_token', data.access_token);
+      localStorage.setItem(USER_TOKEN_KEY, data.access_token);
       localStorage.setItem('aura_user', JSON.stringify(data.user));
 
-      console.log('✅ Registration successful:', data.user);
+      log.debug('Registration successful', data.user);
       return { success: true, user: data.user };
     } catch (error: any) {
-      console.error('❌ Registration error:', error);
-      return { success: false, error: error.message };
+      log.error('Registration error', error);
+      return { success: false, error: getErrorMessage(error, 'Registration failed') };
     }
   };
 
@@ -160,31 +153,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const login = async (username: string, password: string): Promise<AuthResult> => {
     try {
       const payload = { username, password };
-      console.log('🔐 Attempting login...');
+      log.debug('Attempting login...');
       // ... existing logs ...
 
-      const response = await fetch(`${API_BASE}/auth/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload)
-      });
+      const response = await apiClient.post<AuthResponse>('/auth/login', payload);
 
-      console.log('📡 Login response status:', response.status);
-
-      if (!response.ok) {
-        let errorMessage = 'Login failed';
-        try {
-          const error = await response.json();
-          errorMessage = error.detail || error.message || 'Login failed';
-        } catch (e) {
-          console.error('Failed to parse error response');
-        }
-        throw new Error(errorMessage);
-      }
+      log.debug('Login response status', response.status);
 
-      const data: AuthResponse = await response.json();
+      const data = response.data;
 
       // Save to state and localStorage
       setToken(data.access_token);
@@ -192,33 +168,39 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setPendingInvitation(false); // Login assumes existing user who has already passed check (or legacy user)
       setPendingJobTitle(false); // Existing users already have job title set
 
-      localStorage.setItem('aura_token', data.access_token);
+      localStorage.setItem(USER_TOKEN_KEY, data.access_token);
       localStorage.setItem('aura_user', JSON.stringify(data.user));
       localStorage.removeItem('aura_pending_invitation');
       localStorage.removeItem('aura_pending_job_title');
 
-      console.log('✅ Login successful:', data.user);
+      log.debug('Login successful', data.user);
       return { success: true, user: data.user };
     } catch (error: any) {
-      console.error('❌ Login error:', error);
-      return { success: false, error: error.message };
+      log.error('Login error', error);
+      return { success: false, error: getErrorMessage(error, 'Login failed') };
     }
   };
 
   // Logout
-  const logout = () => {
+  const logout = useCallback(() => {
     setToken(null);
     setUser(null);
     setPendingInvitation(false);
     setPendingJobTitle(false);
     setPendingRegistration(null);
-    localStorage.removeItem('aura_token');
+    localStorage.removeItem(USER_TOKEN_KEY);
     localStorage.removeItem('aura_user');
     localStorage.removeItem('aura_pending_invitation');
     localStorage.removeItem('aura_pending_job_title');
     localStorage.removeItem('aura_pending_registration');
-    console.log('👋 User logged out');
-  };
+    log.debug('User logged out');
+  }, []);
+
+  // Any authenticated request rejected with 401 (expired token) signs the user out
+  useEffect(() => {
+    setUnauthorizedHandler(USER_TOKEN_KEY, logout);
+    return () => setUnauthorizedHandler(USER_TOKEN_KEY, null);
+  }, [logout]);
 
   // Complete invitation - now moves to job title selection
   const completeInvitation = () => {
@@ -226,7 +208,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setPendingJobTitle(true);
     localStorage.removeItem('aura_pending_invitation');
     localStorage.setItem('aura_pending_job_title', 'true');
-    console.log('✅ Invitation code verified - now select job title');
+    log.debug('Invitation code verified - now select job title');
   };
 
   // Refresh user data
@@ -234,20 +216,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     if (!token) return;
 
     try {
-      const response = await fetch(`${API_BASE}/auth/me`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to refresh user');
-      }
-
-      const userData: User = await response.json();
+      const response = await apiClient.get<User>('/auth/me');
+      const userData = response.data;
       setUser(userData);
       localStorage.setItem('aura_user', JSON.stringify(userData));
-      console.log('🔄 User data refreshed');
+      log.debug('User data refreshed');
     } catch (error) {
-      console.error('Failed to refresh user:', error);
+      log.error('Failed to refresh user', error);
       logout(); // Token might be expired
     }
   };
@@ -0,0 +1,199 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from 'react-query';
+import {
+  createConversation,
+  deleteConversation,
+  getConversationMessages,
+  getUserConversations,
+} from '../api/orcha';
+import { USER_TOKEN_KEY } from '../api/client';
+import type { ChatMessage, Conversation, User } from '../types/orcha';
+import { AuthProvider } from './AuthContext';
+import { ConversationProvider, useConversation } from './ConversationContext';
+
+vi.mock('../api/orcha', () => ({
+  createConversation: vi.fn(),
+  deleteConversation: vi.fn(),
+  getConversationMessages: vi.fn(),
+  getUserConversations: vi.fn(),
+  switchConversationBranch: vi.fn(),
+  updateConversation: vi.fn(),
+}));
+
+const user: User = {
+  id: 1,
+  username: 'demo',
+  email: 'demo@example.com',
+  full_name: null,
+  is_active: true,
+  plan_type: 'free',
+  job_title: 'Engineer',
+  created_at: '2026-01-01T00:00:00Z',
+};
+
+const conversation = (id: number, title: string): Conversation => ({
+  id,
+  title,
+  tenant_id: null,
+  created_at: '2026-03-01T00:00:00Z',
+  updated_at: '2026-03-01T00:00:00Z',
+  message_count: 2,
+});
+
+const message = (id: number, role: ChatMessage['role'], content: string): ChatMessage => ({
+  id,
+  role,
+  content,
+  attachments: [],
+  token_count: null,
+  model_used: null,
+  created_at: '2026-03-01T00:00:00Z',
+});
+
+const messagesByConversation: Record<number, ChatMessage[]> = {
+  1: [message(11, 'user', 'First question'), message(12, 'assistant', 'First answer')],
+  2: [message(21, 'user', 'Second question'), message(22, 'assistant', 'Second answer')],
+};
+
+const renderConversations = async () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <ConversationProvider>{children}</ConversationProvider>
+      </AuthProvider>
+    </QueryClientProvider>
+  );
+
+  const hook = renderHook(() => useConversation(), { wrapper });
+  await waitFor(() => expect(hook.result.current.messages).toHaveLength(2));
+  return hook;
+};
+
+beforeEach(() => {
+  localStorage.setItem(USER_TOKEN_KEY, 'mock-token-1');
+  localStorage.setItem('aura_user', JSON.stringify(user));
+
+  vi.mocked(getUserConversations).mockResolvedValue([conversation(1, 'Budget'), conversation(2, 'Roadmap')]);
+  vi.mocked(getConversationMessages).mockImplementation(async (_userId, conversationId) => ({
+    messages: messagesByConversation[conversationId] ?? [],
+    next_cursor: null,
+    has_more: false,
+  }));
+});
+
+describe('ConversationContext', () => {
+  it('opens the most recent conversation', async () => {
+    const { result } = await renderConversations();
+
+    expect(result.current.conversations.map(c => c.id)).toEqual([1, 2]);
+    expect(result.current.currentConversationId).toBe(1);
+    expect(result.current.messages.map(m => m.content)).toEqual(['First question', 'First answer']);
+  });
+
+  it('creates a conversation and switches to it', async () => {
+    vi.mocked(createConversation).mockResolvedValue(conversation(3, 'New Chat'));
+    const { result } = await renderConversations();
+
+    let createdId: number | null = null;
+    await act(async () => {
+      createdId = await result.current.createNewConversation();
+    });
+
+    expect(createConversation).toHaveBeenCalledWith({ user_id: 1, title: 'New Chat', tenant_id: undefined });
+    expect(createdId).toBe(3);
+    expect(result.current.currentConversationId).toBe(3);
+    expect(result.current.conversations.map(c => c.id)).toEqual([3, 1, 2]);
+    expect(result.current.messages).toEqual([]);
+  });
+
+  it('reports a conversation that could not be created', async () => {
+    vi.mocked(createConversation).mockRejectedValue(new Error('Backend unavailable'));
+    const { result } = await renderConversations();
+
+    let createdId: number | null = 0;
+    await act(async () => {
+      createdId = await result.current.createNewConversation();
+    });
+
+    expect(createdId).toBeNull();
+    expect(result.current.error).toBe('Backend unavailable');
+    expect(result.current.currentConversationId).toBe(1);
+  });
+
+  it('loads the messages of the conversation it switches to', async () => {
+    const { result } = await renderConversations();
+
+    await act(async () => {
+      await result.current.switchConversation(2);
+    });
+
+    await waitFor(() => expect(result.current.messages.map(m => m.id)).toEqual([21, 22]));
+    expect(result.current.currentConversationId).toBe(2);
+    expect(getConversationMessages).toHaveBeenCalledWith(1, 2, undefined);
+  });
+
+  it('deletes the open conversation and moves to the next one', async () => {
+    vi.mocked(deleteConversation).mockResolvedValue(undefined as never);
+    const { result } = await renderConversations();
+
+    await act(async () => {
+      await result.current.deleteConversation(1);
+    });
+
+    expect(deleteConversation).toHaveBeenCalledWith(1, 1);
+    expect(result.current.conversations.map(c => c.id)).toEqual([2]);
+    expect(result.current.currentConversationId).toBe(2);
+    await waitFor(() => expect(result.current.messages.map(m => m.id)).toEqual([21, 22]));
+  });
+
+  it('puts the conversation back when the backend refuses to delete it', async () => {
+    vi.mocked(deleteConversation).mockRejectedValue(new Error('Conversation is shared'));
+    const { result } = await renderConversations();
+
+    await act(async () => {
+      await result.current.deleteConversation(1);
+    });
+
+    expect(result.current.conversations.map(c => c.id)).toEqual([1, 2]);
+    expect(result.current.currentConversationId).toBe(1);
+    expect(result.current.error).toBe('Conversation is shared');
+  });
+
+  it('starts a new conversation after deleting the last one', async () => {
+    vi.mocked(getUserConversations).mockResolvedValue([conversation(1, 'Budget')]);
+    vi.mocked(deleteConversation).mockResolvedValue(undefined as never);
+    vi.mocked(createConversation).mockResolvedValue(conversation(4, 'New Chat'));
+    const { result } = await renderConversations();
+
+    await act(async () => {
+      await result.current.deleteConversation(1);
+    });
+
+    expect(createConversation).toHaveBeenCalled();
+    expect(result.current.conversations.map(c => c.id)).toEqual([4]);
+    expect(result.current.currentConversationId).toBe(4);
+  });
+
+  it('refetches only the newest page after a chat turn', async () => {
+    const { result } = await renderConversations();
+    vi.mocked(getConversationMessages).mockClear();
+    vi.mocked(getConversationMessages).mockResolvedValueOnce({
+      messages: [...messagesByConversation[1], message(13, 'user', 'Follow-up'), message(14, 'assistant', 'Follow-up answer')],
+      next_cursor: null,
+      has_more: false,
+    });
+
+    act(() => {
+      result.current.addMessage({ ...message(-1, 'user', 'Follow-up') });
+      result.current.completeChatTurn(1, { ...message(-2, 'assistant', 'Follow-up answer') });
+    });
+
+    await waitFor(() => expect(result.current.messages.map(m => m.id)).toEqual([11, 12, 13, 14]));
+    expect(getConversationMessages).toHaveBeenCalledTimes(1);
+    expect(getConversationMessages).toHaveBeenCalledWith(1, 1);
+    expect(result.current.conversations[0].message_count).toBe(4);
+  });
+});
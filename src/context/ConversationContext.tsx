@@ -1,20 +1,49 @@
 // @refresh reset
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode, useCallback } from 'react';
+import { useInfiniteQuery, useQueryClient, type InfiniteData } from 'react-query';
 import { useAuth } from './AuthContext';
 import {
   createConversation,
   getUserConversations,
-  getConversationDetails,
+  getConversationMessages,
+  switchConversationBranch,
   updateConversation,
   deleteConversation as deleteConversationAPI
 } from '../api/orcha';
-import type { Conversation, ChatMessage, CreateConversationRequest, UpdateConversationRequest } from '../types/orcha';
+import { queryKeys } from '../api/queryKeys';
+import type { Conversation, ChatMessage, CreateConversationRequest, MessagePage, UpdateConversationRequest } from '../types/orcha';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('conversations');
+
+// Stable empty list so effects depending on `messages` don't re-run on every render
+const NO_MESSAGES: ChatMessage[] = [];
+
+// The conversation list is paged by offset as the sidebar scrolls
+const CONVERSATIONS_PAGE_SIZE = 50;
+
+interface ConversationPage {
+  conversations: Conversation[];
+  has_more: boolean;
+}
+
+const flattenConversationPages = (data: InfiniteData<ConversationPage> | undefined): Conversation[] =>
+  data ? data.pages.flatMap(page => page.conversations) : [];
 
 interface ConversationContextType {
   conversations: Conversation[];
   currentConversationId: number | null;
   currentConversation: Conversation | null;
+  hasMoreConversations: boolean;
+  loadingMoreConversations: boolean;
+  loadMoreConversations: () => Promise<void>;
   messages: ChatMessage[];
+  hasEarlierMessages: boolean;
+  loadingEarlierMessages: boolean;
+  loadEarlierMessages: () => Promise<void>;
+  focusedMessageId: number | null;
+  jumpToMessage: (conversationId: number, messageId: number) => void;
+  clearFocusedMessage: () => void;
   loading: boolean;
   error: string | null;
   createNewConversation: () => Promise<number | null>;
@@ -25,6 +54,11 @@ interface ConversationContextType {
   refreshMessages: () => Promise<void>;
   clearCurrentConversation: () => void;
   addMessage: (message: ChatMessage) => void;
+  removeMessage: (id: number) => void;
+  truncateMessagesFrom: (id: number) => void;
+  switchBranch: (messageId: number) => Promise<void>;
+  completeChatTurn: (conversationId: number, reply: ChatMessage) => void;
+  refreshNewestPage: (conversationId: number) => Promise<void>; // replaces temporary messages with what the backend stored
 }
 
 const ConversationContext = createContext<ConversationContextType | undefined>(undefined);
@@ -35,107 +69,192 @@ interface ConversationProviderProps {
 
 export const ConversationProvider: React.FC<ConversationProviderProps> = ({ children }) => {
   const { user, loading: authLoading } = useAuth();
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const queryClient = useQueryClient();
+  const userId = user?.id;
   const [currentConversationId, setCurrentConversationId] = useState<number | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const previousConversationIdRef = useRef<number | null>(null);
-
-  const refreshConversations = useCallback(async () => {
-    if (!user) return;
+  // Message to scroll to (e.g. a search result), possibly in a page that isn't loaded yet
+  const [focusedMessageId, setFocusedMessageId] = useState<number | null>(null);
+
+  // The list and the open conversation come from the query cache: cached data renders
+  // instantly when switching back, and is revalidated in the background once stale.
+  const conversationsQuery = useInfiniteQuery(
+    queryKeys.conversations(userId),
+    async ({ pageParam = 0 }): Promise<ConversationPage> => {
+      const conversations = await getUserConversations(userId!, CONVERSATIONS_PAGE_SIZE, pageParam);
+      return { conversations, has_more: conversations.length === CONVERSATIONS_PAGE_SIZE };
+    },
+    {
+      enabled: !!userId && !authLoading,
+      // The next offset is what's loaded so far (local inserts/deletes keep it in step with the server)
+      getNextPageParam: (lastPage, allPages) =>
+        lastPage.has_more ? allPages.reduce((count, page) => count + page.conversations.length, 0) : undefined,
+      onError: (err) => {
+        // Don't set error for now, just log it - this might be expected if backend is not running
+        log.error('Failed to refresh conversations', err);
+      },
+    }
+  );
 
-    setLoading(true);
-    setError(null);
-    try {
-      console.log('🔄 Fetching conversations for user:', user.id);
-      const fetchedConversations = await getUserConversations(user.id);
-      console.log('✅ Conversations fetched:', fetchedConversations);
-
-      // Store the current conversation ID before updating
-      const previousConversationId = currentConversationId;
-
-      setConversations(fetchedConversations);
-
-      // Only auto-select first conversation if there's no current conversation
-      // This prevents switching away from the current conversation after sending a message
-      if (!previousConversationId && fetchedConversations.length > 0) {
-        console.log('📌 No current conversation, selecting first one:', fetchedConversations[0].id);
-        setCurrentConversationId(fetchedConversations[0].id);
-      } else if (previousConversationId) {
-        console.log('📌 Keeping current conversation:', previousConversationId);
-        // Verify the current conversation still exists in the fetched list
-        const conversationExists = fetchedConversations.some(c => c.id === previousConversationId);
-        if (!conversationExists && fetchedConversations.length > 0) {
-          console.log('⚠️ Current conversation no longer exists, selecting first one');
-          setCurrentConversationId(fetchedConversations[0].id);
-        }
-      }
-    } catch (err) {
-      console.error('❌ Failed to refresh conversations:', err);
-      // Don't set error for now, just log it - this might be expected if backend is not running
-      console.log('⚠️ Backend might not be running, continuing with empty conversations');
-      setConversations([]);
-    } finally {
-      setLoading(false);
+  // Messages are paged from the newest backwards: pages[0] holds the latest messages
+  const messagesQuery = useInfiniteQuery(
+    queryKeys.messages(userId, currentConversationId),
+    ({ pageParam }) => getConversationMessages(userId!, currentConversationId!, pageParam),
+    {
+      enabled: !!userId && !!currentConversationId && !authLoading,
+      getNextPageParam: (lastPage) => (lastPage.has_more ? lastPage.next_cursor ?? undefined : undefined),
+      onError: (err) => {
+        log.error('Failed to load conversation messages', err);
+      },
     }
-  }, [user, currentConversationId]);
+  );
 
-  const loadConversationMessages = useCallback(async () => {
-    if (!user || !currentConversationId) return;
+  const conversationPages = conversationsQuery.data;
+  const conversations = useMemo(() => flattenConversationPages(conversationPages), [conversationPages]);
+  const messagePages = messagesQuery.data?.pages;
+  const messages = useMemo(
+    () => (messagePages ? [...messagePages].reverse().flatMap(page => page.messages) : NO_MESSAGES),
+    [messagePages]
+  );
 
-    setLoading(true);
-    setError(null);
-    try {
-      const conversationDetails = await getConversationDetails(user.id, currentConversationId);
-      setMessages(conversationDetails.messages || []);
-    } catch (err) {
-      console.error('❌ Failed to load conversation messages:', err);
-      // Don't set error for now, just log it - this might be expected if backend is not running
-      console.log('⚠️ Backend might not be running, continuing with empty messages');
-      setMessages([]);
-    } finally {
-      setLoading(false);
+  // Clear state when user logs out
+  useEffect(() => {
+    if (authLoading || user) return;
+    setCurrentConversationId(null);
+    setFocusedMessageId(null);
+    queryClient.removeQueries('conversations');
+    queryClient.removeQueries('conversation');
+    queryClient.removeQueries('messages');
+  }, [user, authLoading, queryClient]);
+
+  // Only auto-select first conversation if there's no current conversation (or it was deleted)
+  // This prevents switching away from the current conversation after sending a message
+  useEffect(() => {
+    const fetchedConversations = flattenConversationPages(conversationPages);
+    if (fetchedConversations.length === 0) return;
+    // A conversation missing from a partial list may just be older (e.g. opened from search results)
+    const isFullyLoaded = !conversationPages?.pages[conversationPages.pages.length - 1].has_more;
+
+    if (!currentConversationId) {
+      log.debug('No current conversation, selecting first one', fetchedConversations[0].id);
+      setCurrentConversationId(fetchedConversations[0].id);
+    } else if (isFullyLoaded && !fetchedConversations.some(c => c.id === currentConversationId)) {
+      log.debug('Current conversation no longer exists, selecting first one');
+      setCurrentConversationId(fetchedConversations[0].id);
     }
-  }, [user, currentConversationId]);
-
-  // Load conversations when user changes
+  }, [conversationPages, currentConversationId]);
+
+  const getCachedConversations = useCallback(() => (
+    flattenConversationPages(queryClient.getQueryData<InfiniteData<ConversationPage>>(queryKeys.conversations(userId)))
+  ), [queryClient, userId]);
+
+  // Apply a change to the loaded list; pages keep their sizes except the first, which absorbs inserts/removals
+  const setCachedConversations = useCallback((updater: (conversations: Conversation[]) => Conversation[]) => {
+    queryClient.setQueryData<InfiniteData<ConversationPage>>(queryKeys.conversations(userId), prev => {
+      const pages = prev?.pages ?? [{ conversations: [], has_more: false }];
+      const updated = updater(pages.flatMap(page => page.conversations));
+      const laterPagesSize = pages.slice(1).reduce((count, page) => count + page.conversations.length, 0);
+      let offset = Math.max(0, updated.length - laterPagesSize);
+      const newPages = pages.map((page, index) => {
+        if (index === 0) return { ...page, conversations: updated.slice(0, offset) };
+        const conversations = updated.slice(offset, offset + page.conversations.length);
+        offset += page.conversations.length;
+        return { ...page, conversations };
+      });
+      return { pages: newPages, pageParams: prev?.pageParams ?? [undefined] };
+    });
+  }, [queryClient, userId]);
+
+  // Page back through the history until the focused message is loaded (or there is nothing left)
+  const { hasNextPage: hasEarlierPages, isFetchingNextPage: fetchingEarlierPages, isSuccess: messagesLoaded, fetchNextPage: fetchEarlierPage } = messagesQuery;
   useEffect(() => {
-    if (authLoading) return; // Wait for auth to finish loading
+    if (focusedMessageId === null || !messagesLoaded || fetchingEarlierPages) return;
+    if (messages.some(m => m.id === focusedMessageId)) return;
 
-    if (user) {
-      refreshConversations();
+    if (hasEarlierPages) {
+      fetchEarlierPage();
     } else {
-      // Clear state when user logs out
-      setConversations([]);
-      setCurrentConversationId(null);
-      setMessages([]);
+      log.warn('Focused message not found in conversation', focusedMessageId);
+      setFocusedMessageId(null);
     }
-  }, [user, authLoading, refreshConversations]);
+  }, [focusedMessageId, messages, messagesLoaded, hasEarlierPages, fetchingEarlierPages, fetchEarlierPage]);
 
-  // Load messages when conversation changes
-  useEffect(() => {
-    if (authLoading) return; // Wait for auth to finish loading
-
-    // Only reload messages if the conversation ID actually changed
-    if (user && currentConversationId) {
-      if (previousConversationIdRef.current !== currentConversationId) {
-        console.log('🔄 Conversation changed, loading messages:', currentConversationId);
-        previousConversationIdRef.current = currentConversationId;
-        loadConversationMessages();
-      } else {
-        console.log('📌 Same conversation, skipping message reload');
-      }
-    } else {
-      previousConversationIdRef.current = null;
-      setMessages([]);
+  const jumpToMessage = useCallback((conversationId: number, messageId: number) => {
+    setCurrentConversationId(conversationId);
+    setFocusedMessageId(messageId);
+  }, []);
+
+  const clearFocusedMessage = useCallback(() => {
+    setFocusedMessageId(null);
+  }, []);
+
+  // Apply a change to every loaded page of a conversation's messages
+  const setCachedPages = useCallback((conversationId: number | null, updater: (messages: ChatMessage[], pageIndex: number) => ChatMessage[]) => {
+    queryClient.setQueryData<InfiniteData<MessagePage>>(queryKeys.messages(userId, conversationId), prev => {
+      // Nothing cached yet (conversation not loaded): start from a single empty page
+      const base = prev ?? { pages: [{ messages: [], next_cursor: null, has_more: false }], pageParams: [undefined] };
+      return { ...base, pages: base.pages.map((page, index) => ({ ...page, messages: updater(page.messages, index) })) };
+    });
+  }, [queryClient, userId]);
+
+  const appendCachedMessage = useCallback((conversationId: number | null, message: ChatMessage) => {
+    setCachedPages(conversationId, (pageMessages, pageIndex) => (pageIndex === 0 ? [...pageMessages, message] : pageMessages));
+  }, [setCachedPages]);
+
+  // Refetch only the newest page and merge it in, so temporary messages get their server IDs
+  // without reloading every earlier page
+  const refreshNewestPage = useCallback(async (conversationId: number) => {
+    if (!userId) return;
+    const key = queryKeys.messages(userId, conversationId);
+    const cachedNewest = queryClient.getQueryData<InfiniteData<MessagePage>>(key)?.pages[0]?.messages ?? [];
+    const replacedIds = new Set(cachedNewest.filter(m => m.id < 0).map(m => m.id));
+
+    let newest: MessagePage;
+    try {
+      newest = await getConversationMessages(userId, conversationId);
+    } catch (err) {
+      log.warn('Failed to refresh newest messages, revalidating the conversation', err);
+      await queryClient.invalidateQueries(key);
+      return;
     }
-  }, [user, currentConversationId, authLoading, loadConversationMessages]);
+
+    const newestIds = new Set(newest.messages.map(m => m.id));
+    setCachedPages(conversationId, (pageMessages, pageIndex) => {
+      // After an edit the fetched page can reach into earlier pages: drop the copies there
+      if (pageIndex !== 0) return pageMessages.filter(m => !newestIds.has(m.id));
+      // Keep the persisted messages older than the fetched page and anything sent in the meantime
+      const overlap = pageMessages.findIndex(m => newestIds.has(m.id));
+      const older = (overlap === -1 ? pageMessages : pageMessages.slice(0, overlap)).filter(m => m.id > 0);
+      const sentSince = pageMessages.filter(m => m.id < 0 && !replacedIds.has(m.id));
+      return [...older, ...newest.messages, ...sentSince];
+    });
+  }, [queryClient, userId, setCachedPages]);
+
+  const refreshConversations = useCallback(async () => {
+    if (!userId) return;
+    log.debug('Revalidating conversations for user', userId);
+    await queryClient.invalidateQueries(queryKeys.conversations(userId));
+  }, [queryClient, userId]);
+
+  const refreshMessages = useCallback(async () => {
+    if (!userId || !currentConversationId) return;
+    log.debug('Revalidating messages for current conversation');
+    await queryClient.invalidateQueries(queryKeys.messages(userId, currentConversationId));
+  }, [queryClient, userId, currentConversationId]);
+
+  const loadMoreConversations = useCallback(async () => {
+    if (!conversationsQuery.hasNextPage || conversationsQuery.isFetchingNextPage) return;
+    await conversationsQuery.fetchNextPage();
+  }, [conversationsQuery]);
+
+  const loadEarlierMessages = useCallback(async () => {
+    if (!messagesQuery.hasNextPage || messagesQuery.isFetchingNextPage) return;
+    await messagesQuery.fetchNextPage();
+  }, [messagesQuery]);
 
   const createNewConversation = useCallback(async () => {
     if (!user) return null;
 
-    setLoading(true);
     setError(null);
     try {
       const payload: CreateConversationRequest = {
@@ -145,18 +264,16 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({ chil
       };
 
       const newConversation = await createConversation(payload);
-      setConversations(prev => [newConversation, ...prev]);
+      setCachedConversations(prev => [newConversation, ...prev]);
+      setCachedPages(newConversation.id, () => []);
       setCurrentConversationId(newConversation.id);
-      setMessages([]);
       return newConversation.id;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create conversation');
-      console.error('Failed to create conversation:', err);
+      log.error('Failed to create conversation', err);
       return null;
-    } finally {
-      setLoading(false);
     }
-  }, [user]);
+  }, [user, setCachedConversations, setCachedPages]);
 
   const switchConversation = useCallback(async (id: number) => {
     setCurrentConversationId(id);
@@ -165,63 +282,122 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({ chil
   const deleteConversation = useCallback(async (id: number) => {
     if (!user) return;
 
-    setLoading(true);
     setError(null);
+    // Remove it right away and put the list back if the backend refuses
+    const previousConversations = getCachedConversations();
+    const remainingConversations = previousConversations.filter(c => c.id !== id);
+    setCachedConversations(() => remainingConversations);
+
+    // If deleting current conversation, switch to another or create new
+    if (id === currentConversationId && remainingConversations.length > 0) {
+      setCurrentConversationId(remainingConversations[0].id);
+    }
+
     try {
       await deleteConversationAPI(user.id, id);
-      setConversations(prev => prev.filter(c => c.id !== id));
+      queryClient.removeQueries(queryKeys.messages(user.id, id));
 
-      // If deleting current conversation, switch to another or create new
-      if (id === currentConversationId) {
-        const remainingConversations = conversations.filter(c => c.id !== id);
-        if (remainingConversations.length > 0) {
-          setCurrentConversationId(remainingConversations[0].id);
-        } else {
-          await createNewConversation();
-        }
+      if (id === currentConversationId && remainingConversations.length === 0) {
+        await createNewConversation();
       }
     } catch (err) {
+      setCachedConversations(() => previousConversations);
+      if (id === currentConversationId) {
+        setCurrentConversationId(id);
+      }
       setError(err instanceof Error ? err.message : 'Failed to delete conversation');
-      console.error('Failed to delete conversation:', err);
-    } finally {
-      setLoading(false);
+      log.error('Failed to delete conversation', err);
     }
-  }, [user, currentConversationId, conversations, createNewConversation]);
+  }, [user, queryClient, currentConversationId, createNewConversation, getCachedConversations, setCachedConversations]);
 
   const updateConversationTitle = useCallback(async (id: number, title: string) => {
     if (!user) return;
 
-    setLoading(true);
     setError(null);
+    const previousConversations = getCachedConversations();
+    setCachedConversations(prev => prev.map(conv => conv.id === id ? { ...conv, title } : conv));
+
     try {
       const payload: UpdateConversationRequest = { title };
       const updatedConversation = await updateConversation(user.id, id, payload);
 
-      setConversations(prev =>
+      setCachedConversations(prev =>
         prev.map(conv => conv.id === id ? updatedConversation : conv)
       );
     } catch (err) {
+      setCachedConversations(() => previousConversations);
       setError(err instanceof Error ? err.message : 'Failed to update conversation title');
-      console.error('Failed to update conversation title:', err);
-    } finally {
-      setLoading(false);
+      log.error('Failed to update conversation title', err);
     }
-  }, [user]);
+  }, [user, getCachedConversations, setCachedConversations]);
 
   const clearCurrentConversation = useCallback(() => {
-    setMessages([]);
-  }, []);
-
-  const refreshMessages = useCallback(async () => {
-    console.log('🔄 Manually refreshing messages for current conversation');
-    await loadConversationMessages();
-  }, [loadConversationMessages]);
+    setCachedPages(currentConversationId, () => []);
+  }, [currentConversationId, setCachedPages]);
 
   const addMessage = useCallback((message: ChatMessage) => {
-    setMessages(prev => [...prev, message]);
-  }, []);
+    appendCachedMessage(currentConversationId, message);
+  }, [currentConversationId, appendCachedMessage]);
+
+  const removeMessage = useCallback((id: number) => {
+    setCachedPages(currentConversationId, pageMessages => pageMessages.filter(m => m.id !== id));
+  }, [currentConversationId, setCachedPages]);
+
+  // Hide a message and everything after it, e.g. while its edited version is being sent as a new branch
+  const truncateMessagesFrom = useCallback((id: number) => {
+    const key = queryKeys.messages(userId, currentConversationId);
+    const cached = queryClient.getQueryData<InfiniteData<MessagePage>>(key);
+    // pages[0] holds the newest messages: pages newer than the one containing `id` are emptied
+    const pageIndex = cached?.pages.findIndex(page => page.messages.some(m => m.id === id)) ?? -1;
+    if (!cached || pageIndex === -1) return;
+
+    const pages = cached.pages.map((page, index) => {
+      if (index < pageIndex) return { ...page, messages: [] };
+      if (index > pageIndex) return page;
+      return { ...page, messages: page.messages.slice(0, page.messages.findIndex(m => m.id === id)) };
+    });
+    queryClient.setQueryData(key, { ...cached, pages });
+  }, [queryClient, userId, currentConversationId]);
+
+  const switchBranch = useCallback(async (messageId: number) => {
+    if (!userId || !currentConversationId) return;
+
+    setError(null);
+    try {
+      await switchConversationBranch(userId, currentConversationId, messageId);
+      await queryClient.invalidateQueries(queryKeys.messages(userId, currentConversationId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch branch');
+      log.error('Failed to switch branch', err);
+    }
+  }, [queryClient, userId, currentConversationId]);
+
+  /**
+   * Record a finished chat exchange: the reply is shown right away from the cache and the
+   * conversation moves to the top of the list, while the newest page is refetched in the
+   * background to pick up the persisted messages with their server IDs.
+   */
+  const completeChatTurn = useCallback((conversationId: number, reply: ChatMessage) => {
+    if (!userId) return;
+
+    const listed = getCachedConversations().find(c => c.id === conversationId);
+
+    if (!listed) {
+      // The backend created this conversation: fetch the list, then its messages
+      refreshConversations();
+      return;
+    }
+
+    appendCachedMessage(conversationId, reply);
+    setCachedConversations(prev => [
+      { ...listed, updated_at: reply.created_at, message_count: listed.message_count + 2 },
+      ...prev.filter(c => c.id !== conversationId),
+    ]);
+    refreshNewestPage(conversationId);
+  }, [userId, refreshConversations, getCachedConversations, appendCachedMessage, setCachedConversations, refreshNewestPage]);
 
   const currentConversation = conversations.find(c => c.id === currentConversationId) || null;
+  const loading = conversationsQuery.isLoading || messagesQuery.isLoading;
 
   return (
     <ConversationContext.Provider
@@ -229,7 +405,16 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({ chil
         conversations,
         currentConversationId,
         currentConversation,
+        hasMoreConversations: !!conversationsQuery.hasNextPage,
+        loadingMoreConversations: conversationsQuery.isFetchingNextPage,
+        loadMoreConversations,
         messages,
+        hasEarlierMessages: !!messagesQuery.hasNextPage,
+        loadingEarlierMessages: messagesQuery.isFetchingNextPage,
+        loadEarlierMessages,
+        focusedMessageId,
+        jumpToMessage,
+        clearFocusedMessage,
         loading,
         error,
         createNewConversation,
@@ -240,6 +425,11 @@ export const ConversationProvider: React.FC<ConversationProviderProps> = ({ chil
         refreshMessages,
         clearCurrentConversation,
         addMessage,
+        removeMessage,
+        truncateMessagesFrom,
+        switchBranch,
+        completeChatTurn,
+        refreshNewestPage,
       }}
     >
       {children}
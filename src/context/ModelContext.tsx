@@ -10,6 +10,8 @@ interface ModelContextType {
   setAgentMode: (isAgent: boolean) => void;
   isProMode: boolean;
   setProMode: (isPro: boolean) => void;
+  isRouteMode: boolean; // Messages go through ORCHA routing before being dispatched
+  setRouteMode: (isRoute: boolean) => void;
 }
 
 const ModelContext = createContext<ModelContextType | undefined>(undefined);
@@ -24,6 +26,7 @@ export const ModelProvider: React.FC<ModelProviderProps> = ({ children }) => {
   const [currentModel, setCurrentModel] = useState<ModelType>('chat');
   const [isAgentMode, setAgentMode] = useState(false);
   const [isProMode, setProMode] = useState(false);
+  const [isRouteMode, setRouteMode] = useState(false);
 
   // Load model from localStorage on mount
   useEffect(() => {
@@ -43,7 +46,7 @@ export const ModelProvider: React.FC<ModelProviderProps> = ({ children }) => {
   };
 
   return (
-    <ModelContext.Provider value={{ currentModel, setModel, isAgentMode, setAgentMode, isProMode, setProMode }}>
+    <ModelContext.Provider value={{ currentModel, setModel, isAgentMode, setAgentMode, isProMode, setProMode, isRouteMode, setRouteMode }}>
       {children}
     </ModelContext.Provider>
   );
@@ -2,6 +2,9 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import type { Session } from '../types/orcha';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('session');
 
 interface SessionContextType {
   session: Session | null;
@@ -28,7 +31,7 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
         const parsed = JSON.parse(storedSession);
         setSession(parsed);
       } catch (error) {
-        console.error('Failed to parse stored session:', error);
+        log.error('Failed to parse stored session', error);
         localStorage.removeItem(SESSION_STORAGE_KEY);
       }
     }
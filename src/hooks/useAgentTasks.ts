@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { createAgentTask, deleteAgentTask, getAgentTaskRuns, getAgentTasks, updateAgentTask } from '../api/orcha';
+import { queryKeys } from '../api/queryKeys';
+import { createLogger } from '../services/logger';
+import type { AgentTask, CreateAgentTaskRequest, UpdateAgentTaskRequest } from '../types/orcha';
+
+const log = createLogger('agentTasks');
+
+interface AgentTaskMutationContext {
+  previousTasks: AgentTask[] | undefined;
+}
+
+/**
+ * Scheduled agent tasks of a user, stored and run by the backend. Toggling and deleting
+ * update the cache optimistically and roll back if the backend rejects the change.
+ *
+ * @param userId - The signed-in user, or undefined while signed out
+ */
+export const useAgentTasks = (userId: number | undefined) => {
+  const queryClient = useQueryClient();
+  const key = queryKeys.agentTasks(userId);
+
+  const tasksQuery = useQuery(key, () => getAgentTasks(userId!), {
+    enabled: !!userId,
+    onError: (error) => {
+      log.error('Failed to load agent tasks', error);
+    },
+  });
+
+  const applyOptimistic = async (updater: (tasks: AgentTask[]) => AgentTask[]): Promise<AgentTaskMutationContext> => {
+    await queryClient.cancelQueries(key);
+    const previousTasks = queryClient.getQueryData<AgentTask[]>(key);
+    queryClient.setQueryData<AgentTask[]>(key, updater(previousTasks ?? []));
+    return { previousTasks };
+  };
+
+  const rollback = (error: unknown, _variables: unknown, context: AgentTaskMutationContext | undefined) => {
+    log.error('Agent task change rejected, restoring previous tasks', error);
+    if (context?.previousTasks) {
+      queryClient.setQueryData(key, context.previousTasks);
+    }
+  };
+
+  // The backend computes next_run, so every change ends with the task it returns
+  const replaceTask = (task: AgentTask) => {
+    queryClient.setQueryData<AgentTask[]>(key, prev => {
+      const tasks = prev ?? [];
+      return tasks.some(t => t.id === task.id) ? tasks.map(t => t.id === task.id ? task : t) : [...tasks, task];
+    });
+  };
+
+  const createMutation = useMutation(
+    (payload: Omit<CreateAgentTaskRequest, 'user_id'>) => createAgentTask({ ...payload, user_id: userId! }),
+    { onSuccess: replaceTask }
+  );
+
+  const updateMutation = useMutation(
+    ({ taskId, changes }: { taskId: number; changes: UpdateAgentTaskRequest }) => updateAgentTask(userId!, taskId, changes),
+    {
+      onMutate: ({ taskId, changes }) => applyOptimistic(tasks => tasks.map(t => t.id === taskId ? { ...t, ...changes } : t)),
+      onSuccess: replaceTask,
+      onError: rollback,
+    }
+  );
+
+  const deleteMutation = useMutation(
+    (taskId: number) => deleteAgentTask(userId!, taskId),
+    {
+      onMutate: (taskId) => applyOptimistic(tasks => tasks.filter(t => t.id !== taskId)),
+      onError: rollback,
+      onSettled: () => queryClient.invalidateQueries(key),
+    }
+  );
+
+  return {
+    tasks: tasksQuery.data ?? [],
+    tasksLoading: tasksQuery.isLoading,
+    createTask: createMutation.mutateAsync,
+    updateTask: (taskId: number, changes: UpdateAgentTaskRequest) => updateMutation.mutateAsync({ taskId, changes }),
+    deleteTask: deleteMutation.mutateAsync,
+  };
+};
+
+/**
+ * Run log of one agent task, most recent first
+ *
+ * @param userId - The signed-in user, or undefined while signed out
+ * @param taskId - The task whose runs to load, or null for none
+ */
+export const useAgentTaskRuns = (userId: number | undefined, taskId: number | null) => {
+  const runsQuery = useQuery(queryKeys.agentTaskRuns(userId, taskId), () => getAgentTaskRuns(userId!, taskId!), {
+    enabled: !!userId && taskId !== null,
+    onError: (error) => {
+      log.error('Failed to load agent task runs', error);
+    },
+  });
+
+  return {
+    runs: runsQuery.data ?? [],
+    runsLoading: runsQuery.isLoading,
+  };
+};
@@ -0,0 +1,88 @@
+import { useState, useRef, useCallback } from 'react';
+import { uploadFile } from '../api/orcha';
+import { isRequestCancelled } from '../api/client';
+import type { Attachment } from '../types/orcha';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('uploads');
+
+/**
+ * Manage the attachments of a message input: each selected file is uploaded right away
+ * (multipart, with progress) and ends up referenced by its `file_uri` in `Attachment.uri`.
+ * The local `preview_url` identifies an attachment while its upload is running.
+ */
+export const useAttachmentUploads = (onUploadError?: (file: File, error: unknown) => void) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Abort controllers of running uploads, keyed by preview URL
+  const uploadsRef = useRef<Map<string, AbortController>>(new Map());
+
+  const updateAttachment = useCallback((previewUrl: string, changes: Partial<Attachment>) => {
+    setAttachments(prev => prev.map(attachment =>
+      attachment.preview_url === previewUrl ? { ...attachment, ...changes } : attachment
+    ));
+  }, []);
+
+  const dropAttachment = useCallback((previewUrl: string) => {
+    uploadsRef.current.get(previewUrl)?.abort();
+    uploadsRef.current.delete(previewUrl);
+    URL.revokeObjectURL(previewUrl);
+    setAttachments(prev => prev.filter(attachment => attachment.preview_url !== previewUrl));
+  }, []);
+
+  const addFiles = useCallback((files: FileList | File[]) => {
+    Array.from(files).forEach(file => {
+      const previewUrl = URL.createObjectURL(file);
+      const controller = new AbortController();
+      uploadsRef.current.set(previewUrl, controller);
+
+      setAttachments(prev => [...prev, {
+        uri: previewUrl,
+        type: file.type,
+        filename: file.name,
+        size: file.size,
+        preview_url: previewUrl,
+        upload_progress: 0,
+      }]);
+
+      uploadFile(file, percent => updateAttachment(previewUrl, { upload_progress: percent }), controller.signal)
+        .then(result => {
+          log.debug('File uploaded', { name: result.filename, size: result.size });
+          uploadsRef.current.delete(previewUrl);
+          updateAttachment(previewUrl, { uri: result.file_uri, upload_progress: undefined });
+        })
+        .catch(error => {
+          if (isRequestCancelled(error)) return;
+          dropAttachment(previewUrl);
+          onUploadError?.(file, error);
+        });
+    });
+  }, [updateAttachment, dropAttachment, onUploadError]);
+
+  const removeAttachment = useCallback((index: number) => {
+    const previewUrl = attachments[index]?.preview_url;
+    if (previewUrl) {
+      dropAttachment(previewUrl);
+    } else {
+      setAttachments(prev => prev.filter((_, i) => i !== index));
+    }
+  }, [attachments, dropAttachment]);
+
+  // Forget the attachments after sending (preview URLs stay alive for the optimistic message)
+  const clearAttachments = useCallback(() => {
+    setAttachments([]);
+  }, []);
+
+  // Remove everything, cancelling running uploads (e.g. when switching input mode)
+  const discardAttachments = useCallback(() => {
+    uploadsRef.current.forEach(controller => controller.abort());
+    uploadsRef.current.clear();
+    setAttachments(prev => {
+      prev.forEach(attachment => attachment.preview_url && URL.revokeObjectURL(attachment.preview_url));
+      return [];
+    });
+  }, []);
+
+  const isUploading = attachments.some(attachment => attachment.upload_progress !== undefined);
+
+  return { attachments, addFiles, removeAttachment, clearAttachments, discardAttachments, isUploading };
+};
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { addConversationToFolder, createFolder, deleteFolder, getUserFolders } from '../api/orcha';
+import { queryKeys } from '../api/queryKeys';
+import { createLogger } from '../services/logger';
+import type { Folder } from '../types/orcha';
+
+const log = createLogger('folders');
+
+interface FolderMutationContext {
+  previousFolders: Folder[] | undefined;
+}
+
+/**
+ * Folders of a user, cached with react-query. Mutations update the cache optimistically
+ * and roll back if the backend rejects them.
+ *
+ * @param userId - The signed-in user, or undefined while signed out
+ */
+export const useFolders = (userId: number | undefined) => {
+  const queryClient = useQueryClient();
+  const key = queryKeys.folders(userId);
+
+  const foldersQuery = useQuery(key, () => getUserFolders(userId!), {
+    enabled: !!userId,
+    onError: (error) => {
+      log.error('Failed to load folders', error);
+    },
+  });
+
+  // Snapshot the cache and apply an optimistic change before the request goes out
+  const applyOptimistic = async (updater: (folders: Folder[]) => Folder[]): Promise<FolderMutationContext> => {
+    await queryClient.cancelQueries(key);
+    const previousFolders = queryClient.getQueryData<Folder[]>(key);
+    queryClient.setQueryData<Folder[]>(key, updater(previousFolders ?? []));
+    return { previousFolders };
+  };
+
+  const rollback = (error: unknown, _variables: unknown, context: FolderMutationContext | undefined) => {
+    log.error('Folder change rejected, restoring previous folders', error);
+    if (context?.previousFolders) {
+      queryClient.setQueryData(key, context.previousFolders);
+    }
+  };
+
+  const createMutation = useMutation(
+    (name: string) => createFolder({ user_id: userId!, name }),
+    {
+      onMutate: (name) => applyOptimistic(folders => [
+        { id: -Date.now(), user_id: userId!, name, conversation_ids: [], created_at: new Date().toISOString() },
+        ...folders,
+      ]),
+      onError: rollback,
+      onSettled: () => queryClient.invalidateQueries(key),
+    }
+  );
+
+  const deleteMutation = useMutation(
+    (folderId: number) => deleteFolder(userId!, folderId),
+    {
+      onMutate: (folderId) => applyOptimistic(folders => folders.filter(f => f.id !== folderId)),
+      onError: rollback,
+      onSettled: () => queryClient.invalidateQueries(key),
+    }
+  );
+
+  const addConversationMutation = useMutation(
+    ({ folderId, conversationId }: { folderId: number; conversationId: number }) =>
+      addConversationToFolder(userId!, folderId, conversationId),
+    {
+      onMutate: ({ folderId, conversationId }) => applyOptimistic(folders => folders.map(f =>
+        f.id === folderId ? { ...f, conversation_ids: [...f.conversation_ids, conversationId] } : f
+      )),
+      onSuccess: (updatedFolder) => {
+        queryClient.setQueryData<Folder[]>(key, prev => (prev ?? []).map(f => f.id === updatedFolder.id ? updatedFolder : f));
+      },
+      onError: rollback,
+    }
+  );
+
+  return {
+    folders: foldersQuery.data ?? [],
+    foldersLoading: foldersQuery.isLoading,
+    createFolder: createMutation.mutateAsync,
+    deleteFolder: deleteMutation.mutateAsync,
+    addConversationToFolder: (folderId: number, conversationId: number) =>
+      addConversationMutation.mutateAsync({ folderId, conversationId }),
+  };
+};
@@ -0,0 +1,75 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { JobTrackingService } from '../services/jobTrackingService';
+import { createLogger } from '../services/logger';
+import type { TrackedJob } from '../types/orcha';
+
+const log = createLogger('jobs');
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Watch the queued background jobs of a user (OCR, long-running routes).
+ * Jobs are persisted by JobTrackingService, so polling picks up where it left off after a reload.
+ *
+ * @param userId - The signed-in user, or undefined while signed out
+ * @param onJobFinished - Called once per job that completed (result delivered) or failed
+ */
+export const useJobTracker = (userId: number | undefined, onJobFinished?: (job: TrackedJob) => void | Promise<void>) => {
+  const [jobs, setJobs] = useState<TrackedJob[]>(() => (userId ? JobTrackingService.getJobsForUser(userId) : []));
+  const onJobFinishedRef = useRef(onJobFinished);
+  const isPollingRef = useRef(false);
+
+  useEffect(() => {
+    onJobFinishedRef.current = onJobFinished;
+  }, [onJobFinished]);
+
+  const reloadJobs = useCallback(() => {
+    setJobs(userId ? JobTrackingService.getJobsForUser(userId) : []);
+  }, [userId]);
+
+  useEffect(() => {
+    reloadJobs();
+  }, [reloadJobs]);
+
+  const hasActiveJobs = jobs.some(j => j.status !== 'failed');
+
+  useEffect(() => {
+    if (!userId || !hasActiveJobs) return;
+
+    const poll = async () => {
+      // Skip a tick if the previous poll is still waiting on the backend
+      if (isPollingRef.current) return;
+      isPollingRef.current = true;
+      try {
+        const finished = await JobTrackingService.pollJobs(userId);
+        finished.forEach(job => {
+          Promise.resolve(onJobFinishedRef.current?.(job)).catch(error => {
+            log.error('Failed to handle finished job', job.job_id, error);
+          });
+        });
+      } catch (error) {
+        log.error('Failed to poll jobs', error);
+      } finally {
+        isPollingRef.current = false;
+        reloadJobs();
+      }
+    };
+
+    poll();
+    const intervalId = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [userId, hasActiveJobs, reloadJobs]);
+
+  const trackJobs = useCallback((jobIds: string[], conversationId: number | null, label: string) => {
+    if (!userId || jobIds.length === 0) return;
+    JobTrackingService.trackJobs(jobIds, userId, conversationId, label);
+    reloadJobs();
+  }, [userId, reloadJobs]);
+
+  const dismissJob = useCallback((jobId: string) => {
+    JobTrackingService.removeJob(jobId);
+    reloadJobs();
+  }, [reloadJobs]);
+
+  return { jobs, trackJobs, dismissJob };
+};
@@ -0,0 +1,184 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { chat } from '../api/orcha';
+import { isConnectivityError, toOrchaError } from '../api/errors';
+import { OutboxService } from '../services/outboxService';
+import { createLogger } from '../services/logger';
+import type { Attachment, ChatRequest, ChatResponse, OutboxMessage } from '../types/orcha';
+
+const log = createLogger('outbox');
+
+// While messages wait for the backend, try again periodically (navigator.onLine can't see a down server)
+const RETRY_INTERVAL_MS = 30000;
+
+// Blob preview URLs die with the page, so they are not persisted
+const toStoredAttachments = (attachments: Attachment[]): Attachment[] =>
+  attachments.map(({ uri, type, filename, size, data }) => ({ uri, type, filename, size, data }));
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Offline outbox of chat messages: messages that could not reach the backend are persisted
+ * in IndexedDB and sent again, in order, when connectivity returns. When IndexedDB is not
+ * usable (private browsing, quota) the message is kept in memory as a failed bubble instead.
+ *
+ * @param userId - The signed-in user, or undefined while signed out
+ * @param onMessageSent - Called after a queued message was delivered
+ */
+export const useOutbox = (
+  userId: number | undefined,
+  onMessageSent?: (message: OutboxMessage, response: ChatResponse) => void
+) => {
+  const [storedMessages, setStoredMessages] = useState<OutboxMessage[]>([]);
+  // Messages IndexedDB refused to store: they only live as long as this page
+  const [unsavedMessages, setUnsavedMessages] = useState<OutboxMessage[]>([]);
+  const onMessageSentRef = useRef(onMessageSent);
+  const isFlushingRef = useRef(false);
+
+  useEffect(() => {
+    onMessageSentRef.current = onMessageSent;
+  }, [onMessageSent]);
+
+  const reload = useCallback(async () => {
+    setStoredMessages(userId ? await OutboxService.getForUser(userId) : []);
+  }, [userId]);
+
+  const flush = useCallback(async () => {
+    if (!userId || isFlushingRef.current) return;
+    isFlushingRef.current = true;
+
+    try {
+      const pending = (await OutboxService.getForUser(userId)).filter(m => m.status !== 'failed');
+      for (const message of pending) {
+        await OutboxService.update(message.id, { status: 'sending' });
+        await reload();
+
+        try {
+          const response = await chat(message.request);
+          await OutboxService.remove(message.id);
+          onMessageSentRef.current?.(message, response);
+        } catch (error) {
+          if (isConnectivityError(error)) {
+            // Still unreachable: keep the rest queued, in order, for the next attempt
+            await OutboxService.update(message.id, { status: 'pending' });
+            break;
+          }
+          await OutboxService.update(message.id, { status: 'failed', error: toOrchaError(error).message });
+        }
+      }
+    } catch (error) {
+      log.error('Failed to flush outbox', error);
+    } finally {
+      isFlushingRef.current = false;
+      await reload();
+    }
+  }, [userId, reload]);
+
+  // Load the outbox (messages left 'sending' by a closed tab are pending again) and try to send it
+  useEffect(() => {
+    setUnsavedMessages([]);
+    if (!userId) {
+      setStoredMessages([]);
+      return;
+    }
+
+    const restore = async () => {
+      try {
+        const messages = await OutboxService.getForUser(userId);
+        await Promise.all(messages
+          .filter(m => m.status === 'sending')
+          .map(m => OutboxService.update(m.id, { status: 'pending' })));
+      } catch (error) {
+        log.error('Failed to restore outbox', error);
+      }
+      await flush();
+    };
+    restore();
+  }, [userId, flush]);
+
+  const hasPendingMessages = storedMessages.some(m => m.status === 'pending');
+
+  useEffect(() => {
+    window.addEventListener('online', flush);
+    const intervalId = hasPendingMessages ? setInterval(flush, RETRY_INTERVAL_MS) : undefined;
+    return () => {
+      window.removeEventListener('online', flush);
+      clearInterval(intervalId);
+    };
+  }, [flush, hasPendingMessages]);
+
+  // With a `failure` the message is kept as failed: it is only sent again when the user retries it
+  const enqueue = useCallback(async (request: ChatRequest, attachments: Attachment[], failure?: string) => {
+    if (!userId) return;
+    const message: OutboxMessage = {
+      id: uuidv4(),
+      user_id: userId,
+      conversation_id: request.conversation_id ?? null,
+      request,
+      attachments,
+      status: failure ? 'failed' : 'pending',
+      ...(failure ? { error: failure } : {}),
+      created_at: new Date().toISOString(),
+    };
+
+    try {
+      await OutboxService.add({ ...message, attachments: toStoredAttachments(attachments) });
+    } catch (error) {
+      log.error('Failed to store message in outbox, keeping it for this page only', error);
+      setUnsavedMessages(prev => [...prev, { ...message, status: 'failed', error: errorMessage(error) }]);
+      return;
+    }
+    log.info(failure ? 'Message kept in outbox as failed' : 'Backend unreachable, message kept in outbox');
+    await reload();
+  }, [userId, reload]);
+
+  // Unsaved messages are not in IndexedDB: retrying sends them directly
+  const retryUnsaved = useCallback(async (message: OutboxMessage) => {
+    const setStatus = (updates: Partial<OutboxMessage>) =>
+      setUnsavedMessages(prev => prev.map(m => m.id === message.id ? { ...m, ...updates } : m));
+
+    setStatus({ status: 'sending', error: undefined });
+    try {
+      const response = await chat(message.request);
+      setUnsavedMessages(prev => prev.filter(m => m.id !== message.id));
+      onMessageSentRef.current?.(message, response);
+    } catch (error) {
+      setStatus({ status: 'failed', error: toOrchaError(error).message });
+    }
+  }, []);
+
+  const retry = useCallback(async (id: string) => {
+    const unsaved = unsavedMessages.find(m => m.id === id);
+    if (unsaved) {
+      await retryUnsaved(unsaved);
+      return;
+    }
+
+    try {
+      await OutboxService.update(id, { status: 'pending', error: undefined });
+    } catch (error) {
+      log.error('Failed to update outbox message', error);
+      return;
+    }
+    await flush();
+  }, [unsavedMessages, retryUnsaved, flush]);
+
+  const discard = useCallback(async (id: string) => {
+    if (unsavedMessages.some(m => m.id === id)) {
+      setUnsavedMessages(prev => prev.filter(m => m.id !== id));
+      return;
+    }
+
+    try {
+      await OutboxService.remove(id);
+    } catch (error) {
+      log.error('Failed to remove outbox message', error);
+    }
+    await reload();
+  }, [unsavedMessages, reload]);
+
+  const outboxMessages = [...storedMessages, ...unsavedMessages]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return { outboxMessages, enqueue, retry, discard, flush };
+};
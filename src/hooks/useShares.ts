@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { createConversationShare, getConversationShares, revokeConversationShare } from '../api/orcha';
+import { queryKeys } from '../api/queryKeys';
+import { createLogger } from '../services/logger';
+import type { ConversationShare } from '../types/orcha';
+
+const log = createLogger('shares');
+
+/**
+ * Public URL of a share link (served by the read-only /share/:token route)
+ */
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+/**
+ * Active share links of a user, cached with react-query. Revoking removes the link
+ * from the cache right away and restores it if the backend rejects the request.
+ *
+ * @param userId - The signed-in user, or undefined to skip loading
+ */
+export const useShares = (userId: number | undefined) => {
+  const queryClient = useQueryClient();
+  const key = queryKeys.shares(userId);
+
+  const sharesQuery = useQuery(key, () => getConversationShares(userId!), {
+    enabled: !!userId,
+    onError: (error) => {
+      log.error('Failed to load shares', error);
+    },
+  });
+
+  const createMutation = useMutation(
+    ({ conversationId, expiresInHours }: { conversationId: number; expiresInHours: number | null }) =>
+      createConversationShare(userId!, conversationId, expiresInHours),
+    {
+      onSuccess: (share) => {
+        queryClient.setQueryData<ConversationShare[]>(key, prev => [share, ...(prev ?? [])]);
+      },
+    }
+  );
+
+  const revokeMutation = useMutation(
+    (token: string) => revokeConversationShare(userId!, token),
+    {
+      onMutate: async (token) => {
+        await queryClient.cancelQueries(key);
+        const previousShares = queryClient.getQueryData<ConversationShare[]>(key);
+        queryClient.setQueryData<ConversationShare[]>(key, (previousShares ?? []).filter(s => s.token !== token));
+        return { previousShares };
+      },
+      onError: (error, _token, context) => {
+        log.error('Share revocation rejected, restoring previous shares', error);
+        if (context?.previousShares) {
+          queryClient.setQueryData(key, context.previousShares);
+        }
+      },
+      onSettled: () => queryClient.invalidateQueries(key),
+    }
+  );
+
+  return {
+    shares: sharesQuery.data ?? [],
+    sharesLoading: sharesQuery.isLoading,
+    createShare: (conversationId: number, expiresInHours: number | null) =>
+      createMutation.mutateAsync({ conversationId, expiresInHours }),
+    creatingShare: createMutation.isLoading,
+    revokeShare: revokeMutation.mutateAsync,
+  };
+};
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
+
+interface WindowedListOptions {
+  keys: Array<string | number>;
+  scrollRef: RefObject<HTMLElement>;
+  estimatedItemHeight?: number;
+  overscanPx?: number;
+}
+
+/**
+ * Windowed rendering for long, variable-height lists inside a scroll container.
+ * Only the items near the viewport are mounted; the rest are replaced by spacers sized from
+ * each item's measured height (or an estimate until it has been rendered once).
+ *
+ * Rendered items must carry `data-window-key={key}` and `ref={measureRef}`.
+ *
+ * @returns The index range to render, spacer heights, a ref callback to measure rendered items and scrollToIndex
+ */
+export const useWindowedList = ({
+  keys,
+  scrollRef,
+  estimatedItemHeight = 160,
+  overscanPx = 1200,
+}: WindowedListOptions) => {
+  // Measured item heights by key; a new map whenever one changes, so the range recomputes
+  const [heights, setHeights] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  // Track the scroll position (once per frame) and the container size
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+      });
+    };
+
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(container);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('scroll', update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollRef]);
+
+  // One observer re-measures every mounted item (markdown, images and code blocks change height).
+  // Created lazily: item refs are attached before this hook's effects run.
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      const observer = new ResizeObserver(entries => {
+        const measured: Array<[string, number]> = [];
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          // Scrolled out of the window: keep its last height, stop watching it
+          if (!element.isConnected) {
+            observer.unobserve(element);
+            continue;
+          }
+          const key = element.dataset.windowKey;
+          if (key !== undefined) measured.push([key, element.offsetHeight]);
+        }
+        if (measured.length === 0) return;
+
+        setHeights(prev => {
+          const changed = measured.filter(([key, height]) => prev.get(key) !== height);
+          if (changed.length === 0) return prev;
+          const next = new Map(prev);
+          changed.forEach(([key, height]) => next.set(key, height));
+          return next;
+        });
+      });
+      observerRef.current = observer;
+    }
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => {
+    const observer = getObserver();
+    scrollRef.current?.querySelectorAll<HTMLElement>('[data-window-key]').forEach(element => observer.observe(element));
+    return () => observer.disconnect();
+  }, [getObserver, scrollRef]);
+
+  const measureRef = useCallback((element: HTMLElement | null) => {
+    if (element) getObserver().observe(element);
+  }, [getObserver]);
+
+  const range = useMemo(() => {
+    const itemHeights = keys.map(key => heights.get(String(key)) ?? estimatedItemHeight);
+    const top = viewport.scrollTop - overscanPx;
+    const bottom = viewport.scrollTop + viewport.height + overscanPx;
+
+    let offset = 0;
+    let start = 0;
+    while (start < keys.length && offset + itemHeights[start] < top) {
+      offset += itemHeights[start];
+      start++;
+    }
+    const paddingTop = offset;
+
+    let end = start;
+    while (end < keys.length && offset < bottom) {
+      offset += itemHeights[end];
+      end++;
+    }
+
+    const paddingBottom = itemHeights.slice(end).reduce((sum, height) => sum + height, 0);
+    return { start, end, paddingTop, paddingBottom };
+  }, [keys, heights, viewport, estimatedItemHeight, overscanPx]);
+
+  // Scroll so an item (possibly not mounted yet) starts at the top of the viewport
+  const scrollToIndex = useCallback((index: number) => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const offset = keys
+      .slice(0, index)
+      .reduce<number>((sum, key) => sum + (heights.get(String(key)) ?? estimatedItemHeight), 0);
+    container.scrollTop = offset;
+  }, [keys, heights, scrollRef, estimatedItemHeight]);
+
+  return { ...range, measureRef, scrollToIndex };
+};
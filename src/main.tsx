@@ -3,9 +3,18 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-);
+const bootstrap = async () => {
+  // Offline development / demos without the Python service (loaded on demand, left out of production bundles)
+  if (import.meta.env.VITE_USE_MOCK_API === 'true') {
+    const { installMockBackend } = await import('./api/mock');
+    installMockBackend();
+  }
 
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  );
+};
+
+bootstrap();
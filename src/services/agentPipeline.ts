@@ -0,0 +1,26 @@
+import type { AgentTask, AgentTaskStep } from '../types/orcha';
+
+// Multi-step agent tasks: the instructions run first, then each pipeline step
+// receives the previous step's output. The backend scheduler runs pipelines;
+// these are the rules the mock backend follows.
+
+const STEP_INPUT_PLACEHOLDER = '{{input}}';
+
+/**
+ * Fill a pipeline step's prompt with the previous step's output. Without a
+ * {{input}} placeholder the output is appended; an empty prompt passes it through.
+ */
+export const resolveStepInput = (prompt: string, input: string): string => {
+  if (!prompt.trim()) return input;
+  return prompt.includes(STEP_INPUT_PLACEHOLDER)
+    ? prompt.split(STEP_INPUT_PLACEHOLDER).join(input)
+    : `${prompt}\n\n${input}`;
+};
+
+/**
+ * Every step of a task in run order, starting with its instructions
+ */
+export const taskSteps = (task: Pick<AgentTask, 'instructions' | 'is_search' | 'pipeline'>): AgentTaskStep[] => [
+  { type: task.is_search ? 'web_search' : 'chat', prompt: task.instructions },
+  ...(task.pipeline ?? []),
+];
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { isValidIntervalHours, nextRunAfter, parseTime, type AgentTaskScheduleSpec } from './agentSchedule';
+
+const task = (overrides: Partial<AgentTaskScheduleSpec> = {}): AgentTaskScheduleSpec => ({
+  schedule: 'daily',
+  time: '09:00 AM',
+  timezone: 'UTC',
+  weekdays: null,
+  day_of_month: null,
+  interval_hours: null,
+  run_at: null,
+  cron: null,
+  created_at: '2026-01-01T00:00:00Z',
+  last_run: null,
+  ...overrides,
+});
+
+const next = (spec: AgentTaskScheduleSpec, after: string) => nextRunAfter(spec, new Date(after))?.toISOString() ?? null;
+
+describe('parseTime', () => {
+  it('reads 12-hour times', () => {
+    expect(parseTime('09:00 AM')).toEqual({ hours: 9, minutes: 0 });
+    expect(parseTime('01:15 PM')).toEqual({ hours: 13, minutes: 15 });
+  });
+
+  it('maps 12 AM to midnight and 12 PM to noon', () => {
+    expect(parseTime('12:00 AM')).toEqual({ hours: 0, minutes: 0 });
+    expect(parseTime('12:30 PM')).toEqual({ hours: 12, minutes: 30 });
+  });
+
+  it('reads 24-hour times without a suffix', () => {
+    expect(parseTime('18:45')).toEqual({ hours: 18, minutes: 45 });
+  });
+});
+
+describe('isValidIntervalHours', () => {
+  it('accepts whole divisors of 24 only', () => {
+    expect([1, 2, 3, 4, 6, 8, 12, 24].every(isValidIntervalHours)).toBe(true);
+    expect([0, 5, 7, 9, 1.5, 48].some(isValidIntervalHours)).toBe(false);
+  });
+});
+
+describe('nextRunAfter', () => {
+  it('runs daily tasks later the same day, or the next day once the time has passed', () => {
+    expect(next(task(), '2026-03-02T08:00:00Z')).toBe('2026-03-02T09:00:00.000Z');
+    expect(next(task(), '2026-03-02T09:00:00Z')).toBe('2026-03-03T09:00:00.000Z');
+  });
+
+  it('reads the time in the task timezone, across daylight saving changes', () => {
+    const newYork = task({ timezone: 'America/New_York' });
+    expect(next(newYork, '2026-01-15T00:00:00Z')).toBe('2026-01-15T14:00:00.000Z');
+    expect(next(newYork, '2026-07-15T00:00:00Z')).toBe('2026-07-15T13:00:00.000Z');
+  });
+
+  it('runs weekly tasks on their weekdays only', () => {
+    // Friday evening: next run is Monday
+    const weekly = task({ schedule: 'weekly', weekdays: [1, 3] });
+    expect(next(weekly, '2026-03-06T18:00:00Z')).toBe('2026-03-09T09:00:00.000Z');
+    expect(next(weekly, '2026-03-09T10:00:00Z')).toBe('2026-03-11T09:00:00.000Z');
+  });
+
+  it('runs monthly tasks on the last day of months shorter than their day', () => {
+    const monthly = task({ schedule: 'monthly', day_of_month: 31 });
+    expect(next(monthly, '2026-02-01T00:00:00Z')).toBe('2026-02-28T09:00:00.000Z');
+    expect(next(monthly, '2026-02-28T10:00:00Z')).toBe('2026-03-31T09:00:00.000Z');
+  });
+
+  it('runs hourly tasks on the hours aligned with their time', () => {
+    const hourly = task({ schedule: 'hourly', time: '02:30 AM', interval_hours: 6 });
+    expect(next(hourly, '2026-03-02T09:00:00Z')).toBe('2026-03-02T14:30:00.000Z');
+    expect(next(hourly, '2026-03-02T21:00:00Z')).toBe('2026-03-03T02:30:00.000Z');
+  });
+
+  it('does not schedule hourly intervals that would leave an uneven gap across midnight', () => {
+    expect(next(task({ schedule: 'hourly', interval_hours: 5 }), '2026-03-02T08:00:00Z')).toBeNull();
+    expect(next(task({ schedule: 'hourly', interval_hours: 1.5 }), '2026-03-02T08:00:00Z')).toBeNull();
+    expect(next(task({ schedule: 'hourly', interval_hours: 24 }), '2026-03-02T10:00:00Z')).toBe('2026-03-03T09:00:00.000Z');
+  });
+
+  it('runs one-shot tasks once', () => {
+    const once = task({ schedule: 'once', run_at: '2026-05-01T10:00' });
+    expect(next(once, '2026-04-01T00:00:00Z')).toBe('2026-05-01T10:00:00.000Z');
+    expect(next(once, '2026-05-02T00:00:00Z')).toBeNull();
+    expect(next({ ...once, last_run: '2026-05-01T10:00:00Z' }, '2026-04-01T00:00:00Z')).toBeNull();
+  });
+
+  it('follows cron expressions and gives up on invalid ones', () => {
+    const weekdays = task({ schedule: 'cron', cron: '0 9 * * 1-5' });
+    expect(next(weekdays, '2026-03-06T18:00:00Z')).toBe('2026-03-09T09:00:00.000Z');
+    expect(next(task({ schedule: 'cron', cron: 'every day' }), '2026-03-06T18:00:00Z')).toBeNull();
+  });
+});
@@ -0,0 +1,354 @@
+import type { translations } from '../translations';
+import type { AgentTask } from '../types/orcha';
+
+// Schedule arithmetic for agent tasks. The backend scheduler decides when a task runs;
+// the same rules are used by the mock backend and to show upcoming runs in the UI.
+// Wall-clock fields (time, weekdays, day_of_month, run_at, cron) are read in the task's timezone.
+
+export type AgentTaskScheduleSpec = Pick<
+  AgentTask,
+  'schedule' | 'time' | 'timezone' | 'weekdays' | 'day_of_month' | 'interval_hours' | 'run_at' | 'cron' | 'created_at' | 'last_run'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Far enough ahead to reach a 29 February from any date
+const MAX_DAYS_AHEAD = 366 * 8 + 1;
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Parse a time string (e.g., "09:00 AM") to hours and minutes
+ */
+export const parseTime = (timeStr: string): { hours: number; minutes: number } => {
+  const [time, ampm] = timeStr.split(' ');
+  const [hoursStr, minutesStr] = time.split(':');
+  let hours = parseInt(hoursStr);
+  const minutes = parseInt(minutesStr);
+
+  if (ampm === 'PM' && hours !== 12) {
+    hours += 12;
+  } else if (ampm === 'AM' && hours === 12) {
+    hours = 0;
+  }
+
+  return { hours, minutes };
+};
+
+/**
+ * IANA timezone of this browser, used as the default for new tasks
+ */
+export const browserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * IANA timezones offered when scheduling, the browser's own first
+ */
+export const timeZoneOptions = (): string[] => {
+  // Intl.supportedValuesOf is not in the ES2020 typings
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? [];
+  return [...new Set([browserTimeZone(), 'UTC', ...supported])];
+};
+
+/**
+ * Whether the runtime knows the IANA timezone (e.g., "Europe/Paris")
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Schedules in a timezone the runtime doesn't know are read in UTC
+const resolveTimeZone = (timeZone: string | undefined): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+const zonedParts = (date: Date, timeZone: string): LocalDateTime => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour % 24, minute: parts.minute };
+};
+
+/**
+ * Instant at which a timezone's clock shows the given wall-clock time. Times skipped
+ * by a daylight saving change resolve to the same offset as just before it.
+ */
+const zonedTimeToUtc = (local: LocalDateTime, timeZone: string): Date => {
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  let utc = wall;
+  for (let i = 0; i < 2; i++) {
+    const parts = zonedParts(new Date(utc), timeZone);
+    utc += wall - Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  }
+  return new Date(utc);
+};
+
+/**
+ * Parse a local datetime as produced by <input type="datetime-local"> ("YYYY-MM-DDTHH:MM")
+ */
+const parseLocalDateTime = (value: string): LocalDateTime | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return { year, month, day, hour, minute };
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// ==================== CRON ====================
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  weekdays: number[]; // 0 = Sunday
+  anyDayOfMonth: boolean;
+  anyWeekday: boolean;
+}
+
+const CRON_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+const parseCronField = (field: string, min: number, max: number): number[] | null => {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const [, start, end, step] = match;
+    const from = start === '*' ? min : Number(start);
+    const to = start === '*' ? max : end !== undefined ? Number(end) : step !== undefined ? max : from;
+    const by = step !== undefined ? Number(step) : 1;
+    if (from < min || to > max || from > to || by < 1) return null;
+
+    for (let value = from; value <= to; value += by) values.add(value);
+  }
+  return [...values].sort((a, b) => a - b);
+};
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month day-of-week).
+ * Fields accept *, lists, ranges and steps; returns null if the expression is invalid.
+ * As in cron, a day matches either restricted day field when both are restricted.
+ */
+export const parseCron = (expression: string): CronSchedule | null => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((field, i) => parseCronField(field, CRON_RANGES[i][0], CRON_RANGES[i][1]));
+  if (parsed.some(values => values === null)) return null;
+
+  const [minutes, hours, daysOfMonth, months, weekdays] = parsed as number[][];
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    weekdays: [...new Set(weekdays.map(day => day % 7))],
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyWeekday: fields[4].startsWith('*'),
+  };
+};
+
+// ==================== NEXT RUN ====================
+
+/**
+ * Whether hourly tasks can run every `hours` hours. Runs are aligned with the task's
+ * time on every day, so only whole divisors of 24 keep the gap across midnight.
+ */
+export const isValidIntervalHours = (hours: number): boolean =>
+  Number.isInteger(hours) && hours >= 1 && hours <= 24 && 24 % hours === 0;
+
+/**
+ * Wall-clock times at which the task runs on a given local day, in order (empty if it doesn't run that day)
+ */
+const runTimesOn = (task: AgentTaskScheduleSpec, cron: CronSchedule | null, year: number, month: number, day: number, fallback: LocalDateTime): Array<[number, number]> => {
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  if (task.schedule === 'cron') {
+    if (!cron || !cron.months.includes(month)) return [];
+    const domMatch = cron.daysOfMonth.includes(day);
+    const dowMatch = cron.weekdays.includes(weekday);
+    const dayMatch = cron.anyDayOfMonth && cron.anyWeekday ? true
+      : cron.anyDayOfMonth ? dowMatch
+      : cron.anyWeekday ? domMatch
+      : domMatch || dowMatch;
+    return dayMatch ? cron.hours.flatMap(hour => cron.minutes.map((minute): [number, number] => [hour, minute])) : [];
+  }
+
+  const { hours, minutes } = parseTime(task.time);
+  switch (task.schedule) {
+    case 'weekly': {
+      // Tasks created before weekdays existed keep the weekday they were created on
+      const weekdays = task.weekdays?.length ? task.weekdays : [new Date(Date.UTC(fallback.year, fallback.month - 1, fallback.day)).getUTCDay()];
+      return weekdays.includes(weekday) ? [[hours, minutes]] : [];
+    }
+    case 'monthly': {
+      // Days past the end of a short month run on its last day
+      const dayOfMonth = Math.min(task.day_of_month ?? fallback.day, daysInMonth(year, month));
+      return day === dayOfMonth ? [[hours, minutes]] : [];
+    }
+    case 'hourly': {
+      const interval = task.interval_hours ?? 1;
+      const times: Array<[number, number]> = [];
+      for (let hour = hours % interval; hour < 24; hour += interval) times.push([hour, minutes]);
+      return times;
+    }
+    default:
+      return [[hours, minutes]];
+  }
+};
+
+/**
+ * First run of a task strictly after `after`, or null if it never runs again
+ * (a one-shot task whose time has passed, or an invalid cron expression).
+ *
+ * - daily: every day at `time`
+ * - weekly: at `time` on each of `weekdays` (0 = Sunday)
+ * - monthly: at `time` on `day_of_month`, or on the last day of shorter months
+ * - hourly: every `interval_hours` hours (a divisor of 24), on the hours aligned with `time`
+ * - once: at `run_at`
+ * - cron: whenever `cron` matches
+ */
+export const nextRunAfter = (task: AgentTaskScheduleSpec, after: Date): Date | null => {
+  const timeZone = resolveTimeZone(task.timezone);
+
+  if (task.schedule === 'once') {
+    const runAt = task.run_at ? parseLocalDateTime(task.run_at) : null;
+    if (!runAt) return null;
+    // Moving run_at past the last run schedules the task again
+    const next = zonedTimeToUtc(runAt, timeZone);
+    const alreadyRan = !!task.last_run && new Date(task.last_run) >= next;
+    return next > after && !alreadyRan ? next : null;
+  }
+
+  const cron = task.schedule === 'cron' ? parseCron(task.cron ?? '') : null;
+  if (task.schedule === 'cron' && !cron) return null;
+  if (task.schedule === 'hourly' && !isValidIntervalHours(task.interval_hours ?? 1)) return null;
+
+  const fallback = zonedParts(new Date(task.created_at), timeZone);
+  const start = zonedParts(after, timeZone);
+  const startMinutes = start.hour * 60 + start.minute;
+
+  for (let i = 0, day = Date.UTC(start.year, start.month - 1, start.day); i < MAX_DAYS_AHEAD; i++, day += DAY_MS) {
+    const date = new Date(day);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const dayOfMonth = date.getUTCDate();
+
+    for (const [hour, minute] of runTimesOn(task, cron, year, month, dayOfMonth, fallback)) {
+      // Earlier times of the first day are already past (two hours of slack for DST changes)
+      if (i === 0 && hour * 60 + minute < startMinutes - 120) continue;
+      const next = zonedTimeToUtc({ year, month, day: dayOfMonth, hour, minute }, timeZone);
+      if (next > after) return next;
+    }
+  }
+  return null;
+};
+
+/**
+ * The next `count` runs of a task after `after`, for previews
+ */
+export const upcomingRuns = (task: AgentTaskScheduleSpec, after: Date, count: number): Date[] => {
+  const runs: Date[] = [];
+  let next = nextRunAfter(task, after);
+  while (next && runs.length < count) {
+    runs.push(next);
+    next = nextRunAfter({ ...task, last_run: next.toISOString() }, next);
+  }
+  return runs;
+};
+
+/**
+ * Runs of a task scheduled in (from, to], oldest first, at most `limit` of them
+ */
+export const runsBetween = (task: AgentTaskScheduleSpec, from: Date, to: Date, limit: number): Date[] => {
+  const runs: Date[] = [];
+  let next = nextRunAfter(task, from);
+  while (next && next <= to && runs.length < limit) {
+    runs.push(next);
+    next = nextRunAfter({ ...task, last_run: next.toISOString() }, next);
+  }
+  return runs;
+};
+
+/**
+ * Format a run time in the task's timezone, e.g. "Mon, Mar 3, 09:00 CET"
+ */
+export const formatRunTime = (date: Date, timeZone: string, locale: string): string =>
+  date.toLocaleString(locale, {
+    timeZone: resolveTimeZone(timeZone),
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+
+/**
+ * Short localized weekday names, Sunday first
+ */
+export const weekdayNames = (locale: string): string[] =>
+  Array.from({ length: 7 }, (_, day) =>
+    new Date(Date.UTC(2024, 0, 7 + day)).toLocaleDateString(locale, { weekday: 'short', timeZone: 'UTC' })
+  );
+
+/**
+ * One-line description of a task's schedule, e.g. "Mon, Wed at 09:00 AM" (the timezone is shown separately)
+ */
+export const describeSchedule = (task: AgentTaskScheduleSpec, labels: typeof translations.en.agentSchedule, locale: string): string => {
+  switch (task.schedule) {
+    case 'weekly': {
+      if (!task.weekdays?.length) return `${labels.weekly} ${labels.at} ${task.time}`;
+      const names = weekdayNames(locale);
+      return `${[...task.weekdays].sort((a, b) => a - b).map(day => names[day]).join(', ')} ${labels.at} ${task.time}`;
+    }
+    case 'monthly':
+      return task.day_of_month
+        ? `${labels.monthlyOn} ${task.day_of_month} ${labels.at} ${task.time}`
+        : `${labels.monthly} ${labels.at} ${task.time}`;
+    case 'hourly':
+      return `${labels.every} ${task.interval_hours ?? 1} ${labels.hours}`;
+    case 'once': {
+      const runAt = task.run_at ? parseLocalDateTime(task.run_at) : null;
+      const timeZone = resolveTimeZone(task.timezone);
+      return runAt
+        ? `${labels.once} · ${formatRunTime(zonedTimeToUtc(runAt, timeZone), timeZone, locale)}`
+        : labels.once;
+    }
+    case 'cron':
+      return `cron: ${task.cron ?? ''}`;
+    default:
+      return `${labels.daily} ${labels.at} ${task.time}`;
+  }
+};
@@ -1,137 +1,121 @@
-import type { AgentTask } from '../components/AgentScheduleModal';
+import { createAgentTask } from '../api/orcha';
+import type { AgentTaskSchedule } from '../types/orcha';
+import { browserTimeZone } from './agentSchedule';
+import { createLogger } from './logger';
+
+const log = createLogger('agentTasks');
 
 const STORAGE_KEY = 'aura_agent_tasks';
 const LAST_CHECK_KEY = 'aura_agent_last_check';
+// Legacy tasks taken over by a user whose upload failed, retried on their next login
+const CLAIMED_KEY_PREFIX = 'aura_agent_tasks_claimed_';
+// Set once a user's legacy tasks are all on the backend
+const MIGRATED_KEY_PREFIX = 'aura_agent_tasks_migrated_';
+
+// Upload in progress, shared by overlapping callers (StrictMode effects, user refreshes)
+let migrationInFlight: Promise<number> | null = null;
+
+// Shape of the tasks kept in localStorage before they were stored by the backend
+interface LegacyAgentTask {
+  id: string;
+  taskName: string;
+  instructions: string;
+  schedule: AgentTaskSchedule;
+  time: string;
+  createdAt: string;
+  lastRun?: string;
+  enabled: boolean;
+  isSearch?: boolean;
+}
 
+/**
+ * Browser-side state of agent tasks. Tasks themselves live on the backend
+ * (see useAgentTasks); this only tracks what this browser has already synced.
+ */
 export class AgentTaskService {
   /**
-   * Save a new agent task to localStorage
+   * Tasks created before scheduling moved to the backend, still waiting to be uploaded
    */
-  static saveTask(task: AgentTask): void {
-    const tasks = this.getAllTasks();
-    tasks.push(task);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
-    console.log('✅ Agent task saved:', task);
+  static getLegacyTasks(): LegacyAgentTask[] {
+    return this.readTasks(STORAGE_KEY);
   }
 
-  /**
-   * Get all agent tasks from localStorage
-   */
-  static getAllTasks(): AgentTask[] {
-    const tasksJson = localStorage.getItem(STORAGE_KEY);
+  private static readTasks(key: string): LegacyAgentTask[] {
+    const tasksJson = localStorage.getItem(key);
     if (!tasksJson) return [];
-    
+
     try {
       return JSON.parse(tasksJson);
     } catch (error) {
-      console.error('Failed to parse agent tasks:', error);
+      log.error('Failed to parse agent tasks', error);
       return [];
     }
   }
 
   /**
-   * Update an existing task
+   * Upload tasks left in localStorage to the backend scheduler, once per user.
+   * Concurrent calls share the run in progress. Tasks that fail to upload are
+   * kept for this user's next attempt.
    */
-  static updateTask(taskId: string, updates: Partial<AgentTask>): void {
-    const tasks = this.getAllTasks();
-    const index = tasks.findIndex(t => t.id === taskId);
-    
-    if (index !== -1) {
-      tasks[index] = { ...tasks[index], ...updates };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
-      console.log('✅ Agent task updated:', tasks[index]);
+  static migrateLegacyTasks(userId: number): Promise<number> {
+    if (!migrationInFlight) {
+      migrationInFlight = this.uploadLegacyTasks(userId).finally(() => {
+        migrationInFlight = null;
+      });
     }
+    return migrationInFlight;
   }
 
-  /**
-   * Delete a task
-   */
-  static deleteTask(taskId: string): void {
-    const tasks = this.getAllTasks();
-    const filtered = tasks.filter(t => t.id !== taskId);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
-    console.log('🗑️ Agent task deleted:', taskId);
-  }
-
-  /**
-   * Check if any tasks should be executed now
-   */
-  static checkScheduledTasks(): AgentTask[] {
-    const tasks = this.getAllTasks();
-    const now = new Date();
-    const tasksToRun: AgentTask[] = [];
+  private static async uploadLegacyTasks(userId: number): Promise<number> {
+    if (localStorage.getItem(`${MIGRATED_KEY_PREFIX}${userId}`)) return 0;
 
-    tasks.forEach(task => {
-      if (!task.enabled) return;
+    // Take the tasks out of localStorage before uploading: another tab (or a
+    // remount) then finds nothing left to upload, and no other user inherits them
+    const claimedKey = `${CLAIMED_KEY_PREFIX}${userId}`;
+    const legacyTasks = [...this.readTasks(claimedKey), ...this.getLegacyTasks()];
+    localStorage.removeItem(claimedKey);
+    localStorage.removeItem(STORAGE_KEY);
 
-      if (this.shouldRunTask(task, now)) {
-        tasksToRun.push(task);
-        // Update last run time
-        this.updateTask(task.id, { lastRun: now.toISOString() });
+    const failed: LegacyAgentTask[] = [];
+    for (const task of legacyTasks) {
+      try {
+        await createAgentTask({
+          user_id: userId,
+          task_name: task.taskName,
+          instructions: task.instructions,
+          schedule: task.schedule,
+          time: task.time,
+          // Legacy tasks ran on this browser's clock
+          timezone: browserTimeZone(),
+          is_search: !!task.isSearch,
+          enabled: task.enabled,
+        });
+      } catch (error) {
+        log.warn('Failed to migrate agent task, will retry', task.id, error);
+        failed.push(task);
       }
-    });
-
-    // Update last check time
-    localStorage.setItem(LAST_CHECK_KEY, now.toISOString());
-
-    return tasksToRun;
-  }
-
-  /**
-   * Determine if a task should run based on its schedule
-   */
-  private static shouldRunTask(task: AgentTask, now: Date): boolean {
-    const lastRun = task.lastRun ? new Date(task.lastRun) : null;
-    const taskTime = this.parseTime(task.time);
-    const currentTime = {
-      hours: now.getHours(),
-      minutes: now.getMinutes()
-    };
-
-    // Check if current time matches task time (within 1 minute)
-    const timeMatches = 
-      Math.abs(currentTime.hours - taskTime.hours) === 0 &&
-      Math.abs(currentTime.minutes - taskTime.minutes) <= 1;
-
-    if (!timeMatches) return false;
-
-    // If never run before, run it
-    if (!lastRun) return true;
-
-    const daysSinceLastRun = Math.floor((now.getTime() - lastRun.getTime()) / (1000 * 60 * 60 * 24));
+    }
 
-    switch (task.schedule) {
-      case 'daily':
-        return daysSinceLastRun >= 1;
-      case 'weekly':
-        return daysSinceLastRun >= 7;
-      case 'monthly':
-        return daysSinceLastRun >= 30;
-      default:
-        return false;
+    if (failed.length > 0) {
+      localStorage.setItem(claimedKey, JSON.stringify(failed));
+    } else {
+      localStorage.setItem(`${MIGRATED_KEY_PREFIX}${userId}`, new Date().toISOString());
     }
+    if (legacyTasks.length > 0) {
+      log.info(`Migrated ${legacyTasks.length - failed.length} agent task(s) to the backend`);
+    }
+    return legacyTasks.length - failed.length;
   }
 
   /**
-   * Parse time string (e.g., "09:00 AM") to hours and minutes
+   * Record when this browser last fetched task results
    */
-  private static parseTime(timeStr: string): { hours: number; minutes: number } {
-    const [time, ampm] = timeStr.split(' ');
-    const [hoursStr, minutesStr] = time.split(':');
-    let hours = parseInt(hoursStr);
-    const minutes = parseInt(minutesStr);
-
-    if (ampm === 'PM' && hours !== 12) {
-      hours += 12;
-    } else if (ampm === 'AM' && hours === 12) {
-      hours = 0;
-    }
-
-    return { hours, minutes };
+  static setLastCheckTime(date: Date = new Date()): void {
+    localStorage.setItem(LAST_CHECK_KEY, date.toISOString());
   }
 
   /**
-   * Get the last time tasks were checked
+   * Get the last time this browser fetched task results
    */
   static getLastCheckTime(): Date | null {
     const lastCheck = localStorage.getItem(LAST_CHECK_KEY);
@@ -139,12 +123,11 @@ export class AgentTaskService {
   }
 
   /**
-   * Clear all tasks (for testing/debugging)
+   * Clear the browser-side state (for testing/debugging)
    */
   static clearAllTasks(): void {
     localStorage.removeItem(STORAGE_KEY);
     localStorage.removeItem(LAST_CHECK_KEY);
-    console.log('🗑️ All agent tasks cleared');
+    log.debug('Local agent task state cleared');
   }
 }
-
@@ -0,0 +1,335 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { Attachment, ChatMessage, Conversation, ConversationExport, ExportFormat } from '../types/orcha';
+import { createLogger } from './logger';
+
+const log = createLogger('export');
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+const FILE_EXTENSIONS: Record<Exclude<ExportFormat, 'pdf'>, string> = {
+  markdown: 'md',
+  docx: 'docx',
+  json: 'json',
+};
+
+const MIME_TYPES: Record<Exclude<ExportFormat, 'pdf'>, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  json: 'application/json;charset=utf-8',
+};
+
+// ==================== HELPERS ====================
+
+const parseAttachments = (raw: unknown): Attachment[] => {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw === 'string') {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const titleOf = (conversation: Conversation) => conversation.title || 'Untitled conversation';
+
+const fileNameOf = (conversation: Conversation, extension: string) => {
+  const slug = titleOf(conversation)
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .toLowerCase()
+    .slice(0, 60);
+  return `${slug || 'conversation'}-${conversation.id}.${extension}`;
+};
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString();
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// ---- Minimal ZIP writer (stored entries) for the DOCX container ----
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (files: Array<{ name: string; content: string }>): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: BlobPart[] = [];
+  const centralDirectory: BlobPart[] = [];
+  let centralSize = 0;
+  let offset = 0;
+
+  for (const file of files) {
+    const name = new Uint8Array(encoder.encode(file.name));
+    const data = new Uint8Array(encoder.encode(file.content));
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(8, 0, true); // Stored (no compression)
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true); // Version needed
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    centralSize += 46 + name.length;
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...centralDirectory, new Uint8Array(end.buffer)], { type: MIME_TYPES.docx });
+};
+
+// ---- WordprocessingML ----
+
+const docxRun = (text: string, { bold = false, size }: { bold?: boolean; size?: number } = {}) => {
+  const properties = `${bold ? '<w:b/>' : ''}${size ? `<w:sz w:val="${size}"/>` : ''}`;
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const docxParagraph = (runs: string, spacingAfter = 120) =>
+  `<w:p><w:pPr><w:spacing w:after="${spacingAfter}"/></w:pPr>${runs}</w:p>`;
+
+// ==================== SERVICE ====================
+
+export class ConversationExportService {
+  /**
+   * Machine-readable export: messages with attachment metadata, contexts, token counts and model
+   */
+  static toJson(conversation: Conversation, messages: ChatMessage[]): string {
+    const payload: ConversationExport = {
+      format: 'orion-conversation',
+      version: 1,
+      exported_at: new Date().toISOString(),
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        created_at: conversation.created_at,
+        updated_at: conversation.updated_at,
+      },
+      messages: messages.map(message => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        created_at: message.created_at,
+        model_used: message.model_used,
+        token_count: message.token_count,
+        ...(message.parent_id !== undefined ? { parent_id: message.parent_id } : {}),
+        attachments: parseAttachments(message.attachments).map(({ filename, type, size, uri }) => ({ filename, type, size, uri })),
+        contexts: message.contexts ?? [],
+      })),
+    };
+    return JSON.stringify(payload, null, 2);
+  }
+
+  /**
+   * Markdown transcript, one section per message
+   */
+  static toMarkdown(conversation: Conversation, messages: ChatMessage[]): string {
+    const lines = [
+      `# ${titleOf(conversation)}`,
+      '',
+      `_Exported ${formatDateTime(new Date().toISOString())} · ${messages.length} messages_`,
+      '',
+    ];
+
+    messages.forEach(message => {
+      lines.push('---', '', `### ${ROLE_LABELS[message.role]} · ${formatDateTime(message.created_at)}`, '');
+      lines.push(message.content, '');
+
+      const attachments = parseAttachments(message.attachments);
+      if (attachments.length > 0) {
+        lines.push(...attachments.map(att => `- 📎 ${att.filename || att.type}`), '');
+      }
+      if (message.model_used) {
+        lines.push(`<sub>${message.model_used}${message.token_count ? ` · ${message.token_count} tokens` : ''}</sub>`, '');
+      }
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Word document with the transcript as plain paragraphs
+   */
+  static toDocx(conversation: Conversation, messages: ChatMessage[]): Blob {
+    const body = [
+      docxParagraph(docxRun(titleOf(conversation), { bold: true, size: 36 }), 240),
+      ...messages.flatMap(message => {
+        const attachments = parseAttachments(message.attachments);
+        return [
+          docxParagraph(docxRun(`${ROLE_LABELS[message.role]} · ${formatDateTime(message.created_at)}`, { bold: true, size: 22 }), 60),
+          ...message.content.split('\n').map(line => docxParagraph(docxRun(line), 60)),
+          ...attachments.map(att => docxParagraph(docxRun(`Attachment: ${att.filename || att.type}`, { size: 18 }), 60)),
+          docxParagraph('', 200),
+        ];
+      }),
+    ].join('');
+
+    return createZip([
+      {
+        name: '[Content_Types].xml',
+        content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+          + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+          + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+          + '<Default Extension="xml" ContentType="application/xml"/>'
+          + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+          + '</Types>',
+      },
+      {
+        name: '_rels/.rels',
+        content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+          + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+          + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+          + '</Relationships>',
+      },
+      {
+        name: 'word/document.xml',
+        content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+          + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+          + `<w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>`
+          + '</w:document>',
+      },
+    ]);
+  }
+
+  /**
+   * Print-ready HTML (markdown rendered like in the chat), used for the PDF export
+   */
+  static toPrintHtml(conversation: Conversation, messages: ChatMessage[]): string {
+    const title = escapeXml(titleOf(conversation));
+    const sections = messages.map(message => {
+      const content = message.role === 'assistant'
+        ? renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, message.content))
+        : `<p class="plain">${escapeXml(message.content)}</p>`;
+      const attachments = parseAttachments(message.attachments)
+        .map(att => `<li>${escapeXml(att.filename || att.type)}</li>`)
+        .join('');
+      return `<section class="message ${message.role}">`
+        + `<h2>${ROLE_LABELS[message.role]} <span>${escapeXml(formatDateTime(message.created_at))}</span></h2>`
+        + content
+        + (attachments ? `<ul class="attachments">${attachments}</ul>` : '')
+        + '</section>';
+    }).join('');
+
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title><style>
+      @page { margin: 2cm; }
+      body { font-family: Georgia, 'Times New Roman', serif; color: #111; line-height: 1.5; font-size: 11pt; }
+      h1 { font-size: 20pt; margin: 0 0 4pt; }
+      .meta { color: #666; font-size: 9pt; margin-bottom: 18pt; }
+      .message { break-inside: avoid-page; border-top: 1px solid #ddd; padding-top: 8pt; margin-top: 12pt; }
+      .message h2 { font-size: 11pt; margin: 0 0 4pt; }
+      .message h2 span { color: #888; font-weight: normal; font-size: 9pt; margin-left: 6pt; }
+      .message.user h2 { color: #2b5cc4; }
+      .plain { white-space: pre-wrap; }
+      pre { background: #f5f5f5; padding: 8pt; white-space: pre-wrap; font-size: 9pt; }
+      table { border-collapse: collapse; } td, th { border: 1px solid #ccc; padding: 3pt 6pt; }
+      .attachments { color: #555; font-size: 9pt; }
+    </style></head><body>`
+      + `<h1>${title}</h1><p class="meta">${messages.length} messages · exported ${escapeXml(formatDateTime(new Date().toISOString()))}</p>`
+      + sections
+      + '</body></html>';
+  }
+
+  /**
+   * Export a conversation in the given format: files are downloaded, PDF opens the print dialog
+   */
+  static export(format: ExportFormat, conversation: Conversation, messages: ChatMessage[]): void {
+    if (format === 'pdf') {
+      this.print(this.toPrintHtml(conversation, messages));
+      return;
+    }
+
+    const content = format === 'markdown'
+      ? this.toMarkdown(conversation, messages)
+      : format === 'json'
+        ? this.toJson(conversation, messages)
+        : this.toDocx(conversation, messages);
+    const blob = content instanceof Blob ? content : new Blob([content], { type: MIME_TYPES[format] });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileNameOf(conversation, FILE_EXTENSIONS[format]);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    log.info('Conversation exported', { id: conversation.id, format });
+  }
+
+  // Print through a hidden frame so "Save as PDF" produces a paginated document
+  private static print(html: string): void {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      frame.remove();
+      return;
+    }
+    frameWindow.document.open();
+    frameWindow.document.write(html);
+    frameWindow.document.close();
+    frameWindow.onafterprint = () => frame.remove();
+    setTimeout(() => {
+      frameWindow.focus();
+      frameWindow.print();
+    }, 100);
+  }
+}
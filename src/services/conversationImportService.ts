@@ -0,0 +1,162 @@
+import type { ChatMessage, ConversationExport, ImportConversationRequest } from '../types/orcha';
+import { createLogger } from './logger';
+
+const log = createLogger('import');
+
+export type ImportSource = 'orion' | 'chatgpt';
+
+export interface ImportPreviewItem {
+  key: string;
+  source: ImportSource;
+  fileName: string;
+  conversation: ImportConversationRequest;
+}
+
+export interface ImportParseResult {
+  items: ImportPreviewItem[];
+  errors: Array<{ fileName: string; message: string }>;
+}
+
+// Shape of one entry of ChatGPT's conversations.json (only the fields we read)
+interface ChatGptNode {
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[] };
+    create_time?: number | null;
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGptConversation {
+  title?: string | null;
+  create_time?: number | null;
+  current_node?: string | null;
+  mapping: Record<string, ChatGptNode>;
+}
+
+type ImportedMessage = ImportConversationRequest['messages'][number];
+
+const IMPORTABLE_ROLES: ChatMessage['role'][] = ['user', 'assistant', 'system'];
+
+// ==================== HELPERS ====================
+
+const fromEpochSeconds = (seconds: number | null | undefined) =>
+  typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : undefined;
+
+const isOrionExport = (value: any): value is ConversationExport =>
+  value?.format === 'orion-conversation' && Array.isArray(value.messages);
+
+const isChatGptConversation = (value: any): value is ChatGptConversation =>
+  !!value && typeof value.mapping === 'object' && value.mapping !== null;
+
+const fromOrionExport = (data: ConversationExport): ImportConversationRequest => ({
+  title: data.conversation?.title ?? null,
+  created_at: data.conversation?.created_at,
+  messages: data.messages
+    .filter(message => IMPORTABLE_ROLES.includes(message.role) && typeof message.content === 'string')
+    .map(message => ({
+      role: message.role,
+      content: message.content,
+      created_at: message.created_at,
+      model_used: message.model_used,
+      token_count: message.token_count,
+    })),
+});
+
+/**
+ * ChatGPT stores every branch in `mapping`; follow parents up from `current_node`
+ * to keep only the branch that was displayed last.
+ */
+const fromChatGpt = (data: ChatGptConversation): ImportConversationRequest => {
+  const leafId = data.current_node && data.mapping[data.current_node]
+    ? data.current_node
+    : Object.keys(data.mapping).find(id => !Object.values(data.mapping).some(node => node.parent === id));
+
+  const messages: ImportedMessage[] = [];
+  const visited = new Set<string>();
+  let nodeId = leafId ?? null;
+  while (nodeId && data.mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    const node = data.mapping[nodeId];
+    const message = node.message;
+    const role = message?.author?.role as ChatMessage['role'] | undefined;
+    const text = (message?.content?.parts ?? []).filter(part => typeof part === 'string').join('\n').trim();
+
+    // Tool calls, hidden system prompts and non-text parts have no equivalent here
+    if (
+      message && role && (role === 'user' || role === 'assistant') && text
+      && !message.metadata?.is_visually_hidden_from_conversation
+    ) {
+      messages.push({
+        role,
+        content: text,
+        created_at: fromEpochSeconds(message.create_time),
+        model_used: role === 'assistant' ? message.metadata?.model_slug ?? null : null,
+      });
+    }
+    nodeId = node.parent ?? null;
+  }
+
+  return {
+    title: data.title ?? null,
+    created_at: fromEpochSeconds(data.create_time),
+    messages: messages.reverse(),
+  };
+};
+
+// ==================== SERVICE ====================
+
+export class ConversationImportService {
+  /**
+   * Parse one export file: our JSON export (single conversation or an array of them)
+   * or a ChatGPT conversations.json. Conversations without messages are skipped.
+   */
+  static parse(fileName: string, text: string): ImportParseResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      log.warn('Import file is not valid JSON', { fileName, error });
+      return { items: [], errors: [{ fileName, message: 'invalid_json' }] };
+    }
+
+    const entries = Array.isArray(data) ? data : [data];
+    const items: ImportPreviewItem[] = [];
+    let unrecognized = 0;
+
+    entries.forEach((entry, index) => {
+      let source: ImportSource;
+      let conversation: ImportConversationRequest;
+      if (isOrionExport(entry)) {
+        source = 'orion';
+        conversation = fromOrionExport(entry);
+      } else if (isChatGptConversation(entry)) {
+        source = 'chatgpt';
+        conversation = fromChatGpt(entry);
+      } else {
+        unrecognized++;
+        return;
+      }
+      if (conversation.messages.length === 0) return;
+      items.push({ key: `${fileName}#${index}`, source, fileName, conversation });
+    });
+
+    log.info('Import file parsed', { fileName, conversations: items.length, unrecognized });
+    if (items.length === 0) {
+      return { items, errors: [{ fileName, message: unrecognized > 0 ? 'unsupported_format' : 'empty' }] };
+    }
+    return { items, errors: [] };
+  }
+
+  /**
+   * Condensed text of what the user wrote in a conversation, stored as an imported memory entry
+   */
+  static toMemoryContent(conversation: ImportConversationRequest, maxLength = 2000): string {
+    const text = conversation.messages
+      .filter(message => message.role === 'user')
+      .map(message => message.content)
+      .join('\n---\n');
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+  }
+}
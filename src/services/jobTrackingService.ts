@@ -0,0 +1,140 @@
+import { getJobStatus, addConversationMessage } from '../api/orcha';
+import { OrchaError } from '../api/errors';
+import type { TrackedJob, JobStatusResponse } from '../types/orcha';
+import { createLogger } from './logger';
+
+const log = createLogger('jobs');
+
+const STORAGE_KEY = 'aura_pending_jobs';
+
+export class JobTrackingService {
+  /**
+   * Start tracking queued jobs (persisted so polling resumes after a page reload)
+   */
+  static trackJobs(jobIds: string[], userId: number, conversationId: number | null, label: string): void {
+    const jobs = this.getAllJobs();
+    const now = new Date().toISOString();
+
+    jobIds.forEach(jobId => {
+      if (jobs.some(j => j.job_id === jobId)) return;
+      jobs.push({
+        job_id: jobId,
+        user_id: userId,
+        conversation_id: conversationId,
+        label,
+        status: 'queued',
+        created_at: now,
+      });
+    });
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+    log.debug('Tracking queued jobs', jobIds);
+  }
+
+  /**
+   * Get all tracked jobs from localStorage
+   */
+  static getAllJobs(): TrackedJob[] {
+    const jobsJson = localStorage.getItem(STORAGE_KEY);
+    if (!jobsJson) return [];
+
+    try {
+      return JSON.parse(jobsJson);
+    } catch (error) {
+      log.error('Failed to parse tracked jobs', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the tracked jobs of a user
+   */
+  static getJobsForUser(userId: number): TrackedJob[] {
+    return this.getAllJobs().filter(j => j.user_id === userId);
+  }
+
+  /**
+   * Update a tracked job
+   */
+  static updateJob(jobId: string, updates: Partial<TrackedJob>): void {
+    const jobs = this.getAllJobs();
+    const index = jobs.findIndex(j => j.job_id === jobId);
+
+    if (index !== -1) {
+      jobs[index] = { ...jobs[index], ...updates };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+    }
+  }
+
+  /**
+   * Stop tracking a job
+   */
+  static removeJob(jobId: string): void {
+    const jobs = this.getAllJobs();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs.filter(j => j.job_id !== jobId)));
+  }
+
+  /**
+   * Poll every unfinished job of a user once.
+   * Completed jobs get their result appended to the originating conversation and are then
+   * dropped; failed jobs stay listed (with their error) until dismissed.
+   *
+   * @returns The jobs that finished during this poll
+   */
+  static async pollJobs(userId: number): Promise<TrackedJob[]> {
+    const activeJobs = this.getJobsForUser(userId).filter(j => j.status !== 'failed');
+    const finished: TrackedJob[] = [];
+
+    for (const job of activeJobs) {
+      let status: JobStatusResponse;
+      try {
+        status = await getJobStatus(job.job_id);
+      } catch (error) {
+        // Transient failures are retried on the next poll; an unknown job will never finish
+        if (error instanceof OrchaError && error.status === 404) {
+          this.updateJob(job.job_id, { status: 'failed', error: 'Job not found' });
+          finished.push({ ...job, status: 'failed', error: 'Job not found' });
+        }
+        continue;
+      }
+
+      if (status.status === 'completed') {
+        try {
+          await this.deliverResult(job, status);
+        } catch (error) {
+          // Keep the job so delivery is attempted again on the next poll
+          log.error('Failed to deliver job result', error);
+          this.updateJob(job.job_id, { status: 'completed', progress: 100 });
+          continue;
+        }
+        this.removeJob(job.job_id);
+        finished.push({ ...job, status: 'completed', progress: 100 });
+        log.debug('Job completed', job.job_id);
+      } else if (status.status === 'failed') {
+        const error = status.error || 'Job failed';
+        this.updateJob(job.job_id, { status: 'failed', error });
+        finished.push({ ...job, status: 'failed', error });
+        log.error('Job failed', job.job_id, error);
+      } else {
+        this.updateJob(job.job_id, { status: status.status, progress: status.progress });
+      }
+    }
+
+    return finished;
+  }
+
+  /**
+   * Append the result of a completed job to the conversation it was queued from.
+   * Keyed on job_id, so a second tab polling the same job does not add a duplicate.
+   */
+  private static async deliverResult(job: TrackedJob, status: JobStatusResponse): Promise<void> {
+    const content = status.result?.message || status.result?.extracted_text;
+    if (!job.conversation_id || !content) return;
+
+    await addConversationMessage(job.user_id, job.conversation_id, {
+      role: 'assistant',
+      content,
+      job_id: job.job_id,
+    });
+  }
+}
@@ -0,0 +1,149 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+// localStorage override so support can raise the level on a production build
+const LEVEL_KEY = 'aura_log_level';
+const MAX_TRACES = 50;
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+// Fields holding user content or secrets: never printed, only their size
+const REDACTED_KEYS = new Set([
+  'message',
+  'content',
+  'query',
+  'instructions',
+  'extracted_text',
+  'conversation_history',
+  'image_data',
+  'data',
+  'password',
+  'current_password',
+  'new_password',
+  'access_token',
+  'authorization',
+]);
+
+const BASE64_PATTERN = /^(data:[^;]+;base64,)?[A-Za-z0-9+/=\s]{200,}$/;
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && value in LEVEL_ORDER;
+
+const resolveLevel = (): LogLevel => {
+  const override = typeof localStorage !== 'undefined' ? localStorage.getItem(LEVEL_KEY) : null;
+  if (isLogLevel(override)) return override;
+
+  const configured = import.meta.env.VITE_LOG_LEVEL;
+  if (isLogLevel(configured)) return configured;
+
+  return import.meta.env.PROD ? 'warn' : 'debug';
+};
+
+let currentLevel: LogLevel = resolveLevel();
+
+/**
+ * Change the log level at runtime (persisted for the next page loads)
+ */
+export const setLogLevel = (level: LogLevel): void => {
+  currentLevel = level;
+  localStorage.setItem(LEVEL_KEY, level);
+};
+
+export const getLogLevel = (): LogLevel => currentLevel;
+
+const describeRedacted = (value: unknown): string => {
+  if (typeof value === 'string') return `[redacted ${value.length} chars]`;
+  if (Array.isArray(value)) return `[redacted ${value.length} items]`;
+  return '[redacted]';
+};
+
+/**
+ * Copy a value for logging with message bodies, secrets and base64 payloads removed.
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') {
+    return BASE64_PATTERN.test(value) ? `[base64 ${value.length} chars]` : value;
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  if (depth > 5) return '[…]';
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      REDACTED_KEYS.has(key.toLowerCase()) && item !== null && item !== undefined && item !== ''
+        ? describeRedacted(item)
+        : redact(item, depth + 1),
+    ])
+  );
+};
+
+export interface Logger {
+  debug: (message: string, ...details: unknown[]) => void;
+  info: (message: string, ...details: unknown[]) => void;
+  warn: (message: string, ...details: unknown[]) => void;
+  error: (message: string, ...details: unknown[]) => void;
+}
+
+/**
+ * Create a logger whose output is prefixed with `[scope]`, gated by the current level
+ * and redacted (message bodies, credentials, base64 attachment data).
+ */
+export const createLogger = (scope: string): Logger => {
+  const write = (level: Exclude<LogLevel, 'silent'>) => (message: string, ...details: unknown[]) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[currentLevel]) return;
+    console[level](`[${scope}] ${message}`, ...details.map(detail => redact(detail)));
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+};
+
+// ==================== TRACE IDS ====================
+
+export interface TraceRecord {
+  traceId: string;
+  method: string;
+  path: string;
+  status: number | null; // null when no response was received (network error, cancelled)
+  durationMs: number;
+  at: string;
+}
+
+type TraceListener = (traces: TraceRecord[]) => void;
+
+let recentTraces: TraceRecord[] = [];
+const traceListeners = new Set<TraceListener>();
+
+/**
+ * Remember the `x-trace-id` of a finished request for the diagnostics panel
+ */
+export const recordTrace = (trace: TraceRecord): void => {
+  recentTraces = [trace, ...recentTraces].slice(0, MAX_TRACES);
+  traceListeners.forEach(listener => listener(recentTraces));
+};
+
+export const getRecentTraces = (): TraceRecord[] => recentTraces;
+
+/**
+ * Subscribe to new trace records; returns the unsubscribe function
+ */
+export const subscribeToTraces = (listener: TraceListener): (() => void) => {
+  traceListeners.add(listener);
+  return () => {
+    traceListeners.delete(listener);
+  };
+};
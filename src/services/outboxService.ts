@@ -0,0 +1,81 @@
+import type { OutboxMessage } from '../types/orcha';
+import { createLogger } from './logger';
+
+const log = createLogger('outbox');
+
+const DB_NAME = 'aura_outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('user_id', 'user_id');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class OutboxService {
+  /**
+   * Queue a message that could not be delivered
+   */
+  static async add(message: OutboxMessage): Promise<void> {
+    await runRequest('readwrite', store => store.put(message));
+    log.debug('Message queued in outbox', { id: message.id, conversation_id: message.conversation_id });
+  }
+
+  /**
+   * Get the queued messages of a user, oldest first
+   */
+  static async getForUser(userId: number): Promise<OutboxMessage[]> {
+    try {
+      const messages = await runRequest<OutboxMessage[]>('readonly', store => store.index('user_id').getAll(userId));
+      return messages.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    } catch (error) {
+      log.error('Failed to read outbox', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update a queued message
+   */
+  static async update(id: string, updates: Partial<OutboxMessage>): Promise<void> {
+    const existing = await runRequest<OutboxMessage | undefined>('readonly', store => store.get(id));
+    if (!existing) return;
+    await runRequest('readwrite', store => store.put({ ...existing, ...updates }));
+  }
+
+  /**
+   * Remove a message from the outbox (sent or discarded)
+   */
+  static async remove(id: string): Promise<void> {
+    await runRequest('readwrite', store => store.delete(id));
+    log.debug('Message removed from outbox', { id });
+  }
+}
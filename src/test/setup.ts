@@ -0,0 +1,11 @@
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+import { setLogLevel } from '../services/logger';
+
+// Keep test output readable: failed assertions say what went wrong
+setLogLevel('silent');
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
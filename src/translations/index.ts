@@ -22,7 +22,7 @@ export const translations = {
       logoutButton: 'Logout',
       clearConfirm: 'Are you sure you want to clear the chat history?',
       infoBannerTitle: 'This UI calls only',
-      infoBannerText: 'Messages are sent to ORCHA, which returns a routing decision with the recommended endpoint and prepared payload. The "Call Recommended Endpoint" button is a placeholder (see TODO in src/api/orcha.ts).',
+      infoBannerText: 'Messages are sent to ORCHA, which returns a routing decision with the recommended endpoint and prepared payload. The "Call Recommended Endpoint" button sends the prepared payload to that endpoint.',
     },
 
     // Message list
@@ -48,6 +48,7 @@ export const translations = {
       selectImageFile: 'Please select an image file',
       fileSizeTooLarge: 'File size must be less than 10MB',
       failedToProcess: 'Failed to process image',
+      stopGenerating: 'Stop generating',
     },
 
     // Routing message
@@ -65,9 +66,13 @@ export const translations = {
       expand: 'Expand',
       collapse: 'Collapse',
       callEndpoint: 'Call Recommended Endpoint',
-      demoMode: '(Demo mode - See TODO in src/api/orcha.ts)',
+      calling: 'Calling endpoint...',
+      result: 'Result:',
+      jobsQueued: 'Processing queued. Job IDs:',
+      callFailed: 'Endpoint call failed',
       yes: 'Yes',
       no: 'No',
+      autoRoute: 'ORCHA Routing',
     },
 
     // Badges
@@ -95,6 +100,8 @@ export const translations = {
       chatCount: 'conversation(s)',
       openSidebar: 'Open sidebar',
       closeSidebar: 'Close sidebar',
+      loadingMore: 'Loading older chats…',
+      olderInFolder: 'more in older chats — load',
     },
 
     // OCR Extractor
@@ -124,6 +131,7 @@ export const translations = {
       fileTypeError: 'Please select an image file',
       fileSizeError: 'File size must be less than 10MB',
       selectImageError: 'Please select an image first',
+      stop: 'Stop',
     },
 
     // Pulse Feature
@@ -150,6 +158,200 @@ export const translations = {
 
 
 
+    // API errors (by OrchaError kind)
+    errors: {
+      network: 'Cannot reach the server. Check your connection and try again.',
+      timeout: 'The server took too long to respond. Please try again.',
+      auth: 'Your session has expired. Please sign in again.',
+      quota_exceeded: 'You have reached your usage limit. Please try again later.',
+      validation: 'The request was rejected. Please check your input.',
+      server: 'The server encountered an error. Please try again in a moment.',
+      cancelled: 'Request cancelled.',
+      unknown: 'Something went wrong. Please try again.',
+    },
+
+    jobs: {
+      queued: 'Queued',
+      running: 'Processing',
+      failed: 'Failed',
+      dismiss: 'Dismiss',
+      defaultLabel: 'Document processing',
+    },
+
+    diagnostics: {
+      title: 'Diagnostics',
+      logLevel: 'Log level',
+      copy: 'Copy',
+      copyAll: 'Copy all',
+      copied: 'Copied',
+      close: 'Close diagnostics',
+      empty: 'No requests yet.',
+      hint: 'Include these trace IDs in support tickets. Press Ctrl+Shift+D to close.',
+    },
+
+    outbox: {
+      pending: 'Waiting for connection…',
+      sending: 'Sending…',
+      failed: 'Not sent',
+      retry: 'Retry',
+      discard: 'Discard',
+    },
+
+    history: {
+      loadEarlier: 'Load earlier messages',
+      loadingEarlier: 'Loading earlier messages…',
+    },
+
+    messageSearch: {
+      title: 'Search messages',
+      placeholder: 'Search all conversations…',
+      openFromSidebar: 'Search in all messages',
+      anyRole: 'Everyone',
+      userRole: 'My messages',
+      assistantRole: 'Assistant replies',
+      from: 'From',
+      to: 'To',
+      searching: 'Searching…',
+      noResults: 'No messages match your search',
+      resultCount: 'result(s)',
+      loadMore: 'More results',
+      untitled: 'Untitled conversation',
+      close: 'Close search',
+    },
+
+    export: {
+      title: 'Export',
+      markdown: 'Markdown (.md)',
+      pdf: 'PDF (print)',
+      docx: 'Word (.docx)',
+      json: 'JSON (re-importable)',
+      exporting: 'Preparing export…',
+      failed: 'Export failed',
+    },
+
+    import: {
+      title: 'Import conversations',
+      openFromSidebar: 'Import chats',
+      chooseFiles: 'Choose export files',
+      supportedFormats: 'Orion JSON exports or ChatGPT conversations.json',
+      invalidJson: 'not a valid JSON file',
+      unsupportedFormat: 'format not recognized',
+      emptyFile: 'no conversations with messages',
+      selected: 'selected',
+      selectAll: 'Select all',
+      selectNone: 'Select none',
+      messages: 'messages',
+      untitled: 'Untitled conversation',
+      addToMemory: 'Also add what I wrote to my memory',
+      back: 'Back',
+      importAction: 'Import',
+      importing: 'Importing…',
+      imported: 'conversation(s) imported',
+      close: 'Close',
+    },
+
+    share: {
+      title: 'Share conversation',
+      button: 'Share',
+      description: 'Anyone with the link can read the conversation as it is now. Later messages are not included.',
+      expiry: 'Expires',
+      never: 'never',
+      oneDay: 'in 1 day',
+      oneWeek: 'in 7 days',
+      oneMonth: 'in 30 days',
+      create: 'Create link',
+      creating: 'Creating…',
+      activeLinks: 'Active links',
+      expiresOn: 'Expires',
+      noExpiry: 'No expiry',
+      copy: 'Copy link',
+      revoke: 'Revoke',
+      close: 'Close',
+      manageTitle: 'Shared links',
+      noShares: 'You have not shared any conversation.',
+      messages: 'messages',
+      untitled: 'Untitled conversation',
+      sharedOn: 'Shared',
+      readOnly: 'Read-only',
+      unavailable: 'This link is no longer available',
+      unavailableHint: 'It may have been revoked or may have expired.',
+    },
+
+    agentSchedule: {
+      repeats: 'Repeats',
+      daily: 'Daily',
+      weekly: 'Weekly',
+      monthly: 'Monthly',
+      hourly: 'Every few hours',
+      once: 'Once',
+      cron: 'Custom (cron)',
+      at: 'at',
+      onDays: 'On',
+      pickWeekday: 'Pick at least one day',
+      dayOfMonth: 'Day of the month',
+      lastDayHint: 'Runs on the last day of shorter months',
+      every: 'Every',
+      hours: 'hours',
+      startingAt: 'aligned with',
+      monthlyOn: 'Monthly on day',
+      runAt: 'Run at',
+      runAtPast: 'Pick a time in the future',
+      cronExpression: 'Cron expression',
+      cronHint: 'minute hour day-of-month month day-of-week, e.g. "0 9 * * 1-5"',
+      invalidCron: 'Invalid cron expression',
+      timezone: 'Timezone',
+      invalidTimezone: 'Unknown timezone',
+      nextRuns: 'Next runs',
+      noUpcomingRun: 'This schedule has no upcoming run',
+      missedRunPolicy: 'If runs are missed',
+      skip: 'Skip them',
+      run_once: 'Run once to catch up',
+      run_all: 'Run each of them',
+      missedRunsHint: 'A run is missed when the scheduler could not start it within 15 minutes of its time.',
+      missedRun: 'missed run',
+      missedRuns: 'missed runs',
+      lastMissed: 'Last missed',
+      dismiss: 'Dismiss',
+      caughtUp: 'caught up',
+      writeToConversation: 'Also write each run into the task conversation',
+    },
+
+    agentRuns: {
+      title: 'Run history',
+      history: 'History',
+      empty: 'This task has not run yet.',
+      succeeded: 'Succeeded',
+      failed: 'Failed',
+      lastRunFailed: 'Last run failed',
+      scheduledFor: 'Scheduled for',
+      duration: 'Duration',
+      tokens: 'tokens',
+      caughtUp: 'Caught up',
+      response: 'Response',
+      error: 'Error',
+      openConversation: 'Open in conversation',
+      notInConversation: 'Kept in the run log only',
+      close: 'Close',
+    },
+
+    agentPipeline: {
+      then: 'Then',
+      hint: 'Each step receives the output of the previous one.',
+      addStep: 'Add step',
+      chat: 'Ask the assistant',
+      web_search: 'Search the web',
+      save_memory: 'Save to memory',
+      promptPlaceholder: 'Use {{input}} for the previous output, e.g. "Summarize in 5 bullet points: {{input}}"',
+      memoryPlaceholder: 'What to save (the previous output by default)',
+      moveUp: 'Move up',
+      moveDown: 'Move down',
+      remove: 'Remove step',
+      steps: 'steps',
+      stepResults: 'Steps',
+      input: 'Input',
+      skipped: 'Skipped',
+    },
+
     // Orion Assist
     orionAssist: {
       welcome: "Hi {userName}! I'm here to help. What do you need?",
@@ -195,7 +397,7 @@ export const translations = {
       logoutButton: 'Déconnexion',
       clearConfirm: 'Êtes-vous sûr de vouloir effacer l\'historique des conversations ?',
       infoBannerTitle: 'Cette interface appelle uniquement',
-      infoBannerText: 'Les messages sont envoyés à ORCHA, qui retourne une décision de routage avec le point de terminaison recommandé et la charge utile préparée. Le bouton "Appeler le point de terminaison recommandé" est un espace réservé (voir TODO dans src/api/orcha.ts).',
+      infoBannerText: 'Les messages sont envoyés à ORCHA, qui retourne une décision de routage avec le point de terminaison recommandé et la charge utile préparée. Le bouton "Appeler le point de terminaison recommandé" envoie la charge utile préparée à ce point de terminaison.',
     },
 
     // Message list
@@ -221,6 +423,7 @@ export const translations = {
       selectImageFile: 'Veuillez sélectionner un fichier image',
       fileSizeTooLarge: 'La taille du fichier doit être inférieure à 10 Mo',
       failedToProcess: 'Échec du traitement de l\'image',
+      stopGenerating: 'Arrêter la génération',
     },
 
     // Routing message
@@ -238,9 +441,13 @@ export const translations = {
       expand: 'Développer',
       collapse: 'Réduire',
       callEndpoint: 'Appeler le point de terminaison recommandé',
-      demoMode: '(Mode démo - Voir TODO dans src/api/orcha.ts)',
+      calling: 'Appel en cours...',
+      result: 'Résultat :',
+      jobsQueued: 'Traitement en file d\'attente. IDs des tâches :',
+      callFailed: 'Échec de l\'appel du point de terminaison',
       yes: 'Oui',
       no: 'Non',
+      autoRoute: 'Routage ORCHA',
     },
 
     // Badges
@@ -268,6 +475,8 @@ export const translations = {
       chatCount: 'conversation(s)',
       openSidebar: 'Ouvrir la barre latérale',
       closeSidebar: 'Fermer la barre latérale',
+      loadingMore: 'Chargement des anciennes discussions…',
+      olderInFolder: 'autres dans les anciennes discussions — charger',
     },
 
     // OCR Extractor
@@ -297,6 +506,7 @@ export const translations = {
       fileTypeError: 'Veuillez sélectionner un fichier image',
       fileSizeError: 'La taille du fichier doit être inférieure à 10 Mo',
       selectImageError: 'Veuillez d\'abord sélectionner une image',
+      stop: 'Arrêter',
     },
 
     // Pulse Feature
@@ -323,6 +533,200 @@ export const translations = {
 
 
 
+    // API errors (by OrchaError kind)
+    errors: {
+      network: 'Impossible de joindre le serveur. Vérifiez votre connexion et réessayez.',
+      timeout: 'Le serveur a mis trop de temps à répondre. Veuillez réessayer.',
+      auth: 'Votre session a expiré. Veuillez vous reconnecter.',
+      quota_exceeded: 'Vous avez atteint votre limite d\'utilisation. Veuillez réessayer plus tard.',
+      validation: 'La requête a été rejetée. Veuillez vérifier votre saisie.',
+      server: 'Le serveur a rencontré une erreur. Veuillez réessayer dans un instant.',
+      cancelled: 'Requête annulée.',
+      unknown: 'Une erreur est survenue. Veuillez réessayer.',
+    },
+
+    jobs: {
+      queued: 'En attente',
+      running: 'Traitement en cours',
+      failed: 'Échec',
+      dismiss: 'Ignorer',
+      defaultLabel: 'Traitement du document',
+    },
+
+    diagnostics: {
+      title: 'Diagnostic',
+      logLevel: 'Niveau de log',
+      copy: 'Copier',
+      copyAll: 'Tout copier',
+      copied: 'Copié',
+      close: 'Fermer le diagnostic',
+      empty: 'Aucune requête pour le moment.',
+      hint: 'Joignez ces identifiants de trace à vos demandes de support. Ctrl+Shift+D pour fermer.',
+    },
+
+    outbox: {
+      pending: 'En attente de connexion…',
+      sending: 'Envoi…',
+      failed: 'Non envoyé',
+      retry: 'Réessayer',
+      discard: 'Supprimer',
+    },
+
+    history: {
+      loadEarlier: 'Charger les messages précédents',
+      loadingEarlier: 'Chargement des messages précédents…',
+    },
+
+    messageSearch: {
+      title: 'Rechercher dans les messages',
+      placeholder: 'Rechercher dans toutes les conversations…',
+      openFromSidebar: 'Rechercher dans tous les messages',
+      anyRole: 'Tout le monde',
+      userRole: 'Mes messages',
+      assistantRole: "Réponses de l'assistant",
+      from: 'Du',
+      to: 'Au',
+      searching: 'Recherche…',
+      noResults: 'Aucun message ne correspond à votre recherche',
+      resultCount: 'résultat(s)',
+      loadMore: 'Plus de résultats',
+      untitled: 'Conversation sans titre',
+      close: 'Fermer la recherche',
+    },
+
+    export: {
+      title: 'Exporter',
+      markdown: 'Markdown (.md)',
+      pdf: 'PDF (impression)',
+      docx: 'Word (.docx)',
+      json: 'JSON (réimportable)',
+      exporting: "Préparation de l'export…",
+      failed: "Échec de l'export",
+    },
+
+    import: {
+      title: 'Importer des conversations',
+      openFromSidebar: 'Importer des discussions',
+      chooseFiles: "Choisir des fichiers d'export",
+      supportedFormats: 'Exports JSON Orion ou conversations.json de ChatGPT',
+      invalidJson: "n'est pas un fichier JSON valide",
+      unsupportedFormat: 'format non reconnu',
+      emptyFile: 'aucune conversation avec des messages',
+      selected: 'sélectionnée(s)',
+      selectAll: 'Tout sélectionner',
+      selectNone: 'Tout désélectionner',
+      messages: 'messages',
+      untitled: 'Conversation sans titre',
+      addToMemory: "Ajouter aussi ce que j'ai écrit à ma mémoire",
+      back: 'Retour',
+      importAction: 'Importer',
+      importing: 'Importation…',
+      imported: 'conversation(s) importée(s)',
+      close: 'Fermer',
+    },
+
+    share: {
+      title: 'Partager la conversation',
+      button: 'Partager',
+      description: "Toute personne disposant du lien peut lire la conversation telle qu'elle est maintenant. Les messages suivants ne sont pas inclus.",
+      expiry: 'Expiration',
+      never: 'jamais',
+      oneDay: 'dans 1 jour',
+      oneWeek: 'dans 7 jours',
+      oneMonth: 'dans 30 jours',
+      create: 'Créer un lien',
+      creating: 'Création…',
+      activeLinks: 'Liens actifs',
+      expiresOn: 'Expire le',
+      noExpiry: "Pas d'expiration",
+      copy: 'Copier le lien',
+      revoke: 'Révoquer',
+      close: 'Fermer',
+      manageTitle: 'Liens partagés',
+      noShares: "Vous n'avez partagé aucune conversation.",
+      messages: 'messages',
+      untitled: 'Conversation sans titre',
+      sharedOn: 'Partagée le',
+      readOnly: 'Lecture seule',
+      unavailable: "Ce lien n'est plus disponible",
+      unavailableHint: 'Il a peut-être été révoqué ou a expiré.',
+    },
+
+    agentSchedule: {
+      repeats: 'Répétition',
+      daily: 'Quotidien',
+      weekly: 'Hebdomadaire',
+      monthly: 'Mensuel',
+      hourly: 'Toutes les quelques heures',
+      once: 'Une fois',
+      cron: 'Personnalisé (cron)',
+      at: 'à',
+      onDays: 'Les',
+      pickWeekday: 'Choisissez au moins un jour',
+      dayOfMonth: 'Jour du mois',
+      lastDayHint: "S'exécute le dernier jour des mois plus courts",
+      every: 'Toutes les',
+      hours: 'heures',
+      startingAt: 'calé sur',
+      monthlyOn: 'Chaque mois le',
+      runAt: 'Exécuter le',
+      runAtPast: 'Choisissez une date future',
+      cronExpression: 'Expression cron',
+      cronHint: 'minute heure jour-du-mois mois jour-de-semaine, ex. "0 9 * * 1-5"',
+      invalidCron: 'Expression cron invalide',
+      timezone: 'Fuseau horaire',
+      invalidTimezone: 'Fuseau horaire inconnu',
+      nextRuns: 'Prochaines exécutions',
+      noUpcomingRun: "Cette planification n'a aucune exécution à venir",
+      missedRunPolicy: 'Exécutions manquées',
+      skip: 'Les ignorer',
+      run_once: 'Rattraper une seule fois',
+      run_all: 'Les exécuter toutes',
+      missedRunsHint: "Une exécution est manquée lorsque le planificateur n'a pas pu la lancer dans les 15 minutes suivant son heure.",
+      missedRun: 'exécution manquée',
+      missedRuns: 'exécutions manquées',
+      lastMissed: 'Dernière manquée',
+      dismiss: 'Ignorer',
+      caughtUp: 'rattrapée',
+      writeToConversation: 'Écrire aussi chaque exécution dans la conversation de la tâche',
+    },
+
+    agentRuns: {
+      title: 'Historique des exécutions',
+      history: 'Historique',
+      empty: "Cette tâche ne s'est pas encore exécutée.",
+      succeeded: 'Réussie',
+      failed: 'Échouée',
+      lastRunFailed: 'La dernière exécution a échoué',
+      scheduledFor: 'Prévue pour',
+      duration: 'Durée',
+      tokens: 'jetons',
+      caughtUp: 'Rattrapée',
+      response: 'Réponse',
+      error: 'Erreur',
+      openConversation: 'Ouvrir dans la conversation',
+      notInConversation: "Conservée uniquement dans l'historique",
+      close: 'Fermer',
+    },
+
+    agentPipeline: {
+      then: 'Ensuite',
+      hint: "Chaque étape reçoit le résultat de l'étape précédente.",
+      addStep: 'Ajouter une étape',
+      chat: "Demander à l'assistant",
+      web_search: 'Rechercher sur le Web',
+      save_memory: 'Enregistrer en mémoire',
+      promptPlaceholder: 'Utilisez {{input}} pour le résultat précédent, ex. "Résume en 5 points : {{input}}"',
+      memoryPlaceholder: 'Ce qu\'il faut enregistrer (le résultat précédent par défaut)',
+      moveUp: 'Monter',
+      moveDown: 'Descendre',
+      remove: "Supprimer l'étape",
+      steps: 'étapes',
+      stepResults: 'Étapes',
+      input: 'Entrée',
+      skipped: 'Ignorée',
+    },
+
     // Orion Assist
     orionAssist: {
       welcome: "Salut {userName} ! Je suis là pour t'aider. De quoi as-tu besoin ?",
@@ -394,6 +798,7 @@ export const translations = {
       selectImageFile: 'يرجى اختيار ملف صورة',
       fileSizeTooLarge: 'يجب أن يكون حجم الملف أقل من 10 ميجابايت',
       failedToProcess: 'فشل معالجة الصورة',
+      stopGenerating: 'إيقاف التوليد',
     },
 
     // Routing message
@@ -411,9 +816,13 @@ export const translations = {
       expand: 'توسيع',
       collapse: 'طي',
       callEndpoint: 'استدعاء نقطة النهاية الموصى بها',
-      demoMode: '(وضع العرض التوضيحي)',
+      calling: 'جارٍ الاستدعاء...',
+      result: 'النتيجة:',
+      jobsQueued: 'تمت جدولة المعالجة. معرّفات المهام:',
+      callFailed: 'فشل استدعاء نقطة النهاية',
       yes: 'نعم',
       no: 'لا',
+      autoRoute: 'توجيه ORCHA',
     },
 
     // Badges
@@ -441,6 +850,8 @@ export const translations = {
       chatCount: 'محادثة(ات)',
       openSidebar: 'فتح الشريط الجانبي',
       closeSidebar: 'إغلاق الشريط الجانبي',
+      loadingMore: 'جارٍ تحميل المحادثات الأقدم…',
+      olderInFolder: 'أخرى ضمن المحادثات الأقدم — تحميل',
     },
 
     // OCR Extractor
@@ -470,6 +881,7 @@ export const translations = {
       fileTypeError: 'يرجى اختيار ملف صورة',
       fileSizeError: 'يجب أن يكون حجم الملف أقل من 10 ميجابايت',
       selectImageError: 'يرجى اختيار صورة أولاً',
+      stop: 'إيقاف',
     },
 
     // Pulse Feature
@@ -494,6 +906,200 @@ export const translations = {
       title: 'النماذج',
     },
 
+    // API errors (by OrchaError kind)
+    errors: {
+      network: 'تعذر الوصول إلى الخادم. تحقق من اتصالك وحاول مرة أخرى.',
+      timeout: 'استغرق الخادم وقتاً طويلاً للرد. يرجى المحاولة مرة أخرى.',
+      auth: 'انتهت صلاحية جلستك. يرجى تسجيل الدخول مرة أخرى.',
+      quota_exceeded: 'لقد بلغت حد الاستخدام. يرجى المحاولة لاحقاً.',
+      validation: 'تم رفض الطلب. يرجى التحقق من المدخلات.',
+      server: 'حدث خطأ في الخادم. يرجى المحاولة بعد قليل.',
+      cancelled: 'تم إلغاء الطلب.',
+      unknown: 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+    },
+
+    jobs: {
+      queued: 'في الانتظار',
+      running: 'جارٍ المعالجة',
+      failed: 'فشل',
+      dismiss: 'تجاهل',
+      defaultLabel: 'معالجة المستند',
+    },
+
+    diagnostics: {
+      title: 'التشخيص',
+      logLevel: 'مستوى السجل',
+      copy: 'نسخ',
+      copyAll: 'نسخ الكل',
+      copied: 'تم النسخ',
+      close: 'إغلاق التشخيص',
+      empty: 'لا توجد طلبات بعد.',
+      hint: 'أرفق معرفات التتبع هذه بطلبات الدعم. اضغط Ctrl+Shift+D للإغلاق.',
+    },
+
+    outbox: {
+      pending: 'في انتظار الاتصال…',
+      sending: 'جارٍ الإرسال…',
+      failed: 'لم يتم الإرسال',
+      retry: 'إعادة المحاولة',
+      discard: 'تجاهل',
+    },
+
+    history: {
+      loadEarlier: 'تحميل الرسائل السابقة',
+      loadingEarlier: 'جارٍ تحميل الرسائل السابقة…',
+    },
+
+    messageSearch: {
+      title: 'البحث في الرسائل',
+      placeholder: 'ابحث في جميع المحادثات…',
+      openFromSidebar: 'البحث في جميع الرسائل',
+      anyRole: 'الجميع',
+      userRole: 'رسائلي',
+      assistantRole: 'ردود المساعد',
+      from: 'من',
+      to: 'إلى',
+      searching: 'جارٍ البحث…',
+      noResults: 'لا توجد رسائل مطابقة لبحثك',
+      resultCount: 'نتيجة',
+      loadMore: 'المزيد من النتائج',
+      untitled: 'محادثة بدون عنوان',
+      close: 'إغلاق البحث',
+    },
+
+    export: {
+      title: 'تصدير',
+      markdown: 'Markdown (.md)',
+      pdf: 'PDF (طباعة)',
+      docx: 'Word (.docx)',
+      json: 'JSON (قابل لإعادة الاستيراد)',
+      exporting: 'جارٍ تحضير التصدير…',
+      failed: 'فشل التصدير',
+    },
+
+    import: {
+      title: 'استيراد المحادثات',
+      openFromSidebar: 'استيراد المحادثات',
+      chooseFiles: 'اختر ملفات التصدير',
+      supportedFormats: 'ملفات JSON المصدّرة من Orion أو ملف conversations.json من ChatGPT',
+      invalidJson: 'ليس ملف JSON صالحًا',
+      unsupportedFormat: 'تنسيق غير معروف',
+      emptyFile: 'لا توجد محادثات تحتوي على رسائل',
+      selected: 'محددة',
+      selectAll: 'تحديد الكل',
+      selectNone: 'إلغاء التحديد',
+      messages: 'رسائل',
+      untitled: 'محادثة بدون عنوان',
+      addToMemory: 'أضف أيضًا ما كتبته إلى ذاكرتي',
+      back: 'رجوع',
+      importAction: 'استيراد',
+      importing: 'جارٍ الاستيراد…',
+      imported: 'محادثة مستوردة',
+      close: 'إغلاق',
+    },
+
+    share: {
+      title: 'مشاركة المحادثة',
+      button: 'مشاركة',
+      description: 'يمكن لأي شخص لديه الرابط قراءة المحادثة كما هي الآن. لا تُضمَّن الرسائل اللاحقة.',
+      expiry: 'الانتهاء',
+      never: 'أبدًا',
+      oneDay: 'بعد يوم واحد',
+      oneWeek: 'بعد 7 أيام',
+      oneMonth: 'بعد 30 يومًا',
+      create: 'إنشاء رابط',
+      creating: 'جارٍ الإنشاء…',
+      activeLinks: 'الروابط النشطة',
+      expiresOn: 'ينتهي في',
+      noExpiry: 'بدون انتهاء',
+      copy: 'نسخ الرابط',
+      revoke: 'إلغاء',
+      close: 'إغلاق',
+      manageTitle: 'الروابط المشتركة',
+      noShares: 'لم تشارك أي محادثة.',
+      messages: 'رسائل',
+      untitled: 'محادثة بدون عنوان',
+      sharedOn: 'تمت المشاركة في',
+      readOnly: 'للقراءة فقط',
+      unavailable: 'هذا الرابط لم يعد متاحًا',
+      unavailableHint: 'ربما تم إلغاؤه أو انتهت صلاحيته.',
+    },
+
+    agentSchedule: {
+      repeats: 'التكرار',
+      daily: 'يومي',
+      weekly: 'أسبوعي',
+      monthly: 'شهري',
+      hourly: 'كل بضع ساعات',
+      once: 'مرة واحدة',
+      cron: 'مخصص (cron)',
+      at: 'في',
+      onDays: 'أيام',
+      pickWeekday: 'اختر يومًا واحدًا على الأقل',
+      dayOfMonth: 'يوم الشهر',
+      lastDayHint: 'يُنفَّذ في آخر يوم من الأشهر الأقصر',
+      every: 'كل',
+      hours: 'ساعات',
+      startingAt: 'بدءًا من',
+      monthlyOn: 'شهريًا في اليوم',
+      runAt: 'التنفيذ في',
+      runAtPast: 'اختر وقتًا في المستقبل',
+      cronExpression: 'تعبير cron',
+      cronHint: 'دقيقة ساعة يوم-الشهر شهر يوم-الأسبوع، مثال "0 9 * * 1-5"',
+      invalidCron: 'تعبير cron غير صالح',
+      timezone: 'المنطقة الزمنية',
+      invalidTimezone: 'منطقة زمنية غير معروفة',
+      nextRuns: 'التنفيذات القادمة',
+      noUpcomingRun: 'لا يوجد تنفيذ قادم لهذا الجدول',
+      missedRunPolicy: 'عند فوات التنفيذ',
+      skip: 'تجاهلها',
+      run_once: 'التنفيذ مرة واحدة للتعويض',
+      run_all: 'تنفيذ كل منها',
+      missedRunsHint: 'يُعد التنفيذ فائتًا إذا لم يتمكن المجدول من بدئه خلال 15 دقيقة من موعده.',
+      missedRun: 'تنفيذ فائت',
+      missedRuns: 'تنفيذات فائتة',
+      lastMissed: 'آخر تنفيذ فائت',
+      dismiss: 'تجاهل',
+      caughtUp: 'تم التعويض',
+      writeToConversation: 'كتابة كل تنفيذ أيضًا في محادثة المهمة',
+    },
+
+    agentRuns: {
+      title: 'سجل التنفيذ',
+      history: 'السجل',
+      empty: 'لم تُنفَّذ هذه المهمة بعد.',
+      succeeded: 'نجح',
+      failed: 'فشل',
+      lastRunFailed: 'فشل آخر تنفيذ',
+      scheduledFor: 'مقرر في',
+      duration: 'المدة',
+      tokens: 'رموز',
+      caughtUp: 'تم التعويض',
+      response: 'الاستجابة',
+      error: 'خطأ',
+      openConversation: 'فتح في المحادثة',
+      notInConversation: 'محفوظ في سجل التنفيذ فقط',
+      close: 'إغلاق',
+    },
+
+    agentPipeline: {
+      then: 'ثم',
+      hint: 'تتلقى كل خطوة نتيجة الخطوة السابقة.',
+      addStep: 'إضافة خطوة',
+      chat: 'اسأل المساعد',
+      web_search: 'البحث على الويب',
+      save_memory: 'الحفظ في الذاكرة',
+      promptPlaceholder: 'استخدم {{input}} للنتيجة السابقة، مثال "لخّص في 5 نقاط: {{input}}"',
+      memoryPlaceholder: 'ما يجب حفظه (النتيجة السابقة افتراضيًا)',
+      moveUp: 'نقل لأعلى',
+      moveDown: 'نقل لأسفل',
+      remove: 'حذف الخطوة',
+      steps: 'خطوات',
+      stepResults: 'الخطوات',
+      input: 'المدخل',
+      skipped: 'تم التخطي',
+    },
+
     // Orion Assist
     orionAssist: {
       welcome: "مرحباً {userName}! أنا هنا للمساعدة. ماذا تحتاج؟",
@@ -1,11 +1,20 @@
 // ORCHA API Type Definitions
 
 export interface Attachment {
-  uri: string;
+  uri: string; // file_uri returned by uploadFile (or a local blob: URL before upload)
   type: string;
   filename?: string;
-  data?: string; // base64 encoded file data
+  data?: string; // base64 encoded file data (legacy inline attachments)
   size?: number; // file size in bytes
+  preview_url?: string; // local object URL for in-app preview, never sent to the backend
+  upload_progress?: number; // 0-100 while the upload is in flight, undefined once uploaded
+}
+
+export interface UploadFileResponse {
+  file_uri: string;
+  filename: string;
+  content_type: string;
+  size: number;
 }
 
 export interface RouteRequest {
@@ -14,6 +23,7 @@ export interface RouteRequest {
   message: string;
   attachments?: Attachment[];
   use_rag?: boolean;
+  conversation_id?: number | null; // Conversation the routed request belongs to
 }
 
 export interface RouteResponse {
@@ -40,6 +50,18 @@ export interface ChatRequest {
   use_pro_mode?: boolean;
   conversation_history?: ConversationHistoryMessage[];
   conversation_id?: number | null;
+  // Fork: answer as a new child of this message (null = from the start) instead of the active branch
+  parent_message_id?: number | null;
+  // Regenerate: answer this existing user message again; the new answer becomes another version of the old one
+  regenerate_message_id?: number;
+  model?: string; // Pin the LLM (e.g. the model of the answer being regenerated)
+}
+
+// Options a user message was sent with, persisted on the message so the request can be replayed
+export interface ChatRequestOptions {
+  use_rag?: boolean;
+  use_pro_mode?: boolean;
+  model?: string | null;
 }
 
 export interface Context {
@@ -86,6 +108,64 @@ export interface ChatResponse {
   usage?: any;
 }
 
+// Normalized outcome of dispatching a routing decision to its recommended endpoint
+export interface EndpointCallResult {
+  endpoint: string;
+  status?: string;
+  message?: string; // text to render in the conversation
+  conversation_id?: number;
+  token_usage?: TokenUsage;
+  job_ids?: string[]; // set when the endpoint queued work (e.g. ocr_queued)
+  data: any; // raw endpoint response
+}
+
+// Background job status (queued OCR, long-running routes)
+export type JobState = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobStatusResponse {
+  job_id: string;
+  status: JobState;
+  progress?: number; // 0-100 when the backend reports it
+  result?: {
+    message?: string;
+    extracted_text?: string;
+    [key: string]: any;
+  };
+  error?: string;
+}
+
+// A queued job watched by the client until its result is delivered to its conversation
+export interface TrackedJob {
+  job_id: string;
+  user_id: number;
+  conversation_id: number | null;
+  label: string; // what the job is processing (e.g. the attachment filename)
+  status: JobState;
+  progress?: number;
+  error?: string;
+  created_at: string;
+}
+
+// A chat message waiting in the offline outbox (persisted in IndexedDB until sent or discarded)
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxMessage {
+  id: string;
+  user_id: number;
+  conversation_id: number | null;
+  request: ChatRequest;
+  attachments: Attachment[]; // as shown in the conversation (with local previews)
+  status: OutboxStatus;
+  error?: string; // why the backend rejected the message (status 'failed')
+  created_at: string;
+}
+
+export interface AddConversationMessageRequest {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  job_id?: string; // Idempotency key: the backend stores one message per job, later deliveries return it
+}
+
 export type PreparedPayload =
   | ChatPayload
   | OCRPayload
@@ -97,6 +177,7 @@ export interface ChatPayload {
   tenant_id?: string;
   message: string;
   session_id?: string;
+  conversation_id?: number | null;
 }
 
 export interface OCRPayload {
@@ -122,6 +203,7 @@ export interface Message {
   timestamp: Date;
   attachments?: Attachment[];
   routingData?: RouteResponse;
+  routingResult?: EndpointCallResult; // set once the routed endpoint has been called
   contexts?: Context[];
   isLoading?: boolean;
 }
@@ -178,6 +260,11 @@ export interface ChatMessage {
   token_count: number | null;
   model_used: string | null;
   created_at: string;
+  // Branching: messages form a tree, the backend returns the active path
+  parent_id?: number | null;
+  sibling_ids?: number[]; // Alternative versions at this point (same parent), oldest first, this one included
+  request_options?: ChatRequestOptions; // User messages only
+  contexts?: Context[]; // Sources a RAG answer was based on, when the backend stores them
 }
 
 export interface Conversation {
@@ -190,6 +277,216 @@ export interface Conversation {
   messages?: ChatMessage[];
 }
 
+// One page of a conversation's messages, oldest first; `next_cursor` fetches the page before it
+export interface MessagePage {
+  messages: ChatMessage[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+export interface MessageSearchParams {
+  query: string;
+  role?: 'user' | 'assistant';
+  from?: string; // ISO date (inclusive)
+  to?: string; // ISO date (inclusive)
+  limit?: number;
+  offset?: number;
+}
+
+export interface MessageSearchHit {
+  conversation_id: number;
+  conversation_title: string | null;
+  message_id: number;
+  role: 'user' | 'assistant' | 'system';
+  snippet: string; // Excerpt of the message around the first match
+  created_at: string;
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchHit[];
+  total: number;
+}
+
+export type ExportFormat = 'markdown' | 'pdf' | 'docx' | 'json';
+
+// One message of a JSON export: attachment metadata only, never file contents
+export interface ExportedMessage {
+  id: number;
+  role: ChatMessage['role'];
+  content: string;
+  created_at: string;
+  model_used: string | null;
+  token_count: number | null;
+  parent_id?: number | null;
+  attachments: Array<Pick<Attachment, 'filename' | 'type' | 'size' | 'uri'>>;
+  contexts: Context[];
+}
+
+// Machine-readable conversation export (also accepted by the importer)
+export interface ConversationExport {
+  format: 'orion-conversation';
+  version: 1;
+  exported_at: string;
+  conversation: {
+    id: number;
+    title: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+  messages: ExportedMessage[];
+}
+
+// A conversation parsed from an export file (ours or another assistant's), created in one request
+export interface ImportConversationRequest {
+  title: string | null;
+  created_at?: string;
+  messages: Array<{
+    role: ChatMessage['role'];
+    content: string;
+    created_at?: string;
+    model_used?: string | null;
+    token_count?: number | null;
+  }>;
+}
+
+export interface ImportConversationsResponse {
+  status: string;
+  conversations: Conversation[];
+}
+
+// Public read-only link to a snapshot of a conversation
+export interface ConversationShare {
+  token: string;
+  conversation_id: number;
+  title: string | null;
+  message_count: number;
+  created_at: string;
+  expires_at: string | null; // null: valid until revoked
+}
+
+export interface CreateShareRequest {
+  expires_in_hours?: number | null;
+}
+
+// What a share link shows: the messages as they were when the link was created
+export interface SharedConversation {
+  token: string;
+  title: string | null;
+  shared_at: string;
+  expires_at: string | null;
+  messages: ChatMessage[];
+}
+
+export type AgentTaskSchedule = 'daily' | 'weekly' | 'monthly' | 'hourly' | 'once' | 'cron';
+
+// What the scheduler does with runs it could not start on time:
+// skip them, run once to catch up, or run each of them
+export type AgentTaskMissedRunPolicy = 'skip' | 'run_once' | 'run_all';
+
+export type AgentTaskRunStatus = 'succeeded' | 'failed';
+
+export type AgentTaskStepType = 'chat' | 'web_search' | 'save_memory';
+
+// A step run after a task's instructions. Its prompt may reference the previous
+// step's output as {{input}}; without it, the output is appended to the prompt.
+export interface AgentTaskStep {
+  type: AgentTaskStepType;
+  prompt: string;
+}
+
+// Outcome of one step of a run; the instructions are step 0
+export interface AgentTaskStepResult {
+  type: AgentTaskStepType;
+  input: string; // The prompt after {{input}} was filled in
+  status: AgentTaskRunStatus | 'skipped'; // skipped: an earlier step failed
+  output: string | null;
+  error: string | null;
+  duration_ms: number;
+  tokens_used: number | null;
+}
+
+// A scheduled agent task, stored and executed by the backend scheduler
+export interface AgentTask {
+  id: number;
+  user_id: number;
+  task_name: string;
+  instructions: string;
+  schedule: AgentTaskSchedule;
+  time: string; // Format: "HH:MM AM/PM" (daily, weekly, monthly, and the first hour of hourly)
+  timezone: string; // IANA timezone the schedule is read in, e.g. "Europe/Paris"
+  weekdays: number[] | null; // weekly: days to run on, 0 = Sunday
+  day_of_month: number | null; // monthly: 1-31, the last day of shorter months
+  interval_hours: number | null; // hourly: hours between two runs
+  run_at: string | null; // once: local datetime "YYYY-MM-DDTHH:MM"
+  cron: string | null; // cron: 5-field expression
+  missed_run_policy: AgentTaskMissedRunPolicy;
+  missed_runs: number; // Runs skipped since the user last dismissed them
+  last_missed_at: string | null; // Scheduled time of the latest skipped run
+  is_search: boolean; // If true, uses web search instead of chat
+  pipeline: AgentTaskStep[]; // Steps run after the instructions, each fed the previous output
+  enabled: boolean;
+  write_to_conversation: boolean; // If false, results are only kept in the run log
+  conversation_id: number | null; // Where results are written (created on the first run)
+  created_at: string;
+  last_run: string | null;
+  last_run_status: AgentTaskRunStatus | null;
+  next_run: string | null; // null while disabled
+}
+
+export interface CreateAgentTaskRequest {
+  user_id: number;
+  task_name: string;
+  instructions: string;
+  schedule: AgentTaskSchedule;
+  time: string;
+  timezone?: string;
+  weekdays?: number[] | null;
+  day_of_month?: number | null;
+  interval_hours?: number | null;
+  run_at?: string | null;
+  cron?: string | null;
+  missed_run_policy?: AgentTaskMissedRunPolicy;
+  is_search?: boolean;
+  pipeline?: AgentTaskStep[];
+  enabled?: boolean;
+  write_to_conversation?: boolean;
+}
+
+export type UpdateAgentTaskRequest = Partial<Omit<CreateAgentTaskRequest, 'user_id'>> & {
+  missed_runs?: 0; // Dismiss the missed runs
+};
+
+// A task result written into its conversation while the user was away, not shown yet
+export interface AgentTaskDelivery {
+  id: number;
+  task_id: number;
+  task_name: string;
+  is_search: boolean;
+  conversation_id: number | null; // null when the task only keeps its run log
+  message_id: number | null;
+  content: string;
+  scheduled_for: string; // The occurrence this run was for
+  ran_at: string;
+  catch_up: boolean; // Run late under the task's missed-run policy
+}
+
+// One execution of an agent task, kept in the task's run log
+export interface AgentTaskRun {
+  id: number;
+  task_id: number;
+  status: AgentTaskRunStatus;
+  scheduled_for: string;
+  started_at: string;
+  duration_ms: number;
+  catch_up: boolean;
+  response: string | null; // Output of the last step, null if the run failed
+  error: string | null;
+  tokens_used: number | null;
+  steps: AgentTaskStepResult[];
+  conversation_id: number | null; // Set when the answer was also written to the task's conversation
+  message_id: number | null;
+}
+
 export interface CreateConversationRequest {
   user_id: number;
   title?: string;
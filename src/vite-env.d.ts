@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
+  readonly VITE_LOG_LEVEL?: string; // debug | info | warn | error | silent (default: debug in dev, warn in production)
+  readonly VITE_USE_MOCK_API?: string; // 'true' to answer every API call from the in-browser mock backend
 }
 
 interface ImportMeta {